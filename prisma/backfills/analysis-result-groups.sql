@@ -0,0 +1,53 @@
+-- Asignar el grupo a los resultados de análisis anteriores a
+-- AnalysisResult.groupId (antes había un único resultado por análisis, sin
+-- grupo) y reemplazar el índice único uk_analysis_result por
+-- uk_analysis_result_group.
+--
+-- El grupo se toma de las recomendaciones que se guardaron junto con el
+-- resultado (la primera del análisis creada desde ese resultado) o, si la
+-- evaluación tiene un solo grupo, de ese grupo. Los resultados que no se
+-- pueden atribuir a un grupo no caben en el schema nuevo (la columna es
+-- obligatoria): se copian a backup.analysis_results_unattributed (fuera del
+-- schema public, que `db push` sincroniza) y luego se eliminan de
+-- analysis_results. Revisa esa tabla antes de borrarla.
+--
+-- Uso (antes de `npx prisma db push`):
+--   psql "$DATABASE_URL" -f prisma/backfills/analysis-result-groups.sql
+
+BEGIN;
+
+ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS group_id uuid;
+
+UPDATE analysis_results AS r
+SET group_id = (
+  SELECT rec.group_id
+  FROM recommendations AS rec
+  WHERE rec.analysis_id = r.analysis_id
+    AND rec.group_id IS NOT NULL
+    AND rec.created_at >= r.created_at
+  ORDER BY rec.created_at ASC
+  LIMIT 1
+)
+WHERE r.group_id IS NULL;
+
+UPDATE analysis_results AS r
+SET group_id = g.id
+FROM analyses AS a
+JOIN groups AS g ON g.evaluation_id = a.evaluation_id
+WHERE r.group_id IS NULL
+  AND r.analysis_id = a.id
+  AND (SELECT COUNT(*) FROM groups WHERE evaluation_id = a.evaluation_id) = 1;
+
+CREATE SCHEMA IF NOT EXISTS backup;
+CREATE TABLE IF NOT EXISTS backup.analysis_results_unattributed AS
+  SELECT * FROM analysis_results WITH NO DATA;
+
+INSERT INTO backup.analysis_results_unattributed
+SELECT * FROM analysis_results WHERE group_id IS NULL;
+
+DELETE FROM analysis_results WHERE group_id IS NULL;
+
+ALTER TABLE analysis_results DROP CONSTRAINT IF EXISTS uk_analysis_result;
+DROP INDEX IF EXISTS uk_analysis_result;
+
+COMMIT;
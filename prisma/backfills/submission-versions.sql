@@ -0,0 +1,32 @@
+-- Numerar las entregas existentes antes de aplicar el schema con
+-- Submission.version y el índice único uk_submission_group_version.
+-- Cada grupo recibe las versiones 1..N según el orden de subida.
+--
+-- Uso (antes de `npx prisma db push`):
+--   psql "$DATABASE_URL" -f prisma/backfills/submission-versions.sql
+--
+-- Se puede ejecutar más de una vez: renumera con el mismo criterio.
+
+BEGIN;
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+-- Si el índice ya existe, dos grupos de filas podrían chocar mientras se renumera
+DROP INDEX IF EXISTS uk_submission_group_version;
+
+UPDATE submissions AS s
+SET version = numbered.version
+FROM (
+  SELECT id,
+         ROW_NUMBER() OVER (
+           PARTITION BY group_id
+           ORDER BY uploaded_at ASC NULLS FIRST, id ASC
+         ) AS version
+  FROM submissions
+) AS numbered
+WHERE s.id = numbered.id
+  AND s.version IS DISTINCT FROM numbered.version;
+
+CREATE UNIQUE INDEX uk_submission_group_version ON submissions (group_id, version);
+
+COMMIT;
@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnalysisEvent, analysis_event_type, Prisma } from '@prisma/client';
+import { Observable } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+
+interface EmitOptions {
+  groupId?: string;
+  message?: string;
+  data?: Prisma.InputJsonValue;
+}
+
+// Consultas sin SUMMARY tras el fin del análisis antes de cerrar el stream
+const SUMMARY_GRACE_POLLS = 5;
+
+/**
+ * Eventos de progreso de un análisis.
+ * Se guardan en Postgres para que un cliente que se reconecta pueda
+ * reproducirlos a partir del último ID recibido (Last-Event-ID).
+ */
+@Injectable()
+export class AnalysisEventsService {
+  private readonly logger = new Logger(AnalysisEventsService.name);
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalMs = Number(
+      this.configService.get('ANALYSIS_EVENTS_POLL_MS', 1000),
+    );
+  }
+
+  /**
+   * Registrar un evento. Un fallo al registrarlo no interrumpe el análisis.
+   */
+  async emit(
+    analysisId: string,
+    type: analysis_event_type,
+    options: EmitOptions = {},
+  ) {
+    try {
+      await this.prisma.analysisEvent.create({
+        data: {
+          analysisId,
+          type,
+          groupId: options.groupId,
+          message: options.message,
+          data: options.data,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error al registrar evento ${type} del análisis ${analysisId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Registrar el evento QUEUED de varios grupos a la vez
+   */
+  async emitQueued(
+    analysisId: string,
+    groups: Array<{ id: string; code: string | null }>,
+  ) {
+    try {
+      await this.prisma.analysisEvent.createMany({
+        data: groups.map((group) => ({
+          analysisId,
+          groupId: group.id,
+          type: 'QUEUED' as const,
+          message: `Grupo ${group.code} en cola`,
+        })),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error al registrar eventos QUEUED del análisis ${analysisId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Stream de eventos: primero los ya registrados después de lastEventId y
+   * luego los nuevos a medida que aparecen. Termina con el evento SUMMARY, o
+   * cuando el análisis ya terminó y no quedan eventos por enviar (reconexión
+   * con un Last-Event-ID posterior al SUMMARY, o un SUMMARY que no se pudo
+   * registrar).
+   */
+  stream(analysisId: string, lastEventId?: string): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      let cursor = this.parseCursor(lastEventId);
+      let timer: NodeJS.Timeout | undefined;
+      let closed = false;
+
+      const poll = async () => {
+        try {
+          const events = await this.prisma.analysisEvent.findMany({
+            where: { analysisId, id: { gt: cursor } },
+            include: { group: true },
+            orderBy: { id: 'asc' },
+          });
+
+          for (const event of events) {
+            cursor = event.id;
+            subscriber.next(this.toMessageEvent(event));
+
+            if (event.type === 'SUMMARY') {
+              subscriber.complete();
+              return;
+            }
+          }
+
+          if (
+            events.length === 0 &&
+            (await this.isFinished(analysisId, cursor))
+          ) {
+            subscriber.complete();
+            return;
+          }
+
+          if (!closed) {
+            timer = setTimeout(() => void poll(), this.pollIntervalMs);
+          }
+        } catch (error) {
+          subscriber.error(error);
+        }
+      };
+
+      this.prisma.analysis
+        .findUnique({ where: { id: analysisId } })
+        .then((analysis) => {
+          if (!analysis) {
+            throw new NotFoundException(`Análisis ${analysisId} no encontrado`);
+          }
+          return poll();
+        })
+        .catch((error) => subscriber.error(error));
+
+      return () => {
+        closed = true;
+        clearTimeout(timer);
+      };
+    });
+  }
+
+  /**
+   * El análisis terminó y el cliente ya recibió su SUMMARY. Si no hay SUMMARY
+   * (emit no lo pudo registrar) se espera un margen, porque el evento se
+   * registra un instante después de marcar el fin del análisis.
+   */
+  private async isFinished(analysisId: string, cursor: bigint) {
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id: analysisId },
+      select: { endedAt: true },
+    });
+
+    if (!analysis?.endedAt) {
+      return false;
+    }
+
+    const summary = await this.prisma.analysisEvent.findFirst({
+      where: { analysisId, type: 'SUMMARY' },
+      select: { id: true },
+    });
+
+    if (summary) {
+      return summary.id <= cursor;
+    }
+
+    return (
+      Date.now() - analysis.endedAt.getTime() >
+      SUMMARY_GRACE_POLLS * this.pollIntervalMs
+    );
+  }
+
+  private toMessageEvent(
+    event: AnalysisEvent & { group: { code: string | null } | null },
+  ): MessageEvent {
+    return {
+      id: event.id.toString(),
+      data: {
+        type: event.type,
+        analysisId: event.analysisId,
+        groupId: event.groupId,
+        groupCode: event.group?.code ?? null,
+        message: event.message,
+        data: event.data,
+        createdAt: event.createdAt,
+      },
+    };
+  }
+
+  private parseCursor(lastEventId?: string): bigint {
+    try {
+      return lastEventId ? BigInt(lastEventId) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  }
+}
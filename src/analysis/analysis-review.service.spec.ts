@@ -0,0 +1,298 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalysisReviewService } from './analysis-review.service';
+
+describe('AnalysisReviewService', () => {
+  let review: AnalysisReviewService;
+
+  const prisma = {
+    user: { findUnique: jest.fn() },
+    analysis: { findUnique: jest.fn(), update: jest.fn() },
+    analysisResult: { findUnique: jest.fn(), update: jest.fn() },
+    analysisCriterionResult: { findUnique: jest.fn(), update: jest.fn() },
+    activityLog: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const analysis = (overrides: Record<string, unknown> = {}) => ({
+    id: 'analysis-1',
+    evaluationId: 'evaluation-1',
+    reviewStatus: 'PENDING_REVIEW',
+    endedAt: new Date('2025-01-15T10:00:00.000Z'),
+    ...overrides,
+  });
+
+  const criterionResult = (overrides: Record<string, unknown> = {}) => ({
+    id: 'criterion-1',
+    score: new Prisma.Decimal(2),
+    maxScore: new Prisma.Decimal(4),
+    level: 'REGULAR',
+    feedback: 'Faltan pruebas',
+    overrideScore: null,
+    overrideLevel: null,
+    overrideFeedback: null,
+    overriddenAt: null,
+    ...overrides,
+  });
+
+  // data del último update del análisis
+  const analysisUpdate = () =>
+    (
+      prisma.analysis.update.mock.calls.at(-1) as [
+        { data: Prisma.AnalysisUpdateInput },
+      ]
+    )[0].data;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // Transacciones en lote (arreglo) o interactivas (callback)
+    prisma.$transaction.mockImplementation((arg: unknown) =>
+      Array.isArray(arg)
+        ? Promise.all(arg)
+        : (arg as (tx: typeof prisma) => Promise<unknown>)(prisma),
+    );
+    prisma.user.findUnique.mockResolvedValue({ id: 'teacher-1' });
+    prisma.analysis.update.mockImplementation(
+      ({ data }: { data: Prisma.AnalysisUpdateInput }) =>
+        Promise.resolve({ ...analysis(), ...data }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisReviewService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    review = module.get<AnalysisReviewService>(AnalysisReviewService);
+  });
+
+  describe('updateReviewStatus', () => {
+    it('should mark a finished analysis as reviewed', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(analysis());
+
+      await review.updateReviewStatus('analysis-1', {
+        status: 'REVIEWED',
+        reviewerId: 'teacher-1',
+      });
+
+      expect(analysisUpdate()).toEqual({
+        reviewStatus: 'REVIEWED',
+        reviewedAt: expect.any(Date) as Date,
+        publishedAt: null,
+      });
+      expect(prisma.activityLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId: 'teacher-1',
+          message: expect.stringContaining(
+            'PENDING_REVIEW → REVIEWED',
+          ) as string,
+        }) as object,
+      });
+    });
+
+    it('should not publish an analysis that was not reviewed', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(analysis());
+
+      await expect(
+        review.updateReviewStatus('analysis-1', {
+          status: 'PUBLISHED',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.analysis.update).not.toHaveBeenCalled();
+    });
+
+    it('should not review an analysis still in progress', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(analysis({ endedAt: null }));
+
+      await expect(
+        review.updateReviewStatus('analysis-1', {
+          status: 'REVIEWED',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should clear the review date when going back to pending', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(
+        analysis({ reviewStatus: 'REVIEWED' }),
+      );
+
+      await review.updateReviewStatus('analysis-1', {
+        status: 'PENDING_REVIEW',
+        reviewerId: 'teacher-1',
+      });
+
+      expect(analysisUpdate()).toEqual({
+        reviewStatus: 'PENDING_REVIEW',
+        reviewedAt: null,
+      });
+    });
+
+    it('should do nothing when the status does not change', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(
+        analysis({ reviewStatus: 'PUBLISHED' }),
+      );
+
+      await review.updateReviewStatus('analysis-1', {
+        status: 'PUBLISHED',
+        reviewerId: 'teacher-1',
+      });
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail for unknown reviewers', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        review.updateReviewStatus('analysis-1', {
+          status: 'REVIEWED',
+          reviewerId: 'teacher-2',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('overrideCriterionResult', () => {
+    const withResult = (reviewStatus: string) =>
+      criterionResult({
+        rubricItem: {
+          id: 'item-1',
+          title: 'Pruebas',
+          maxScore: new Prisma.Decimal(4),
+          levels: [],
+        },
+        analysisResult: {
+          analysisId: 'analysis-1',
+          groupId: 'group-1',
+          group: { code: 'G1' },
+          analysis: analysis({ reviewStatus }),
+        },
+      });
+
+    beforeEach(() => {
+      prisma.analysisCriterionResult.update.mockImplementation(
+        ({ data }: { data: Record<string, unknown> }) =>
+          Promise.resolve({
+            ...criterionResult(),
+            ...data,
+            overriddenAt: new Date(),
+          }),
+      );
+    });
+
+    it('should take the score of the chosen level', async () => {
+      prisma.analysisCriterionResult.findUnique.mockResolvedValue(
+        withResult('PENDING_REVIEW'),
+      );
+
+      const result = await review.overrideCriterionResult('criterion-1', {
+        level: 'bueno',
+        justification: 'Las pruebas cubren los casos principales',
+        reviewerId: 'teacher-1',
+      });
+
+      expect(result.effective).toMatchObject({
+        score: 3,
+        level: 'BUENO',
+        feedback: 'Faltan pruebas',
+        reviewed: true,
+      });
+    });
+
+    it('should reject levels not defined for the item', async () => {
+      prisma.analysisCriterionResult.findUnique.mockResolvedValue(
+        withResult('PENDING_REVIEW'),
+      );
+
+      await expect(
+        review.overrideCriterionResult('criterion-1', {
+          level: 'EXCELENTE',
+          justification: 'Muy bien',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not edit published analyses', async () => {
+      prisma.analysisCriterionResult.findUnique.mockResolvedValue(
+        withResult('PUBLISHED'),
+      );
+
+      await expect(
+        review.overrideCriterionResult('criterion-1', {
+          score: 4,
+          justification: 'Muy bien',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.analysisCriterionResult.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('overrideGroupResult', () => {
+    const result = {
+      id: 'result-1',
+      analysisId: 'analysis-1',
+      groupId: 'group-1',
+      score: new Prisma.Decimal(12),
+      maxScore: new Prisma.Decimal(20),
+      status: 'PARTIAL',
+      feedback: 'Buen trabajo',
+      overrideScore: null,
+      overrideStatus: null,
+      overrideFeedback: null,
+      overriddenAt: null,
+      analysis: analysis(),
+      group: { code: 'G1' },
+    };
+
+    it('should reject scores above the maximum', async () => {
+      prisma.analysisResult.findUnique.mockResolvedValue(result);
+
+      await expect(
+        review.overrideGroupResult('result-1', {
+          score: 21,
+          justification: 'Trabajo excepcional',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should recompute the total from the adjusted criteria', async () => {
+      prisma.analysisResult.findUnique.mockResolvedValue(result);
+      prisma.analysisResult.update.mockResolvedValue({
+        ...result,
+        overrideFeedback: 'Mejoró la documentación',
+        overriddenAt: new Date(),
+        criteria: [
+          criterionResult({ score: new Prisma.Decimal(8) }),
+          criterionResult({ overrideScore: new Prisma.Decimal(6) }),
+        ],
+      });
+
+      const updated = await review.overrideGroupResult('result-1', {
+        feedback: 'Mejoró la documentación',
+        justification: 'Revisión del docente',
+        reviewerId: 'teacher-1',
+      });
+
+      expect(Number(updated.effective.score)).toBe(14);
+      expect(updated.effective.feedback).toBe('Mejoró la documentación');
+    });
+
+    it('should require at least one change', async () => {
+      await expect(
+        review.overrideGroupResult('result-1', {
+          justification: 'Sin cambios',
+          reviewerId: 'teacher-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.analysisResult.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
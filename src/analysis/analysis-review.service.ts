@@ -0,0 +1,458 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AnalysisCriterionResult,
+  AnalysisResult,
+  Prisma,
+  review_status,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  PerformanceLevel,
+  findLevel,
+  resolveItemLevels,
+} from './rubric-levels';
+import { CriterionEvidence } from './evidence-verification';
+import {
+  OverrideCriterionResultDto,
+  OverrideGroupResultDto,
+  UpdateReviewStatusDto,
+} from '../evaluation/dto/evaluation.dto';
+
+type ReviewValue = string | number | Prisma.Decimal | null | undefined;
+
+// Transiciones permitidas del estado de revisión
+const REVIEW_TRANSITIONS: Record<review_status, review_status[]> = {
+  PENDING_REVIEW: ['REVIEWED'],
+  REVIEWED: ['PENDING_REVIEW', 'PUBLISHED'],
+  PUBLISHED: ['REVIEWED'],
+};
+
+/**
+ * Revisión docente de los resultados generados por la IA.
+ * Los ajustes se guardan junto al valor original y quedan registrados en
+ * ActivityLog; los estudiantes solo ven los valores efectivos de análisis
+ * publicados.
+ */
+@Injectable()
+export class AnalysisReviewService {
+  private readonly logger = new Logger(AnalysisReviewService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ============================================
+  // AJUSTES DEL DOCENTE
+  // ============================================
+
+  /**
+   * Ajustar puntaje, estado y/o retroalimentación general de un grupo
+   */
+  async overrideGroupResult(resultId: string, dto: OverrideGroupResultDto) {
+    this.assertHasChanges(dto);
+    await this.assertReviewerExists(dto.reviewerId);
+
+    const result = await this.prisma.analysisResult.findUnique({
+      where: { id: resultId },
+      include: { analysis: true, group: true },
+    });
+
+    if (!result) {
+      throw new NotFoundException(`Resultado ${resultId} no encontrado`);
+    }
+
+    this.assertEditable(result.analysis.reviewStatus);
+
+    if (
+      dto.score !== undefined &&
+      result.maxScore !== null &&
+      dto.score > Number(result.maxScore)
+    ) {
+      throw new BadRequestException(
+        `El puntaje no puede superar el máximo (${Number(result.maxScore)})`,
+      );
+    }
+
+    const changes = [
+      this.describeChange(
+        'puntaje',
+        result.score,
+        result.overrideScore,
+        dto.score,
+      ),
+      this.describeChange(
+        'estado',
+        result.status,
+        result.overrideStatus,
+        dto.status,
+      ),
+      dto.feedback !== undefined ? 'retroalimentación' : null,
+    ].filter(Boolean);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const saved = await tx.analysisResult.update({
+        where: { id: resultId },
+        data: {
+          overrideScore: dto.score,
+          overrideStatus: dto.status,
+          overrideFeedback: dto.feedback,
+          overrideJustification: dto.justification,
+          overriddenBy: dto.reviewerId,
+          overriddenAt: new Date(),
+        },
+        include: { criteria: true },
+      });
+
+      await tx.activityLog.create({
+        data: {
+          actorId: dto.reviewerId,
+          evaluationId: result.analysis.evaluationId,
+          groupId: result.groupId,
+          type: 'UPDATE',
+          message:
+            `Ajuste del resultado del grupo ${result.group.code} ` +
+            `(análisis ${result.analysisId}): ${changes.join(', ')}. ` +
+            `Justificación: ${dto.justification}`,
+        },
+      });
+
+      return saved;
+    });
+
+    this.logger.log(
+      `Resultado ${resultId} ajustado por el docente ${dto.reviewerId}`,
+    );
+
+    return {
+      ...updated,
+      effective: this.toEffectiveResult(updated, updated.criteria),
+    };
+  }
+
+  /**
+   * Ajustar puntaje, nivel y/o retroalimentación de un criterio
+   */
+  async overrideCriterionResult(
+    criterionResultId: string,
+    dto: OverrideCriterionResultDto,
+  ) {
+    this.assertHasChanges(dto);
+    await this.assertReviewerExists(dto.reviewerId);
+
+    const criterion = await this.prisma.analysisCriterionResult.findUnique({
+      where: { id: criterionResultId },
+      include: {
+        rubricItem: { include: { levels: true } },
+        analysisResult: { include: { analysis: true, group: true } },
+      },
+    });
+
+    if (!criterion) {
+      throw new NotFoundException(
+        `Resultado de criterio ${criterionResultId} no encontrado`,
+      );
+    }
+
+    const { analysisResult } = criterion;
+    this.assertEditable(analysisResult.analysis.reviewStatus);
+
+    // El nivel debe ser uno de los del ítem; sin puntaje explícito se usa el del nivel
+    let level: PerformanceLevel | undefined;
+    if (dto.level !== undefined) {
+      const levels = resolveItemLevels(criterion.rubricItem);
+      level = findLevel(levels, dto.level);
+
+      if (!level) {
+        throw new BadRequestException(
+          `Nivel "${dto.level}" no definido para el criterio. Usa: ${levels.map((l) => l.name).join(', ')}`,
+        );
+      }
+    }
+    const score = dto.score ?? level?.points;
+
+    if (
+      dto.score !== undefined &&
+      criterion.maxScore !== null &&
+      dto.score > Number(criterion.maxScore)
+    ) {
+      throw new BadRequestException(
+        `El puntaje no puede superar el máximo del criterio (${Number(criterion.maxScore)})`,
+      );
+    }
+
+    const changes = [
+      this.describeChange(
+        'puntaje',
+        criterion.score,
+        criterion.overrideScore,
+        score,
+      ),
+      this.describeChange(
+        'nivel',
+        criterion.level,
+        criterion.overrideLevel,
+        level?.name,
+      ),
+      dto.feedback !== undefined ? 'retroalimentación' : null,
+    ].filter(Boolean);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const saved = await tx.analysisCriterionResult.update({
+        where: { id: criterionResultId },
+        data: {
+          overrideScore: score,
+          overrideLevel: level?.name,
+          overrideFeedback: dto.feedback,
+          overrideJustification: dto.justification,
+          overriddenBy: dto.reviewerId,
+          overriddenAt: new Date(),
+        },
+      });
+
+      await tx.activityLog.create({
+        data: {
+          actorId: dto.reviewerId,
+          evaluationId: analysisResult.analysis.evaluationId,
+          groupId: analysisResult.groupId,
+          type: 'UPDATE',
+          message:
+            `Ajuste del criterio "${criterion.rubricItem.title}" del grupo ` +
+            `${analysisResult.group.code} (análisis ${analysisResult.analysisId}): ` +
+            `${changes.join(', ')}. Justificación: ${dto.justification}`,
+        },
+      });
+
+      return saved;
+    });
+
+    this.logger.log(
+      `Criterio ${criterionResultId} ajustado por el docente ${dto.reviewerId}`,
+    );
+
+    return { ...updated, effective: this.toEffectiveCriterion(updated) };
+  }
+
+  // ============================================
+  // ESTADO DE REVISIÓN
+  // ============================================
+
+  /**
+   * Cambiar el estado de revisión de un análisis
+   * (PENDING_REVIEW → REVIEWED → PUBLISHED, con vuelta atrás de un paso)
+   */
+  async updateReviewStatus(analysisId: string, dto: UpdateReviewStatusDto) {
+    await this.assertReviewerExists(dto.reviewerId);
+
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id: analysisId },
+    });
+
+    if (!analysis) {
+      throw new NotFoundException(`Análisis ${analysisId} no encontrado`);
+    }
+
+    if (analysis.reviewStatus === dto.status) {
+      return analysis;
+    }
+
+    if (!REVIEW_TRANSITIONS[analysis.reviewStatus].includes(dto.status)) {
+      throw new BadRequestException(
+        `No se puede pasar de ${analysis.reviewStatus} a ${dto.status}`,
+      );
+    }
+
+    if (dto.status !== 'PENDING_REVIEW' && !analysis.endedAt) {
+      throw new BadRequestException(
+        'El análisis aún está en curso; espera a que finalice para revisarlo',
+      );
+    }
+
+    const now = new Date();
+    const data: Prisma.AnalysisUpdateInput = { reviewStatus: dto.status };
+
+    if (dto.status === 'REVIEWED') {
+      data.reviewedAt = now;
+      data.publishedAt = null;
+    } else if (dto.status === 'PUBLISHED') {
+      data.publishedAt = now;
+    } else {
+      data.reviewedAt = null;
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.analysis.update({ where: { id: analysisId }, data }),
+      this.prisma.activityLog.create({
+        data: {
+          actorId: dto.reviewerId,
+          evaluationId: analysis.evaluationId,
+          type: 'UPDATE',
+          message: `Estado de revisión del análisis ${analysisId}: ${analysis.reviewStatus} → ${dto.status}`,
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Análisis ${analysisId}: ${analysis.reviewStatus} → ${dto.status}`,
+    );
+
+    return updated;
+  }
+
+  // ============================================
+  // VISTA DEL ESTUDIANTE
+  // ============================================
+
+  /**
+   * Resultado publicado más reciente de un grupo, solo con valores efectivos
+   * (el ajuste del docente si existe, si no el valor de la IA)
+   */
+  async getPublishedGroupResult(groupId: string) {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Grupo ${groupId} no encontrado`);
+    }
+
+    const result = await this.prisma.analysisResult.findFirst({
+      where: { groupId, analysis: { reviewStatus: 'PUBLISHED' } },
+      include: {
+        analysis: true,
+        submission: { select: { id: true, version: true, fileName: true } },
+        criteria: {
+          include: { rubricItem: true },
+          orderBy: { rubricItem: { itemOrder: 'asc' } },
+        },
+      },
+      orderBy: { analysis: { publishedAt: 'desc' } },
+    });
+
+    if (!result) {
+      throw new NotFoundException(
+        `El grupo ${group.code} aún no tiene resultados publicados`,
+      );
+    }
+
+    const recommendations = await this.prisma.recommendation.findMany({
+      where: { analysisId: result.analysisId, groupId },
+      select: { priority: true, summary: true, details: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return {
+      group: { id: group.id, code: group.code, name: group.name },
+      analysisId: result.analysisId,
+      publishedAt: result.analysis.publishedAt,
+      submission: result.submission,
+      ...this.toEffectiveResult(result, result.criteria),
+      criteria: result.criteria.map((criterion) => ({
+        itemOrder: criterion.rubricItem.itemOrder,
+        title: criterion.rubricItem.title,
+        ...this.toEffectiveCriterion(criterion),
+        // Solo las citas verificadas contra el documento
+        evidence: ((criterion.evidence as CriterionEvidence[] | null) ?? [])
+          .filter((evidence) => evidence.check === 'VERIFIED')
+          .map(({ page, quote }) => ({ page, quote })),
+      })),
+      recommendations,
+    };
+  }
+
+  // ============================================
+  // MÉTODOS AUXILIARES
+  // ============================================
+
+  /**
+   * Valores efectivos de un grupo. Si el docente no fijó el puntaje total
+   * pero ajustó algún criterio, el total se recalcula desde los criterios.
+   */
+  private toEffectiveResult(
+    result: AnalysisResult,
+    criteria: AnalysisCriterionResult[],
+  ) {
+    let score = result.overrideScore ?? result.score;
+
+    if (
+      result.overrideScore === null &&
+      criteria.some((criterion) => criterion.overrideScore !== null)
+    ) {
+      score = criteria.reduce(
+        (sum, criterion) =>
+          sum.add(criterion.overrideScore ?? criterion.score ?? 0),
+        new Prisma.Decimal(0),
+      );
+    }
+
+    return {
+      score,
+      maxScore: result.maxScore,
+      status: result.overrideStatus ?? result.status,
+      feedback: result.overrideFeedback ?? result.feedback,
+      reviewed: result.overriddenAt !== null,
+    };
+  }
+
+  private toEffectiveCriterion(criterion: AnalysisCriterionResult) {
+    return {
+      score: criterion.overrideScore ?? criterion.score,
+      maxScore: criterion.maxScore,
+      level: criterion.overrideLevel ?? criterion.level,
+      feedback: criterion.overrideFeedback ?? criterion.feedback,
+      reviewed: criterion.overriddenAt !== null,
+    };
+  }
+
+  private describeChange(
+    label: string,
+    original: ReviewValue,
+    previousOverride: ReviewValue,
+    next: ReviewValue,
+  ): string | null {
+    if (next === undefined) {
+      return null;
+    }
+
+    const current = previousOverride ?? original;
+    return `${label} ${String(current)} → ${String(next)} (IA: ${String(original)})`;
+  }
+
+  private assertHasChanges(dto: {
+    score?: number;
+    feedback?: string;
+    status?: string;
+    level?: string;
+  }) {
+    if (
+      dto.score === undefined &&
+      dto.feedback === undefined &&
+      dto.status === undefined &&
+      dto.level === undefined
+    ) {
+      throw new BadRequestException(
+        'Debes indicar al menos un valor a ajustar (puntaje, estado/nivel o retroalimentación)',
+      );
+    }
+  }
+
+  private assertEditable(reviewStatus: review_status) {
+    if (reviewStatus === 'PUBLISHED') {
+      throw new BadRequestException(
+        'El análisis ya está publicado; vuelve a estado REVIEWED para ajustarlo',
+      );
+    }
+  }
+
+  private async assertReviewerExists(reviewerId: string) {
+    const reviewer = await this.prisma.user.findUnique({
+      where: { id: reviewerId },
+    });
+
+    if (!reviewer) {
+      throw new NotFoundException(`Docente ${reviewerId} no encontrado`);
+    }
+  }
+}
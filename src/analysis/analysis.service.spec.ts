@@ -0,0 +1,235 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { DocumentExtractionService } from '../document/document-extraction.service';
+import { SubmissionStatusService } from '../evaluation/submission-status.service';
+import { LlmProviderRegistry } from '../llm/llm-provider.registry';
+import { LlmResilienceService } from '../llm/llm-resilience.service';
+import { TokenCounterService } from '../llm/token-counter.service';
+import { PdfService } from '../pdf/pdf.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalysisEventsService } from './analysis-events.service';
+import { AnalysisService } from './analysis.service';
+import { RubricAnalysisResponse } from './rubric-analysis.schema';
+import { RubricItemWithLevels } from './rubric-levels';
+import { SimulatedGradingEngine } from './simulated-grading.engine';
+
+const rubricItem = (
+  itemOrder: number,
+  title: string,
+): RubricItemWithLevels => ({
+  id: `item-${itemOrder}`,
+  rubricId: 'rubric-1',
+  itemOrder,
+  title,
+  conditions: null,
+  maxScore: new Prisma.Decimal(4),
+  levels: [],
+});
+
+const criterion = (
+  itemOrder: number,
+  criterionName: string,
+  score: number,
+  level: string,
+): RubricAnalysisResponse['criteria'][number] => ({
+  itemOrder,
+  criterionName,
+  score,
+  maxScore: 4,
+  level,
+  feedback: `Feedback de ${criterionName}`,
+  evidence: [{ page: 1, quote: 'El informe describe la arquitectura.' }],
+});
+
+describe('AnalysisService', () => {
+  let service: AnalysisService;
+
+  const tx = {
+    analysisResult: { deleteMany: jest.fn(), create: jest.fn() },
+    recommendation: { deleteMany: jest.fn(), createMany: jest.fn() },
+  };
+
+  const prisma = {
+    analysis: { findUnique: jest.fn() },
+    analysisJob: { findUnique: jest.fn() },
+    group: { findUnique: jest.fn() },
+    $transaction: jest.fn((run: (client: typeof tx) => Promise<unknown>) =>
+      run(tx),
+    ),
+  };
+  const documentExtraction = { extractFromUrl: jest.fn() };
+  const simulatedGradingEngine = { grade: jest.fn() };
+  const submissionStatus = {
+    recordExtraction: jest.fn(),
+    markAnalyzed: jest.fn(),
+  };
+
+  const rubricItems = [rubricItem(1, 'Arquitectura'), rubricItem(2, 'Pruebas')];
+
+  const analysis = (rubrics: unknown[]) => ({
+    id: 'analysis-1',
+    engine: 'SIMULATED',
+    evaluation: {
+      id: 'evaluation-1',
+      ownerId: 'user-1',
+      title: 'Proyecto final',
+      rubrics,
+    },
+  });
+
+  const graded: RubricAnalysisResponse = {
+    groupName: 'Grupo 1',
+    groupCode: 'G1',
+    totalScore: 7,
+    maxScore: 8,
+    percentage: 87.5,
+    status: 'PASS',
+    criteria: [
+      criterion(1, 'Arquitectura', 4, 'SATISFACTORIO'),
+      // Orden equivocado: se asocia por título
+      criterion(7, 'pruebas ', 3, 'BUENO'),
+      criterion(3, 'Criterio inventado', 4, 'SATISFACTORIO'),
+    ],
+    generalFeedback: 'Buen trabajo',
+    strengths: ['Arquitectura clara'],
+    improvements: ['Más pruebas'],
+    recommendations: [
+      { priority: 1, summary: 'Agregar pruebas', details: 'De integración' },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.analysis.findUnique.mockResolvedValue(
+      analysis([{ id: 'rubric-1', title: 'Rúbrica', rubricItems }]),
+    );
+    prisma.analysisJob.findUnique.mockResolvedValue({
+      submissionId: 'submission-1',
+    });
+    prisma.group.findUnique.mockResolvedValue({
+      id: 'group-1',
+      code: 'G1',
+      name: 'Grupo 1',
+      submissions: [
+        {
+          id: 'submission-1',
+          groupId: 'group-1',
+          fileUrl: 's3://bucket/g1.pdf',
+          fileName: 'g1.pdf',
+          checksum: 'abc',
+        },
+      ],
+    });
+    documentExtraction.extractFromUrl.mockResolvedValue({
+      text: 'El informe describe la arquitectura.',
+      pages: ['El informe describe la arquitectura.'],
+      checksum: 'abc',
+      cached: true,
+    });
+    simulatedGradingEngine.grade.mockReturnValue(graded);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: PdfService,
+          useValue: { cleanText: (text: string) => text },
+        },
+        { provide: LlmProviderRegistry, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SimulatedGradingEngine, useValue: simulatedGradingEngine },
+        { provide: AnalysisEventsService, useValue: { emit: jest.fn() } },
+        { provide: SubmissionStatusService, useValue: submissionStatus },
+        { provide: DocumentExtractionService, useValue: documentExtraction },
+        { provide: TokenCounterService, useValue: {} },
+        { provide: LlmResilienceService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AnalysisService>(AnalysisService);
+  });
+
+  describe('analyzeGroup', () => {
+    it('should reject evaluations without a rubric before grading', async () => {
+      prisma.analysis.findUnique.mockResolvedValue(analysis([]));
+
+      await expect(
+        service.analyzeGroup('analysis-1', 'group-1'),
+      ).rejects.toThrow(
+        new BadRequestException('La evaluación no tiene rúbrica'),
+      );
+      expect(prisma.group.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should grade the submission pinned in the job', async () => {
+      await service.analyzeGroup('analysis-1', 'group-1');
+
+      expect(prisma.group.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: {
+            submissions: expect.objectContaining({
+              where: { id: 'submission-1' },
+            }) as object,
+          },
+        }),
+      );
+    });
+  });
+
+  describe('saveAnalysisResults', () => {
+    it('should replace the previous result of the group', async () => {
+      await service.analyzeGroup('analysis-1', 'group-1');
+
+      const where = { analysisId: 'analysis-1', groupId: 'group-1' };
+      expect(tx.analysisResult.deleteMany).toHaveBeenCalledWith({ where });
+      expect(tx.recommendation.deleteMany).toHaveBeenCalledWith({ where });
+      expect(tx.recommendation.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            ...where,
+            priority: 1,
+            summary: 'Agregar pruebas',
+            details: 'De integración',
+          },
+        ],
+      });
+      expect(submissionStatus.markAnalyzed).toHaveBeenCalledWith(
+        'submission-1',
+        'analysis-1',
+        tx,
+      );
+    });
+
+    it('should store one row per criterion matched to its rubric item', async () => {
+      await service.analyzeGroup('analysis-1', 'group-1');
+
+      const [{ data }] = tx.analysisResult.create.mock.calls[0] as [
+        { data: Prisma.AnalysisResultUncheckedCreateInput },
+      ];
+      expect(data).toMatchObject({
+        analysisId: 'analysis-1',
+        groupId: 'group-1',
+        rubricId: 'rubric-1',
+        submissionId: 'submission-1',
+        score: 7,
+        maxScore: 8,
+        engine: 'SIMULATED',
+      });
+      expect(data.criteria?.create).toEqual([
+        expect.objectContaining({
+          rubricItemId: 'item-1',
+          score: 4,
+          level: 'SATISFACTORIO',
+        }),
+        expect.objectContaining({
+          rubricItemId: 'item-2',
+          score: 3,
+          level: 'BUENO',
+        }),
+      ]);
+    });
+  });
+});
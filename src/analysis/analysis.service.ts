@@ -1,42 +1,58 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Rubric } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { S3PdfService } from '../s3-pdf/s3-pdf.service';
 import { PdfService } from '../pdf/pdf.service';
-import { OpenaiService } from '../openai/openai.service';
-import OpenAI from 'openai';
-import { zodResponseFormat } from 'openai/helpers/zod';
-import { z } from 'zod';
-
-// Schema Zod para la respuesta estructurada de OpenAI
-const RubricAnalysisSchema = z.object({
-  groupName: z.string().describe('Nombre del grupo evaluado'),
-  groupCode: z.string().describe('Código del grupo evaluado'),
-  totalScore: z.number().describe('Puntaje total obtenido'),
-  maxScore: z.number().describe('Puntaje máximo posible'),
-  percentage: z.number().describe('Porcentaje de logro (0-100)'),
-  status: z.enum(['PASS', 'FAIL', 'PARTIAL']).describe('Estado de la evaluación'),
-  criteria: z.array(
-    z.object({
-      criterionName: z.string().describe('Nombre del criterio evaluado'),
-      score: z.number().describe('Puntaje obtenido en este criterio'),
-      maxScore: z.number().describe('Puntaje máximo de este criterio'),
-      level: z.enum(['SATISFACTORIO', 'BUENO', 'REGULAR', 'INSATISFACTORIO']).describe('Nivel de logro'),
-      feedback: z.string().describe('Retroalimentación específica del criterio'),
-    })
-  ).describe('Evaluación detallada por criterio'),
-  generalFeedback: z.string().describe('Retroalimentación general del trabajo'),
-  strengths: z.array(z.string()).describe('Fortalezas identificadas'),
-  improvements: z.array(z.string()).describe('Áreas de mejora'),
-  recommendations: z.array(
-    z.object({
-      priority: z.number().min(1).max(3).describe('Prioridad: 1=Alta, 2=Media, 3=Baja'),
-      summary: z.string().describe('Resumen corto de la recomendación'),
-      details: z.string().describe('Detalles de la recomendación'),
-    })
-  ).describe('Recomendaciones específicas para mejorar'),
-});
-
-type RubricAnalysisResponse = z.infer<typeof RubricAnalysisSchema>;
+import { LlmProviderRegistry, ResolvedLlm } from '../llm/llm-provider.registry';
+import { TokenCounterService } from '../llm/token-counter.service';
+import {
+  LlmCallResult,
+  LlmResilienceService,
+} from '../llm/llm-resilience.service';
+import type { LlmUsageContext } from '../llm/llm-provider.interface';
+import {
+  ChunkEvidenceResponse,
+  ChunkEvidenceSchema,
+  RubricAnalysisResponse,
+  buildRubricAnalysisSchema,
+} from './rubric-analysis.schema';
+import {
+  DEFAULT_LEVELS,
+  RubricItemWithLevels,
+  findLevel,
+  resolveItemLevels,
+} from './rubric-levels';
+import { AnalysisEventsService } from './analysis-events.service';
+import { countUnverified, verifyEvidence } from './evidence-verification';
+import {
+  DocumentExtractionService,
+  ExtractedFile,
+} from '../document/document-extraction.service';
+import {
+  SubmissionStageError,
+  SubmissionStatusService,
+} from '../evaluation/submission-status.service';
+import {
+  SIMULATED_ENGINE,
+  SimulatedGradingEngine,
+} from './simulated-grading.engine';
+
+// Tokens de cada llamada reservados para las instrucciones, el schema y la respuesta
+const PROMPT_RESERVED_TOKENS = 4000;
+
+// Espacio mínimo para el documento dentro del presupuesto de una llamada
+const MIN_DOCUMENT_TOKENS = 1000;
+
+export interface AnalyzeEvaluationOptions {
+  engine?: string;
+  model?: string;
+  groupIds?: string[];
+}
 
 @Injectable()
 export class AnalysisService {
@@ -44,139 +60,605 @@ export class AnalysisService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly s3PdfService: S3PdfService,
     private readonly pdfService: PdfService,
-    private readonly openaiService: OpenaiService,
+    private readonly llmProviders: LlmProviderRegistry,
+    private readonly configService: ConfigService,
+    private readonly simulatedGradingEngine: SimulatedGradingEngine,
+    private readonly analysisEvents: AnalysisEventsService,
+    private readonly submissionStatus: SubmissionStatusService,
+    private readonly documentExtraction: DocumentExtractionService,
+    private readonly tokenCounter: TokenCounterService,
+    private readonly llmResilience: LlmResilienceService,
   ) {}
 
   /**
-   * Analizar una evaluación completa usando OpenAI
+   * Encolar el análisis de una evaluación completa (o solo de los grupos indicados).
+   * Crea el registro de análisis y un job por grupo; el AnalysisWorker los procesa en segundo plano.
    */
-  async analyzeEvaluation(evaluationId: string) {
-    this.logger.log(`Iniciando análisis para evaluación: ${evaluationId}`);
+  async analyzeEvaluation(
+    evaluationId: string,
+    options: AnalyzeEvaluationOptions = {},
+  ) {
+    this.logger.log(`Encolando análisis para evaluación: ${evaluationId}`);
 
-    try {
-      // 1. Obtener la evaluación completa
-      const evaluation = await this.prisma.evaluation.findUnique({
-        where: { id: evaluationId },
-        include: {
-          rubrics: {
-            include: {
-              rubricItems: {
-                orderBy: { itemOrder: 'asc' },
-              },
+    const evaluation = await this.prisma.evaluation.findUnique({
+      where: { id: evaluationId },
+      include: {
+        groups: {
+          include: {
+            submissions: {
+              // Solo la más reciente con archivo (descarta subidas fallidas)
+              where: { fileUrl: { not: null } },
+              orderBy: { version: 'desc' },
+              take: 1,
             },
           },
-          groups: {
-            include: {
-              submissions: {
-                orderBy: { uploadedAt: 'desc' },
-                take: 1, // Solo la más reciente
+        },
+      },
+    });
+
+    if (!evaluation) {
+      throw new NotFoundException('Evaluación no encontrada');
+    }
+
+    const selectedGroups = this.selectGroups(
+      evaluation.groups,
+      options.groupIds,
+    );
+    const groupsToAnalyze = selectedGroups.filter(
+      (group) => group.submissions.length > 0,
+    );
+    const skippedGroups = selectedGroups
+      .filter((group) => group.submissions.length === 0)
+      .map((group) => group.code);
+
+    if (options.groupIds?.length && groupsToAnalyze.length === 0) {
+      throw new BadRequestException(
+        'Ninguno de los grupos indicados tiene submissions para analizar',
+      );
+    }
+
+    for (const code of skippedGroups) {
+      this.logger.warn(`Grupo ${code} no tiene submissions`);
+    }
+
+    const maxAttempts = this.configService.get<number>(
+      'ANALYSIS_JOB_MAX_ATTEMPTS',
+      3,
+    );
+
+    const { engine, notes } = this.resolveEngine(evaluation, options);
+    const scope = options.groupIds?.length
+      ? ` — reanálisis de ${groupsToAnalyze.length} grupo(s)`
+      : '';
+
+    const analysis = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.analysis.create({
+        data: {
+          evaluationId,
+          engine,
+          notes: notes + scope,
+        },
+      });
+
+      await tx.analysisJob.createMany({
+        data: groupsToAnalyze.map((group) => ({
+          analysisId: created.id,
+          groupId: group.id,
+          // Se fija la versión vigente al encolar: una entrega posterior no cambia lo que se califica
+          submissionId: group.submissions[0].id,
+          maxAttempts: Number(maxAttempts),
+        })),
+      });
+
+      return created;
+    });
+
+    await this.analysisEvents.emitQueued(analysis.id, groupsToAnalyze);
+
+    // Sin grupos que analizar: el análisis termina inmediatamente
+    if (groupsToAnalyze.length === 0) {
+      await this.finalizeAnalysisIfDone(analysis.id);
+    }
+
+    return {
+      success: true,
+      analysisId: analysis.id,
+      message: 'Análisis encolado exitosamente',
+      queuedGroups: groupsToAnalyze.length,
+      skippedGroups,
+    };
+  }
+
+  /**
+   * Encolar el análisis de un único grupo
+   */
+  async analyzeSingleGroup(
+    groupId: string,
+    options: AnalyzeEvaluationOptions = {},
+  ) {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Grupo con ID ${groupId} no encontrado`);
+    }
+
+    return this.analyzeEvaluation(group.evaluationId, {
+      ...options,
+      groupIds: [groupId],
+    });
+  }
+
+  /**
+   * Filtrar los grupos a analizar; sin groupIds se analizan todos
+   */
+  private selectGroups<T extends { id: string }>(
+    groups: T[],
+    groupIds?: string[],
+  ): T[] {
+    if (!groupIds?.length) {
+      return groups;
+    }
+
+    const unknownIds = groupIds.filter(
+      (id) => !groups.some((group) => group.id === id),
+    );
+
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(
+        `Grupos no pertenecen a la evaluación: ${unknownIds.join(', ')}`,
+      );
+    }
+
+    return groups.filter((group) => groupIds.includes(group.id));
+  }
+
+  /**
+   * Determinar el motor del análisis: el solicitado, ANALYSIS_DEFAULT_ENGINE
+   * o el proveedor y modelo configurados en la evaluación
+   */
+  private resolveEngine(
+    evaluation: { llmProvider: string | null; llmModel: string | null },
+    options: AnalyzeEvaluationOptions,
+  ) {
+    const requested =
+      options.engine ||
+      this.configService.get<string>('ANALYSIS_DEFAULT_ENGINE');
+
+    if (requested?.toUpperCase() === SIMULATED_ENGINE) {
+      return {
+        engine: SIMULATED_ENGINE,
+        notes:
+          'Análisis simulado offline (cobertura de palabras clave y largo del documento)',
+      };
+    }
+
+    const llm = requested
+      ? this.llmProviders.resolve(requested, options.model)
+      : this.llmProviders.resolve(
+          evaluation.llmProvider,
+          options.model || evaluation.llmModel,
+        );
+
+    return {
+      engine: this.llmProviders.toEngine(llm),
+      notes: `Análisis con ${llm.provider.name} (${llm.model}) y respuestas estructuradas`,
+    };
+  }
+
+  /**
+   * Analizar un grupo dentro de un análisis (invocado por el AnalysisWorker)
+   */
+  async analyzeGroup(analysisId: string, groupId: string) {
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id: analysisId },
+      include: {
+        evaluation: {
+          include: {
+            rubrics: {
+              include: {
+                rubricItems: {
+                  include: { levels: true },
+                  orderBy: { itemOrder: 'asc' },
+                },
               },
             },
           },
         },
+      },
+    });
+
+    if (!analysis) {
+      throw new NotFoundException(`Análisis ${analysisId} no encontrado`);
+    }
+
+    // Sin rúbrica no hay contra qué calificar: el worker no lo reintenta
+    const [rubric] = analysis.evaluation.rubrics;
+    if (!rubric) {
+      throw new BadRequestException('La evaluación no tiene rúbrica');
+    }
+
+    const job = await this.prisma.analysisJob.findUnique({
+      where: { uk_analysis_job_group: { analysisId, groupId } },
+    });
+
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+      include: {
+        submissions: {
+          // La versión fijada en el job o, si no tiene, la más reciente
+          where: job?.submissionId
+            ? { id: job.submissionId }
+            : { fileUrl: { not: null } },
+          orderBy: { version: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!group || group.submissions.length === 0) {
+      throw new NotFoundException(`Grupo ${groupId} no tiene submissions`);
+    }
+
+    const { evaluation } = analysis;
+    const submission = group.submissions[0];
+
+    // El consumo de IA del grupo (OCR y calificación) se atribuye al análisis y al docente
+    const usage: LlmUsageContext = {
+      analysisId,
+      groupId,
+      evaluationId: evaluation.id,
+      userId: evaluation.ownerId,
+    };
+
+    // Extraer texto del PDF
+    await this.analysisEvents.emit(analysisId, 'EXTRACTING_PDF', {
+      groupId,
+      message: `Extrayendo texto de ${submission.fileName ?? 'la submission'}`,
+    });
+    const { text: cleanText, pages } = await this.extractSubmissionText(
+      analysisId,
+      submission,
+      usage,
+    );
+
+    await this.analysisEvents.emit(analysisId, 'CALLING_MODEL', {
+      groupId,
+      message: `Calificando con ${analysis.engine}`,
+    });
+
+    let result: RubricAnalysisResponse;
+    let chunkCount = 1;
+    let gradedWith = analysis.engine;
+
+    if (analysis.engine === SIMULATED_ENGINE) {
+      // Motor offline: no requiere proveedor de IA
+      result = this.simulatedGradingEngine.grade({
+        groupCode: group.code!,
+        groupName: group.name || group.code!,
+        documentText: cleanText,
+        pages,
+        rubricItems: rubric.rubricItems,
       });
+    } else {
+      // Preparar el contexto de las rúbricas
+      const rubricContext = await this.prepareRubricContext(
+        evaluation.rubrics,
+        usage,
+      );
 
-      if (!evaluation) {
-        throw new Error('Evaluación no encontrada');
-      }
+      const llm = this.llmProviders.fromEngine(analysis.engine ?? '');
+
+      // Los documentos que no caben en el contexto se resumen por partes
+      const document = await this.prepareDocumentForGrading(
+        analysisId,
+        groupId,
+        llm,
+        pages,
+        rubricContext,
+        evaluation.title!,
+        evaluation.tokenBudget ??
+          Number(
+            this.configService.get('ANALYSIS_REQUEST_TOKEN_BUDGET', 100000),
+          ),
+        usage,
+      );
+      chunkCount = document.chunkCount;
+
+      // Analizar con el proveedor registrado en el análisis (o el de fallback)
+      const graded = await this.analyzeGroupWithLlm(
+        llm,
+        group.code!,
+        group.name || group.code!,
+        document.text,
+        rubricContext,
+        evaluation.title!,
+        rubric.rubricItems,
+        usage,
+        chunkCount,
+      );
+      result = graded.result;
+      gradedWith = this.llmProviders.toEngine(graded.llm);
+
+      // El puntaje de cada criterio es el del nivel elegido
+      result = this.applyRubricLevels(result, rubric.rubricItems);
+    }
+
+    // Contrastar las citas con el texto de cada página
+    result = this.verifyCitations(result, pages);
+    const unverifiedEvidence = countUnverified(result.criteria);
+    if (unverifiedEvidence > 0) {
+      this.logger.warn(
+        `Grupo ${group.code}: ${unverifiedEvidence} cita(s) no encontradas en la página indicada`,
+      );
+    }
+
+    // Guardar resultados
+    await this.saveAnalysisResults(
+      analysisId,
+      group.id,
+      submission.id,
+      result,
+      rubric,
+      chunkCount,
+      gradedWith,
+    );
+
+    await this.analysisEvents.emit(analysisId, 'SAVED', {
+      groupId,
+      message: `Resultado guardado: ${result.totalScore}/${result.maxScore}`,
+      data: {
+        status: result.status,
+        totalScore: result.totalScore,
+        maxScore: result.maxScore,
+        percentage: result.percentage,
+        unverifiedEvidence,
+        chunkCount,
+        engine: gradedWith,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Texto de la entrega (PDF, DOCX, Markdown, texto o imagen); los fallos se
+   * reportan como error de extracción
+   */
+  private async extractSubmissionText(
+    analysisId: string,
+    submission: {
+      id: string;
+      groupId: string;
+      fileUrl: string | null;
+      fileName: string | null;
+      checksum: string | null;
+    },
+    usage: LlmUsageContext,
+  ) {
+    if (!submission.fileUrl) {
+      throw new SubmissionStageError(
+        'EXTRACTION',
+        'La entrega no tiene archivo asociado',
+      );
+    }
+
+    let document: ExtractedFile;
+    try {
+      document = await this.documentExtraction.extractFromUrl(
+        submission.fileUrl,
+        submission.fileName,
+        submission.checksum,
+        usage,
+      );
+    } catch (error) {
+      throw new SubmissionStageError(
+        'EXTRACTION',
+        `No se pudo leer ${submission.fileName ?? 'la entrega'}: ${(error as Error).message}`,
+      );
+    }
 
-      // 2. Crear registro de análisis
-      const analysis = await this.prisma.analysis.create({
+    await this.submissionStatus.recordExtraction(submission.id, document);
+
+    // Con el texto en caché el OCR ya se aplicó en un análisis anterior
+    const ocrSkippedPages = document.ocrSkippedPages ?? [];
+    if (
+      (document.ocrPages?.length || ocrSkippedPages.length) &&
+      !document.cached
+    ) {
+      await this.analysisEvents.emit(analysisId, 'EXTRACTING_PDF', {
+        groupId: submission.groupId,
+        message:
+          `OCR aplicado a ${document.ocrPages?.length ?? 0} página(s) escaneada(s)` +
+          (ocrSkippedPages.length
+            ? `; ${ocrSkippedPages.length} omitida(s) por PDF_OCR_MAX_PAGES`
+            : ''),
         data: {
-          evaluationId,
-          engine: 'OPENAI',
-          notes: 'Análisis con GPT-4 y respuestas estructuradas',
+          ocrPages: document.ocrPages ?? [],
+          ocrFailedPages: document.ocrFailedPages ?? [],
+          ocrSkippedPages,
         },
       });
+    }
 
-      // 3. Preparar el contexto de las rúbricas
-      const rubricContext = await this.prepareRubricContext(evaluation.rubrics);
+    const cleanText = this.pdfService.cleanText(document.text);
 
-      // 4. Analizar cada grupo
-      const analysisPromises = evaluation.groups.map(async (group) => {
-        if (!group.submissions || group.submissions.length === 0) {
-          this.logger.warn(`Grupo ${group.code} no tiene submissions`);
-          return null;
-        }
+    if (!cleanText) {
+      throw new SubmissionStageError(
+        'EXTRACTION',
+        `${submission.fileName ?? 'La entrega'} no contiene texto extraíble`,
+      );
+    }
 
-        const latestSubmission = group.submissions[0];
-        
-        try {
-          // Extraer texto del PDF
-          const pdfText = await this.s3PdfService.extractTextFromS3Url(latestSubmission.fileUrl!);
-          const cleanText = this.pdfService.cleanText(pdfText);
-
-          // Analizar con OpenAI
-          const result = await this.analyzeGroupWithOpenAI(
-            group.code!,
-            group.name || group.code!,
-            cleanText,
-            rubricContext,
-            evaluation.title!,
-          );
+    return { text: cleanText, pages: document.pages };
+  }
+
+  /**
+   * Marcar el análisis como terminado cuando ya no quedan jobs pendientes
+   */
+  async finalizeAnalysisIfDone(analysisId: string) {
+    const pending = await this.prisma.analysisJob.count({
+      where: { analysisId, status: { in: ['QUEUED', 'RUNNING'] } },
+    });
 
-          // Guardar resultados
-          await this.saveAnalysisResults(analysis.id, group.id, result, evaluation.rubrics[0]?.id);
+    if (pending > 0) {
+      return false;
+    }
 
-          return result;
-        } catch (error) {
-          this.logger.error(`Error al analizar grupo ${group.code}:`, error);
-          return null;
-        }
+    const updated = await this.prisma.analysis.updateMany({
+      where: { id: analysisId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    // Solo quien cierra el análisis emite el resumen
+    if (updated.count > 0) {
+      const jobs = await this.prisma.analysisJob.findMany({
+        where: { analysisId },
+        include: { group: true },
       });
+      const failed = jobs.filter((job) => job.status === 'FAILED');
 
-      await Promise.all(analysisPromises);
+      const failedByReason: Record<string, number> = {};
+      for (const job of failed) {
+        const reason = job.errorReason ?? 'ERROR';
+        failedByReason[reason] = (failedByReason[reason] ?? 0) + 1;
+      }
 
-      // 5. Finalizar análisis
-      await this.prisma.analysis.update({
-        where: { id: analysis.id },
-        data: { endedAt: new Date() },
+      await this.analysisEvents.emit(analysisId, 'SUMMARY', {
+        message: `Análisis finalizado: ${jobs.length - failed.length} grupos completados, ${failed.length} con error`,
+        data: {
+          totalGroups: jobs.length,
+          completed: jobs.length - failed.length,
+          failed: failed.length,
+          failedByReason,
+          failedGroups: failed.map((job) => ({
+            groupId: job.groupId,
+            groupCode: job.group.code,
+            reason: job.errorReason,
+            attempts: job.attempts,
+            error: job.lastError,
+          })),
+        },
       });
 
-      this.logger.log(`Análisis completado para evaluación: ${evaluationId}`);
+      this.logger.log(`Análisis completado: ${analysisId}`);
+    }
 
-      return {
-        success: true,
-        analysisId: analysis.id,
-        message: 'Análisis completado exitosamente',
-      };
-    } catch (error) {
-      this.logger.error('Error en análisis:', error);
-      throw error;
+    return true;
+  }
+
+  /**
+   * Obtener el estado de los jobs de un análisis
+   */
+  async getAnalysisStatus(analysisId: string) {
+    const analysis = await this.prisma.analysis.findUnique({
+      where: { id: analysisId },
+      include: {
+        jobs: {
+          include: {
+            group: true,
+            submission: { select: { version: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!analysis) {
+      throw new NotFoundException(`Análisis ${analysisId} no encontrado`);
     }
+
+    const counts = { QUEUED: 0, RUNNING: 0, COMPLETED: 0, FAILED: 0 };
+    for (const job of analysis.jobs) {
+      counts[job.status]++;
+    }
+
+    return {
+      analysisId: analysis.id,
+      evaluationId: analysis.evaluationId,
+      startedAt: analysis.startedAt,
+      endedAt: analysis.endedAt,
+      finished: analysis.endedAt !== null,
+      totalJobs: analysis.jobs.length,
+      counts,
+      jobs: analysis.jobs.map((job) => ({
+        jobId: job.id,
+        groupId: job.groupId,
+        groupCode: job.group.code,
+        groupName: job.group.name,
+        submissionId: job.submissionId,
+        submissionVersion: job.submission?.version ?? null,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        lastError: job.lastError,
+        errorReason: job.errorReason,
+        finishedAt: job.finishedAt,
+      })),
+    };
   }
 
   /**
    * Preparar contexto de rúbricas para el prompt
    */
-  private async prepareRubricContext(rubrics: any[]): Promise<string> {
+  private async prepareRubricContext(
+    rubrics: Array<Rubric & { rubricItems: RubricItemWithLevels[] }>,
+    usage: LlmUsageContext,
+  ): Promise<string> {
     let context = '# RÚBRICAS DE EVALUACIÓN\n\n';
 
     for (const rubric of rubrics) {
       context += `## ${rubric.title}\n\n`;
 
-      // Si hay PDF de rúbrica, extraer su contenido
-      if (rubric.rubricPdfUrl) {
+      const hasItems = rubric.rubricItems.length > 0;
+
+      // Si hay PDF de rúbrica y aún no tiene criterios estructurados, usar su texto
+      if (rubric.rubricPdfUrl && !hasItems) {
         try {
-          this.logger.log(`Extrayendo contenido de rúbrica PDF: ${rubric.rubricPdfUrl}`);
-          const rubricText = await this.s3PdfService.extractTextFromS3Url(rubric.rubricPdfUrl);
+          this.logger.log(
+            `Extrayendo contenido de rúbrica PDF: ${rubric.rubricPdfUrl}`,
+          );
+          const { text: rubricText, checksum } =
+            await this.documentExtraction.extractFromUrl(
+              rubric.rubricPdfUrl,
+              rubric.title,
+              rubric.checksum,
+              usage,
+            );
+          // Rúbricas anteriores al checksum: se guarda para no volver a descargarlas
+          if (!rubric.checksum) {
+            await this.prisma.rubric.update({
+              where: { id: rubric.id },
+              data: { checksum },
+            });
+            rubric.checksum = checksum;
+          }
           context += `### Contenido de la rúbrica (desde PDF):\n${this.pdfService.cleanText(rubricText)}\n\n`;
         } catch (error) {
-          this.logger.warn(`No se pudo extraer PDF de rúbrica: ${error.message}`);
+          this.logger.warn(
+            `No se pudo extraer PDF de rúbrica: ${(error as Error).message}`,
+          );
         }
       }
 
       // Agregar items de rúbrica
-      if (rubric.rubricItems && rubric.rubricItems.length > 0) {
+      if (hasItems) {
         context += '### Criterios de evaluación:\n\n';
-        
+
         for (const item of rubric.rubricItems) {
-          context += `**${item.itemOrder}. ${item.title}** (Puntaje máximo: ${item.maxScore})\n`;
+          const levels = resolveItemLevels(item);
+          const maxScore = Math.max(...levels.map((level) => level.points));
+
+          context += `**${item.itemOrder}. ${item.title}** (Puntaje máximo: ${maxScore})\n`;
           if (item.conditions) {
             context += `   Condiciones: ${item.conditions}\n`;
           }
+          context += '   Niveles de desempeño:\n';
+          for (const level of levels) {
+            context += `   - ${level.name} (${level.points} pts)${level.descriptor ? `: ${level.descriptor}` : ''}\n`;
+          }
           context += '\n';
         }
       }
@@ -188,19 +670,213 @@ export class AnalysisService {
   }
 
   /**
-   * Analizar un grupo específico usando OpenAI con respuesta estructurada
+   * Texto del documento para calificar dentro del presupuesto de tokens por
+   * llamada. Si no cabe (contado con el tokenizer del proveedor) se divide en
+   * partes, se recopilan las evidencias de cada criterio en cada parte y la
+   * calificación final se hace sobre ese resumen.
+   */
+  private async prepareDocumentForGrading(
+    analysisId: string,
+    groupId: string,
+    llm: ResolvedLlm,
+    pages: string[],
+    rubricContext: string,
+    evaluationTitle: string,
+    tokenBudget: number,
+    usage: LlmUsageContext,
+  ): Promise<{ text: string; chunkCount: number }> {
+    const text = this.pdfService.tagPages(pages);
+
+    // Lo que queda del presupuesto tras las instrucciones, la rúbrica y la respuesta
+    const available =
+      tokenBudget -
+      PROMPT_RESERVED_TOKENS -
+      this.tokenCounter.count(rubricContext, llm.model);
+
+    if (available < MIN_DOCUMENT_TOKENS) {
+      throw new Error(
+        `La rúbrica no deja espacio para el documento en el presupuesto de ${tokenBudget} tokens por llamada`,
+      );
+    }
+
+    const documentTokens = await this.tokenCounter.countForLlm(text, llm);
+
+    if (documentTokens <= available) {
+      return { text, chunkCount: 1 };
+    }
+
+    const chunks = this.pdfService.splitPagesIntoChunks(
+      pages,
+      Math.min(
+        available,
+        Number(this.configService.get('ANALYSIS_CHUNK_TOKENS', 20000)),
+      ),
+      llm.model,
+    );
+
+    this.logger.log(
+      `Documento de ${documentTokens} tokens (disponibles ${available} de ${tokenBudget}): se analiza en ${chunks.length} partes`,
+    );
+
+    const findings: ChunkEvidenceResponse[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      await this.analysisEvents.emit(analysisId, 'CALLING_MODEL', {
+        groupId,
+        message: `Documento extenso (${documentTokens} tokens): recopilando evidencias de la parte ${index + 1} de ${chunks.length}`,
+        data: { chunk: index + 1, chunkCount: chunks.length, documentTokens },
+      });
+
+      findings.push(
+        await this.gatherChunkEvidence(
+          llm,
+          chunk,
+          index + 1,
+          chunks.length,
+          rubricContext,
+          evaluationTitle,
+          usage,
+        ),
+      );
+    }
+
+    // El resumen de las partes también debe caber en el presupuesto
+    const evidence = this.combineChunkEvidence(findings);
+    const evidenceTokens = this.tokenCounter.count(evidence, llm.model);
+    if (evidenceTokens > available) {
+      this.logger.warn(
+        `Evidencias de ${evidenceTokens} tokens recortadas a ${available} para la calificación final`,
+      );
+    }
+
+    return {
+      text: this.tokenCounter.truncate(evidence, available, llm.model),
+      chunkCount: chunks.length,
+    };
+  }
+
+  /**
+   * Etapa "map": hallazgos y citas de una parte del documento por criterio,
+   * sin calificar
+   */
+  private async gatherChunkEvidence(
+    llm: ResolvedLlm,
+    chunk: string,
+    chunkNumber: number,
+    chunkCount: number,
+    rubricContext: string,
+    evaluationTitle: string,
+    usage: LlmUsageContext,
+  ): Promise<ChunkEvidenceResponse> {
+    const systemPrompt = `Eres un evaluador académico. Recibes una parte de un documento extenso y la rúbrica con la que se calificará el documento completo.
+
+Para cada criterio de la rúbrica:
+- Resume en "findings" lo que esta parte aporta al criterio (lo que está bien y lo que falta). Si no aporta nada, déjalo vacío.
+- Copia en "evidence" las citas textuales que respaldan esos hallazgos, con el número de la página según las marcas [Página N]. No corrijas ni parafrasees las citas; si omites una parte usa "...".
+- Indica el número de orden del criterio (itemOrder) tal como aparece en la rúbrica.
+
+No califiques: otra etapa asignará los puntajes con los hallazgos de todas las partes.`;
+
+    const userPrompt = `# EVALUACIÓN: ${evaluationTitle}
+
+${rubricContext}
+
+---
+
+# PARTE ${chunkNumber} DE ${chunkCount} DEL DOCUMENTO
+
+${chunk}`;
+
+    const { result } = await this.llmResilience.call(
+      llm,
+      ({ provider, model }, signal) =>
+        provider.completeStructured(
+          [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          {
+            model,
+            schema: ChunkEvidenceSchema,
+            schemaName: 'chunk_evidence',
+            temperature: 0.2,
+            usage,
+            signal,
+          },
+        ),
+    );
+
+    return result;
+  }
+
+  /**
+   * Etapa "reduce": los hallazgos de todas las partes agrupados por criterio
+   */
+  private combineChunkEvidence(findings: ChunkEvidenceResponse[]): string {
+    const byCriterion = new Map<number, { name: string; parts: string[] }>();
+
+    findings.forEach((chunk, index) => {
+      for (const criterion of chunk.criteria) {
+        const evidence = criterion.evidence ?? [];
+        if (!criterion.findings.trim() && evidence.length === 0) {
+          continue;
+        }
+
+        const entry = byCriterion.get(criterion.itemOrder) ?? {
+          name: criterion.criterionName,
+          parts: [],
+        };
+
+        entry.parts.push(
+          [
+            `Parte ${index + 1}: ${criterion.findings.trim() || 'Sin comentarios.'}`,
+            ...evidence.map(
+              (item) => `- [Página ${item.page}] "${item.quote}"`,
+            ),
+          ].join('\n'),
+        );
+        byCriterion.set(criterion.itemOrder, entry);
+      }
+    });
+
+    if (byCriterion.size === 0) {
+      return 'No se encontraron evidencias para los criterios de la rúbrica en ninguna parte del documento.';
+    }
+
+    return [...byCriterion.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(
+        ([itemOrder, { name, parts }]) =>
+          `### Criterio ${itemOrder}: ${name}\n\n${parts.join('\n\n')}`,
+      )
+      .join('\n\n');
+  }
+
+  /**
+   * Analizar un grupo específico con el proveedor de IA usando respuesta
+   * estructurada. Retorna también el proveedor que respondió, que puede ser
+   * el de fallback
    */
-  private async analyzeGroupWithOpenAI(
+  private async analyzeGroupWithLlm(
+    llm: ResolvedLlm,
     groupCode: string,
     groupName: string,
     documentText: string,
     rubricContext: string,
     evaluationTitle: string,
-  ): Promise<RubricAnalysisResponse> {
-    this.logger.log(`Analizando grupo: ${groupCode}`);
+    rubricItems: RubricItemWithLevels[],
+    usage: LlmUsageContext,
+    chunkCount = 1,
+  ): Promise<LlmCallResult<RubricAnalysisResponse>> {
+    this.logger.log(
+      `Analizando grupo: ${groupCode} con ${this.llmProviders.toEngine(llm)}`,
+    );
 
     // Calcular puntaje total disponible
     const maxScore = this.calculateMaxScoreFromContext(rubricContext);
+    const defaultLevels = DEFAULT_LEVELS.map(
+      (level) =>
+        `   - ${level.name} (${level.factor * 100}%): ${level.descriptor}`,
+    ).join('\n');
 
     const systemPrompt = `Eres un evaluador académico experto y minucioso. Tu tarea es evaluar trabajos de estudiantes basándote ESTRICTAMENTE en las rúbricas proporcionadas.
 
@@ -211,22 +887,29 @@ INSTRUCCIONES CRÍTICAS:
 2. **SISTEMA DE PUNTAJE**:
    - Si la rúbrica tiene puntajes explícitos, úsalos.
    - Si NO tiene puntajes explícitos, distribuye ${maxScore} puntos equitativamente entre los criterios.
-   - Cada criterio puede tener niveles: SATISFACTORIO (100%), BUENO (75%), REGULAR (50%), INSATISFACTORIO (25%).
+   - El puntaje de cada criterio es exactamente el puntaje del nivel de desempeño elegido.
 
-3. **NIVELES DE LOGRO**:
-   - SATISFACTORIO: Cumple completamente con todos los requisitos del criterio.
-   - BUENO: Cumple con la mayoría de los requisitos, con pequeñas omisiones.
-   - REGULAR: Cumple parcialmente, falta desarrollo significativo.
-   - INSATISFACTORIO: No cumple con los requisitos o está ausente.
+3. **NIVELES DE DESEMPEÑO**:
+   - Cuando un criterio lista sus niveles, elige exactamente uno de ellos (usa su nombre tal cual) comparando el trabajo con el descriptor de cada nivel.
+   - Si la rúbrica no lista niveles, usa estos niveles (porcentaje del puntaje máximo del criterio):
+${defaultLevels}
 
 4. **FEEDBACK ESPECÍFICO**: 
-   - Cita evidencias del documento.
    - Señala qué está bien y qué falta.
    - Sé constructivo pero honesto.
 
 5. **RECOMENDACIONES**: 
    - Prioriza las recomendaciones (1=Alta, 2=Media, 3=Baja).
-   - Enfócate en mejoras concretas y accionables.`;
+   - Enfócate en mejoras concretas y accionables.
+
+6. **IDENTIFICACIÓN DE CRITERIOS**:
+   - Evalúa cada criterio de la rúbrica por separado, indicando su número de orden (itemOrder) tal como aparece en la rúbrica.
+
+7. **EVIDENCIAS**:
+   - El documento está dividido en páginas marcadas como [Página N].
+   - Para cada criterio incluye en "evidence" al menos una cita que respalde el nivel elegido, con el número de la página donde aparece.
+   - Copia las citas textualmente, sin corregirlas ni parafrasearlas; si omites una parte usa "...".
+   - Si el documento no aborda el criterio, cita el pasaje más cercano y explica en el feedback qué falta.`;
 
     const userPrompt = `# EVALUACIÓN: ${evaluationTitle}
 
@@ -239,7 +922,13 @@ ${rubricContext}
 **Grupo**: ${groupCode}
 **Nombre**: ${groupName}
 
-## Contenido del documento:
+${
+  chunkCount > 1
+    ? `## Evidencias del documento:
+
+El documento es extenso y se revisó en ${chunkCount} partes. Estos son los hallazgos y las citas de cada parte por criterio; califica a partir de ellos y usa sus citas (con su página) como evidencia.`
+    : '## Contenido del documento:'
+}
 
 ${documentText}
 
@@ -250,33 +939,113 @@ ${documentText}
 Evalúa este documento siguiendo ESTRICTAMENTE los criterios de la rúbrica. Sé minucioso, justo y constructivo.`;
 
     try {
-      const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
+      const graded = await this.llmResilience.call(
+        llm,
+        ({ provider, model }, signal) =>
+          provider.completeStructured(
+            [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt },
+            ],
+            {
+              model,
+              schema: buildRubricAnalysisSchema(rubricItems),
+              schemaName: 'rubric_analysis',
+              temperature: 0.3, // Más determinístico para evaluaciones
+              usage,
+              signal,
+            },
+          ),
+      );
 
-      const completion = await openai.chat.completions.parse({
-        model: 'gpt-4.1-nano', // Modelo que soporta structured outputs
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        response_format: zodResponseFormat(RubricAnalysisSchema, 'rubric_analysis'),
-        temperature: 0.3, // Más determinístico para evaluaciones
-      });
+      const { result } = graded;
+      this.logger.log(
+        `Análisis completado para grupo ${groupCode} (${this.llmProviders.toEngine(graded.llm)}${graded.fallback ? ', fallback' : ''}): ${result.totalScore}/${result.maxScore}`,
+      );
+
+      return graded;
+    } catch (error) {
+      this.logger.error(
+        `Error al analizar con ${this.llmProviders.toEngine(llm)}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Ajustar cada criterio al nivel elegido: el puntaje pasa a ser el del nivel
+   * y los totales se recalculan. Los criterios cuyo nivel no existe en el
+   * ítem conservan el puntaje informado, acotado a su máximo.
+   */
+  private applyRubricLevels(
+    result: RubricAnalysisResponse,
+    rubricItems: RubricItemWithLevels[],
+  ): RubricAnalysisResponse {
+    if (rubricItems.length === 0) {
+      return result;
+    }
 
-      const result = completion.choices[0].message.parsed;
+    const matched = this.matchCriteriaToRubricItems(
+      result.criteria,
+      rubricItems,
+    );
+    const criteria = matched.map(({ item, criterion }) => {
+      const levels = resolveItemLevels(item);
+      const maxScore = Math.max(...levels.map((level) => level.points));
+      const level = findLevel(levels, criterion.level);
 
-      if (!result) {
-        throw new Error('No se pudo parsear la respuesta de OpenAI');
+      if (!level) {
+        this.logger.warn(
+          `Nivel "${criterion.level}" no definido para el criterio ${item.itemOrder}`,
+        );
       }
 
-      this.logger.log(`Análisis completado para grupo ${groupCode}: ${result.totalScore}/${result.maxScore}`);
+      return {
+        ...criterion,
+        itemOrder: item.itemOrder,
+        level: level?.name ?? criterion.level,
+        score: level
+          ? level.points
+          : Math.min(Math.max(criterion.score, 0), maxScore),
+        maxScore,
+      };
+    });
 
-      return result;
-    } catch (error) {
-      this.logger.error('Error al analizar con OpenAI:', error);
-      throw error;
-    }
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const totalScore = round(criteria.reduce((sum, c) => sum + c.score, 0));
+    const maxScore = round(
+      rubricItems.reduce(
+        (sum, item) =>
+          sum +
+          Math.max(...resolveItemLevels(item).map((level) => level.points)),
+        0,
+      ),
+    );
+
+    return {
+      ...result,
+      criteria,
+      totalScore,
+      maxScore,
+      percentage: maxScore > 0 ? round((totalScore / maxScore) * 100) : 0,
+    };
+  }
+
+  /**
+   * Marcar cada cita según aparezca o no en la página indicada del documento
+   */
+  private verifyCitations(
+    result: RubricAnalysisResponse,
+    pages: string[],
+  ): RubricAnalysisResponse {
+    return {
+      ...result,
+      criteria: result.criteria.map((criterion) => ({
+        ...criterion,
+        evidence: verifyEvidence(criterion.evidence ?? [], pages),
+      })),
+    };
   }
 
   /**
@@ -298,40 +1067,76 @@ Evalúa este documento siguiendo ESTRICTAMENTE los criterios de la rúbrica. Sé
   }
 
   /**
-   * Guardar resultados del análisis en la base de datos
+   * Guardar resultados del análisis en la base de datos.
+   * Un AnalysisResult por grupo, con una fila por cada RubricItem evaluado.
    */
   private async saveAnalysisResults(
     analysisId: string,
     groupId: string,
+    submissionId: string,
     result: RubricAnalysisResponse,
-    rubricId: string,
+    rubric: { id: string; rubricItems: RubricItemWithLevels[] },
+    chunkCount: number,
+    engine: string | null,
   ) {
     try {
-      // Guardar resultado general
-      await this.prisma.analysisResult.create({
-        data: {
-          analysisId,
-          rubricId,
-          status: result.status,
-          score: result.totalScore,
-          feedback: `${result.generalFeedback}\n\n**Fortalezas:**\n${result.strengths.join('\n')}\n\n**Áreas de mejora:**\n${result.improvements.join('\n')}`,
-        },
-      });
+      const criteria = this.matchCriteriaToRubricItems(
+        result.criteria,
+        rubric.rubricItems,
+      );
+
+      await this.prisma.$transaction(async (tx) => {
+        // Reemplazar resultados previos del grupo (reintentos del job)
+        await tx.analysisResult.deleteMany({ where: { analysisId, groupId } });
+        await tx.recommendation.deleteMany({ where: { analysisId, groupId } });
 
-      // Guardar recomendaciones
-      for (const recommendation of result.recommendations) {
-        await this.prisma.recommendation.create({
+        // Guardar resultado del grupo con sus criterios
+        await tx.analysisResult.create({
           data: {
+            analysisId,
+            groupId,
+            rubricId: rubric.id,
+            submissionId,
+            status: result.status,
+            score: result.totalScore,
+            maxScore: result.maxScore,
+            chunkCount,
+            // Proveedor y modelo que calificaron el grupo (el de fallback si se usó)
+            engine,
+            feedback: `${result.generalFeedback}\n\n**Fortalezas:**\n${result.strengths.join('\n')}\n\n**Áreas de mejora:**\n${result.improvements.join('\n')}`,
+            criteria: {
+              create: criteria.map(({ item, criterion }) => ({
+                rubricItemId: item.id,
+                score: criterion.score,
+                maxScore: criterion.maxScore,
+                level: criterion.level,
+                levelId: findLevel(resolveItemLevels(item), criterion.level)
+                  ?.id,
+                feedback: criterion.feedback,
+                evidence: criterion.evidence,
+              })),
+            },
+          },
+        });
+
+        // Guardar recomendaciones
+        await tx.recommendation.createMany({
+          data: result.recommendations.map((recommendation) => ({
             analysisId,
             groupId,
             priority: recommendation.priority,
             summary: recommendation.summary,
             details: recommendation.details,
-          },
+          })),
         });
-      }
 
-      this.logger.log(`Resultados guardados para análisis ${analysisId}`);
+        // En la misma transacción: un resultado guardado siempre deja la entrega ANALYZED
+        await this.submissionStatus.markAnalyzed(submissionId, analysisId, tx);
+      });
+
+      this.logger.log(
+        `Resultados guardados para análisis ${analysisId}, grupo ${groupId} (${criteria.length} criterios)`,
+      );
     } catch (error) {
       this.logger.error('Error al guardar resultados:', error);
       throw error;
@@ -339,28 +1144,114 @@ Evalúa este documento siguiendo ESTRICTAMENTE los criterios de la rúbrica. Sé
   }
 
   /**
-   * Obtener resultados de un análisis
+   * Asociar cada criterio de la respuesta con su RubricItem (por orden y, si no coincide, por título)
+   */
+  private matchCriteriaToRubricItems(
+    criteria: RubricAnalysisResponse['criteria'],
+    rubricItems: RubricItemWithLevels[],
+  ) {
+    const normalize = (value: string) => value.trim().toLowerCase();
+    const matched: Array<{
+      item: RubricItemWithLevels;
+      criterion: RubricAnalysisResponse['criteria'][number];
+    }> = [];
+    const usedItemIds = new Set<string>();
+
+    for (const criterion of criteria) {
+      const item =
+        rubricItems.find(
+          (candidate) =>
+            candidate.itemOrder === criterion.itemOrder &&
+            !usedItemIds.has(candidate.id),
+        ) ??
+        rubricItems.find(
+          (candidate) =>
+            normalize(candidate.title) === normalize(criterion.criterionName) &&
+            !usedItemIds.has(candidate.id),
+        );
+
+      if (!item) {
+        this.logger.warn(
+          `Criterio "${criterion.criterionName}" no corresponde a ningún rubric item`,
+        );
+        continue;
+      }
+
+      usedItemIds.add(item.id);
+      matched.push({ item, criterion });
+    }
+
+    return matched;
+  }
+
+  /**
+   * Obtener resultados de un análisis agrupados por grupo
    */
   async getAnalysisResults(analysisId: string) {
-    return await this.prisma.analysis.findUnique({
+    const analysis = await this.prisma.analysis.findUnique({
       where: { id: analysisId },
       include: {
         evaluation: true,
         analysisResults: {
           include: {
+            group: true,
             rubric: true,
+            submission: {
+              select: {
+                id: true,
+                version: true,
+                fileName: true,
+                checksum: true,
+              },
+            },
+            criteria: {
+              include: { rubricItem: true },
+              orderBy: { rubricItem: { itemOrder: 'asc' } },
+            },
           },
         },
         recommendations: {
-          include: {
-            group: true,
-          },
-          orderBy: [
-            { priority: 'asc' },
-            { createdAt: 'desc' },
-          ],
+          orderBy: [{ priority: 'asc' }, { createdAt: 'desc' }],
         },
       },
     });
+
+    if (!analysis) {
+      throw new NotFoundException(`Análisis ${analysisId} no encontrado`);
+    }
+
+    const { analysisResults, recommendations, ...analysisData } = analysis;
+
+    return {
+      ...analysisData,
+      groups: analysisResults
+        .sort((a, b) => (a.group.code ?? '').localeCompare(b.group.code ?? ''))
+        .map(({ group, submission, criteria, ...result }) => ({
+          group,
+          submission,
+          result,
+          criteria: criteria.map((criterion) => ({
+            id: criterion.id,
+            rubricItemId: criterion.rubricItemId,
+            itemOrder: criterion.rubricItem.itemOrder,
+            title: criterion.rubricItem.title,
+            score: criterion.score,
+            maxScore: criterion.maxScore,
+            level: criterion.level,
+            levelId: criterion.levelId,
+            feedback: criterion.feedback,
+            evidence: criterion.evidence,
+            overrideScore: criterion.overrideScore,
+            overrideLevel: criterion.overrideLevel,
+            overrideFeedback: criterion.overrideFeedback,
+            overrideJustification: criterion.overrideJustification,
+            overriddenBy: criterion.overriddenBy,
+            overriddenAt: criterion.overriddenAt,
+          })),
+          recommendations: recommendations.filter(
+            (recommendation) => recommendation.groupId === group.id,
+          ),
+        })),
+    };
   }
-}
\ No newline at end of file
+}
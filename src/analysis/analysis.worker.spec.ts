@@ -0,0 +1,240 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+import { SubmissionStatusService } from '../evaluation/submission-status.service';
+import { LlmCallError } from '../llm/llm-resilience.service';
+import { AnalysisEventsService } from './analysis-events.service';
+import { AnalysisService } from './analysis.service';
+import { AnalysisWorker } from './analysis.worker';
+
+describe('AnalysisWorker', () => {
+  let worker: AnalysisWorker;
+
+  const workerId = `${hostname()}:${process.pid}`;
+
+  const job = {
+    id: 'job-1',
+    analysisId: 'analysis-1',
+    groupId: 'group-1',
+    submissionId: 'submission-1',
+    attempts: 1,
+    maxAttempts: 3,
+  };
+
+  const prisma = {
+    $queryRaw: jest.fn(),
+    analysisJob: { updateMany: jest.fn() },
+  };
+  const analysisService = {
+    analyzeGroup: jest.fn(),
+    finalizeAnalysisIfDone: jest.fn(),
+  };
+  const analysisEvents = { emit: jest.fn() };
+  const submissionStatus = { markError: jest.fn() };
+
+  const config: Record<string, string | number> = {
+    ANALYSIS_WORKER_CONCURRENCY: 1,
+    ANALYSIS_JOB_RETRY_DELAY_MS: 1000,
+    ANALYSIS_JOB_LOCK_TIMEOUT_MS: 600000,
+  };
+
+  // Una vuelta del worker: reclamar jobs y esperar a que terminen
+  const pollOnce = async () => {
+    await (worker as unknown as { poll(): Promise<void> }).poll();
+    await worker.onModuleDestroy();
+  };
+
+  // updateMany que registró el resultado del job (el primero es el de requeue)
+  const release = () =>
+    (
+      prisma.analysisJob.updateMany.mock.calls as [
+        Prisma.AnalysisJobUpdateManyArgs,
+      ][]
+    ).find(([args]) => args.where?.id === job.id)?.[0];
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$queryRaw.mockResolvedValueOnce([job]).mockResolvedValue([]);
+    prisma.analysisJob.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisWorker,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AnalysisService, useValue: analysisService },
+        { provide: AnalysisEventsService, useValue: analysisEvents },
+        { provide: SubmissionStatusService, useValue: submissionStatus },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              config[key] ?? defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    worker = module.get<AnalysisWorker>(AnalysisWorker);
+  });
+
+  describe('claim', () => {
+    it('should claim queued jobs with FOR UPDATE SKIP LOCKED', async () => {
+      await pollOnce();
+
+      const [sql] = prisma.$queryRaw.mock.calls[0] as [TemplateStringsArray];
+      expect(sql.join('?')).toContain('FOR UPDATE SKIP LOCKED');
+      expect(analysisService.analyzeGroup).toHaveBeenCalledWith(
+        'analysis-1',
+        'group-1',
+      );
+    });
+
+    it('should complete the job only while this worker holds the lock', async () => {
+      await pollOnce();
+
+      expect(release()).toEqual({
+        where: {
+          id: 'job-1',
+          status: 'RUNNING',
+          lockedBy: workerId,
+          attempts: 1,
+        },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          lockedAt: null,
+          lockedBy: null,
+        }) as Prisma.AnalysisJobUpdateManyMutationInput,
+      });
+      expect(analysisService.finalizeAnalysisIfDone).toHaveBeenCalledWith(
+        'analysis-1',
+      );
+    });
+  });
+
+  describe('retry', () => {
+    it('should requeue a failed job with exponential backoff', async () => {
+      prisma.$queryRaw.mockReset();
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ ...job, attempts: 2 }])
+        .mockResolvedValue([]);
+      analysisService.analyzeGroup.mockRejectedValue(new Error('timeout'));
+
+      const startedAt = Date.now();
+      await pollOnce();
+
+      const { data } = release()!;
+      expect(data).toMatchObject({
+        status: 'QUEUED',
+        lastError: 'timeout',
+        errorReason: 'ERROR',
+      });
+      expect((data.runAt as Date).getTime()).toBeGreaterThanOrEqual(
+        startedAt + 2000,
+      );
+      expect(analysisEvents.emit).toHaveBeenCalledWith(
+        'analysis-1',
+        'FAILED',
+        expect.objectContaining({
+          data: expect.objectContaining({ willRetry: true }) as object,
+        }),
+      );
+      expect(submissionStatus.markError).not.toHaveBeenCalled();
+    });
+
+    it('should fail without retrying non-retryable provider errors', async () => {
+      analysisService.analyzeGroup.mockRejectedValue(
+        new LlmCallError('REJECTED', false, 'openai:gpt-4o', 'HTTP 400'),
+      );
+
+      await pollOnce();
+
+      expect(release()!.data).toMatchObject({
+        status: 'FAILED',
+        errorReason: 'REJECTED',
+      });
+      expect(submissionStatus.markError).toHaveBeenCalledWith(
+        'submission-1',
+        'ANALYSIS',
+        'HTTP 400',
+      );
+    });
+
+    it('should not retry jobs rejected as invalid', async () => {
+      analysisService.analyzeGroup.mockRejectedValue(
+        new BadRequestException('La evaluación no tiene rúbrica'),
+      );
+
+      await pollOnce();
+
+      expect(release()!.data).toMatchObject({
+        status: 'FAILED',
+        lastError: 'La evaluación no tiene rúbrica',
+      });
+    });
+
+    it('should fail the job after its last attempt', async () => {
+      prisma.$queryRaw.mockReset();
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ ...job, attempts: 3 }])
+        .mockResolvedValue([]);
+      analysisService.analyzeGroup.mockRejectedValue(new Error('timeout'));
+
+      await pollOnce();
+
+      expect(release()!.data).toMatchObject({ status: 'FAILED' });
+    });
+  });
+
+  describe('lock', () => {
+    it('should not report the failure when another worker took the job', async () => {
+      analysisService.analyzeGroup.mockRejectedValue(new Error('timeout'));
+      prisma.analysisJob.updateMany.mockImplementation(
+        ({ where }: Prisma.AnalysisJobUpdateManyArgs) =>
+          Promise.resolve({ count: where?.id === job.id ? 0 : 1 }),
+      );
+
+      await pollOnce();
+
+      expect(analysisEvents.emit).not.toHaveBeenCalled();
+      expect(submissionStatus.markError).not.toHaveBeenCalled();
+    });
+
+    it('should keep polling when the job update fails', async () => {
+      analysisService.analyzeGroup.mockRejectedValue(new Error('timeout'));
+      prisma.analysisJob.updateMany.mockImplementation(
+        ({ where }: Prisma.AnalysisJobUpdateManyArgs) =>
+          where?.id === job.id
+            ? Promise.reject(new Error('connection lost'))
+            : Promise.resolve({ count: 1 }),
+      );
+
+      await expect(pollOnce()).resolves.toBeUndefined();
+      expect(analysisService.finalizeAnalysisIfDone).toHaveBeenCalled();
+    });
+
+    it('should requeue jobs missing two heartbeats on startup', async () => {
+      const startedAt = Date.now();
+      await worker.onModuleInit();
+      await worker.onModuleDestroy();
+
+      const [{ where, data }] = prisma.analysisJob.updateMany.mock.calls[0] as [
+        Prisma.AnalysisJobUpdateManyArgs,
+      ];
+      const staleBefore = (where!.lockedAt as { lt: Date }).lt.getTime();
+      expect(startedAt - staleBefore).toBeLessThanOrEqual(60 * 1000);
+      expect(startedAt - staleBefore).toBeGreaterThanOrEqual(59 * 1000);
+      expect(data).toEqual({
+        status: 'QUEUED',
+        lockedAt: null,
+        lockedBy: null,
+      });
+    });
+  });
+});
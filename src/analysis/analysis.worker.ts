@@ -0,0 +1,379 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+import { AnalysisService } from './analysis.service';
+import { AnalysisEventsService } from './analysis-events.service';
+import {
+  SubmissionStageError,
+  SubmissionStatusService,
+} from '../evaluation/submission-status.service';
+import { LlmCallError } from '../llm/llm-resilience.service';
+
+interface ClaimedJob {
+  id: string;
+  analysisId: string;
+  groupId: string;
+  submissionId: string | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+// Intervalo máximo entre renovaciones del lock de un job en curso
+const MAX_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Worker que procesa los jobs de análisis persistidos en Postgres.
+ * Los jobs se reclaman con FOR UPDATE SKIP LOCKED, por lo que varias
+ * instancias del servidor pueden compartir la misma cola. Los jobs de un
+ * proceso caído vuelven a la cola cuando su lock deja de renovarse: al
+ * iniciar, los que no se renovaron en dos intervalos del heartbeat; después,
+ * los que superan ANALYSIS_JOB_LOCK_TIMEOUT_MS.
+ */
+@Injectable()
+export class AnalysisWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AnalysisWorker.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private readonly enabled: boolean;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly retryDelayMs: number;
+  private readonly runningJobs = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+  private stopping = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analysisService: AnalysisService,
+    private readonly analysisEvents: AnalysisEventsService,
+    private readonly submissionStatus: SubmissionStatusService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('ANALYSIS_WORKER_ENABLED', 'true') !==
+      'false';
+    this.concurrency = Math.max(
+      1,
+      Number(this.configService.get('ANALYSIS_WORKER_CONCURRENCY', 3)),
+    );
+    this.pollIntervalMs = Number(
+      this.configService.get('ANALYSIS_WORKER_POLL_MS', 2000),
+    );
+    this.lockTimeoutMs = Number(
+      this.configService.get('ANALYSIS_JOB_LOCK_TIMEOUT_MS', 10 * 60 * 1000),
+    );
+    this.heartbeatIntervalMs = Math.min(
+      this.lockTimeoutMs / 3,
+      MAX_HEARTBEAT_INTERVAL_MS,
+    );
+    this.retryDelayMs = Number(
+      this.configService.get('ANALYSIS_JOB_RETRY_DELAY_MS', 30 * 1000),
+    );
+  }
+
+  async onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Worker de análisis deshabilitado');
+      return;
+    }
+
+    this.logger.log(
+      `Worker de análisis iniciado (${this.workerId}, concurrencia: ${this.concurrency})`,
+    );
+
+    // Jobs de un proceso que se reinició: su heartbeat ya no los renueva
+    try {
+      await this.requeueStaleJobs(2 * this.heartbeatIntervalMs);
+    } catch (error) {
+      this.logger.error('Error al reencolar jobs al iniciar:', error);
+    }
+
+    this.schedule(0);
+  }
+
+  async onModuleDestroy() {
+    this.stopping = true;
+    clearTimeout(this.timer);
+
+    // Esperar a que terminen los jobs en curso
+    await Promise.allSettled(this.runningJobs);
+  }
+
+  private schedule(delayMs: number) {
+    if (this.stopping) {
+      return;
+    }
+
+    this.timer = setTimeout(() => void this.poll(), delayMs);
+  }
+
+  private async poll() {
+    try {
+      await this.requeueStaleJobs(this.lockTimeoutMs);
+
+      while (!this.stopping && this.runningJobs.size < this.concurrency) {
+        const job = await this.claimNextJob();
+
+        if (!job) {
+          break;
+        }
+
+        const running = this.runJob(job)
+          .catch((error) =>
+            this.logger.error(`Error inesperado en job ${job.id}:`, error),
+          )
+          .finally(() => {
+            this.runningJobs.delete(running);
+          });
+        this.runningJobs.add(running);
+      }
+    } catch (error) {
+      this.logger.error('Error al consultar la cola de análisis:', error);
+    } finally {
+      this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Reclamar el siguiente job disponible de forma atómica
+   */
+  private async claimNextJob(): Promise<ClaimedJob | null> {
+    const jobs = await this.prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE analysis_jobs
+      SET status = 'RUNNING',
+          attempts = attempts + 1,
+          locked_at = now(),
+          locked_by = ${this.workerId}
+      WHERE id = (
+        SELECT id FROM analysis_jobs
+        WHERE status = 'QUEUED' AND run_at <= now()
+        ORDER BY run_at ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id,
+                analysis_id AS "analysisId",
+                group_id AS "groupId",
+                submission_id AS "submissionId",
+                attempts,
+                max_attempts AS "maxAttempts"
+    `;
+
+    return jobs[0] ?? null;
+  }
+
+  /**
+   * Devolver a la cola los jobs cuyo lock no se renovó en staleAfterMs
+   * (proceso caído o colgado)
+   */
+  private async requeueStaleJobs(staleAfterMs: number) {
+    const staleBefore = new Date(Date.now() - staleAfterMs);
+
+    const result = await this.prisma.analysisJob.updateMany({
+      where: { status: 'RUNNING', lockedAt: { lt: staleBefore } },
+      data: { status: 'QUEUED', lockedAt: null, lockedBy: null },
+    });
+
+    if (result.count > 0) {
+      this.logger.warn(`${result.count} jobs con lock expirado reencolados`);
+    }
+  }
+
+  private async runJob(job: ClaimedJob) {
+    this.logger.log(
+      `Procesando job ${job.id} (grupo ${job.groupId}, intento ${job.attempts}/${job.maxAttempts})`,
+    );
+
+    try {
+      await this.withLockHeartbeat(job.id, () =>
+        this.analysisService.analyzeGroup(job.analysisId, job.groupId),
+      );
+    } catch (error) {
+      await this.handleFailure(job, error);
+      await this.finalizeAnalysis(job.analysisId);
+      return;
+    }
+
+    await this.releaseJob(job, {
+      status: 'COMPLETED',
+      lastError: null,
+      errorReason: null,
+      finishedAt: new Date(),
+    });
+    await this.finalizeAnalysis(job.analysisId);
+  }
+
+  /**
+   * Reencolar el job con backoff o marcarlo FAILED, y registrar el fallo en
+   * los eventos y en la entrega
+   */
+  private async handleFailure(job: ClaimedJob, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const reason = this.errorReason(error);
+    // Los fallos del proveedor ya se reintentaron en la llamada (LlmResilienceService):
+    // el job solo se reintenta si el error indica que vale la pena esperar. Un
+    // BadRequestException (p. ej. evaluación sin rúbrica) fallaría igual.
+    const willRetry =
+      job.attempts < job.maxAttempts &&
+      !(error instanceof LlmCallError && !error.retryable) &&
+      !(error instanceof BadRequestException);
+
+    this.logger.error(
+      `Error en job ${job.id} (intento ${job.attempts}/${job.maxAttempts}): ${message}`,
+    );
+
+    const released = await this.releaseJob(
+      job,
+      willRetry
+        ? {
+            status: 'QUEUED',
+            lastError: message,
+            errorReason: reason,
+            // Backoff exponencial entre reintentos
+            runAt: new Date(
+              Date.now() + this.retryDelayMs * 2 ** (job.attempts - 1),
+            ),
+          }
+        : {
+            status: 'FAILED',
+            lastError: message,
+            errorReason: reason,
+            finishedAt: new Date(),
+          },
+    );
+
+    if (!released) {
+      return;
+    }
+
+    await this.analysisEvents.emit(job.analysisId, 'FAILED', {
+      groupId: job.groupId,
+      message: willRetry
+        ? `Intento ${job.attempts}/${job.maxAttempts} fallido, se reintentará: ${message}`
+        : `Análisis del grupo fallido tras ${job.attempts} intentos: ${message}`,
+      data: {
+        error: message,
+        reason,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        willRetry,
+      },
+    });
+
+    if (!willRetry && job.submissionId) {
+      await this.markSubmissionError(job.submissionId, error, message);
+    }
+  }
+
+  /**
+   * Registrar el resultado del job y liberar su lock, solo si sigue siendo
+   * el intento que reclamó este worker: si el lock expiró y otro worker lo
+   * tomó, prevalece el resultado de ese worker. Retorna si se registró.
+   */
+  private async releaseJob(
+    job: ClaimedJob,
+    data: Prisma.AnalysisJobUpdateManyMutationInput,
+  ) {
+    try {
+      const { count } = await this.prisma.analysisJob.updateMany({
+        where: {
+          id: job.id,
+          status: 'RUNNING',
+          lockedBy: this.workerId,
+          attempts: job.attempts,
+        },
+        data: { ...data, lockedAt: null, lockedBy: null },
+      });
+
+      if (count === 0) {
+        this.logger.warn(
+          `Job ${job.id}: el lock expiró y lo tomó otro worker; no se registra este intento`,
+        );
+      }
+
+      return count > 0;
+    } catch (error) {
+      this.logger.error(`No se pudo actualizar el job ${job.id}:`, error);
+      return false;
+    }
+  }
+
+  private async finalizeAnalysis(analysisId: string) {
+    try {
+      await this.analysisService.finalizeAnalysisIfDone(analysisId);
+    } catch (error) {
+      this.logger.error(`Error al finalizar análisis ${analysisId}:`, error);
+    }
+  }
+
+  /**
+   * Renovar el lock mientras el job corre: con reintentos, fallback y
+   * documentos por partes un análisis puede durar más que
+   * ANALYSIS_JOB_LOCK_TIMEOUT_MS, y sin renovarlo otro worker lo reencolaría
+   * y calificaría el grupo por segunda vez
+   */
+  private async withLockHeartbeat<T>(jobId: string, run: () => Promise<T>) {
+    const heartbeat = setInterval(() => {
+      this.prisma.analysisJob
+        .updateMany({
+          where: { id: jobId, status: 'RUNNING', lockedBy: this.workerId },
+          data: { lockedAt: new Date() },
+        })
+        .catch((error: Error) =>
+          this.logger.warn(
+            `No se pudo renovar el lock del job ${jobId}: ${error.message}`,
+          ),
+        );
+    }, this.heartbeatIntervalMs);
+
+    try {
+      return await run();
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Motivo del fallo para el resumen: el de la llamada al proveedor de IA o
+   * el paso de la entrega que falló
+   */
+  private errorReason(error: unknown): string {
+    if (error instanceof LlmCallError) {
+      return error.reason;
+    }
+    if (error instanceof SubmissionStageError) {
+      return error.stage;
+    }
+    return 'ERROR';
+  }
+
+  /**
+   * Registrar en la entrega el paso en que falló el análisis
+   */
+  private async markSubmissionError(
+    submissionId: string,
+    error: unknown,
+    message: string,
+  ) {
+    try {
+      await this.submissionStatus.markError(
+        submissionId,
+        error instanceof SubmissionStageError ? error.stage : 'ANALYSIS',
+        message,
+      );
+    } catch (statusError) {
+      this.logger.warn(
+        `No se pudo marcar la entrega ${submissionId} con error: ${(statusError as Error).message}`,
+      );
+    }
+  }
+}
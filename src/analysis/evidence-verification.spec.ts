@@ -0,0 +1,115 @@
+import {
+  countUnverified,
+  normalizeForQuote,
+  verifyEvidence,
+} from './evidence-verification';
+
+describe('evidence verification', () => {
+  describe('normalizeForQuote', () => {
+    it('should lowercase, strip accents and collapse whitespace', () => {
+      expect(normalizeForQuote('  La  Evaluación\n\tFINAL  ')).toBe(
+        'la evaluacion final',
+      );
+    });
+
+    it('should unify typographic quotes and dashes', () => {
+      expect(normalizeForQuote('“Hola” ‘mundo’ a–b')).toBe(
+        `"hola" 'mundo' a-b`,
+      );
+    });
+
+    it('should join words hyphenated at the end of a line', () => {
+      expect(normalizeForQuote('la metodo-\nlogía del proyecto')).toBe(
+        'la metodologia del proyecto',
+      );
+    });
+  });
+
+  describe('verifyEvidence', () => {
+    const pages = [
+      'Introducción. El proyecto describe la arquitectura del sistema.',
+      'Resultados: la latencia bajó un 40% tras aplicar caché.',
+    ];
+
+    it('should verify quotes found on the cited page', () => {
+      const [evidence] = verifyEvidence(
+        [{ page: 2, quote: 'La latencia bajó un 40%' }],
+        pages,
+      );
+
+      expect(evidence).toEqual({
+        page: 2,
+        quote: 'La latencia bajó un 40%',
+        check: 'VERIFIED',
+        foundOnPage: 2,
+      });
+    });
+
+    it('should report the page where a misplaced quote appears', () => {
+      const [evidence] = verifyEvidence(
+        [{ page: 2, quote: 'describe la arquitectura' }],
+        pages,
+      );
+
+      expect(evidence.check).toBe('WRONG_PAGE');
+      expect(evidence.foundOnPage).toBe(1);
+    });
+
+    it('should mark quotes missing from the document as not found', () => {
+      const [evidence] = verifyEvidence(
+        [{ page: 1, quote: 'El sistema usa microservicios' }],
+        pages,
+      );
+
+      expect(evidence.check).toBe('NOT_FOUND');
+      expect(evidence.foundOnPage).toBeNull();
+    });
+
+    it('should verify quotes trimmed with ellipsis by their fragments', () => {
+      const result = verifyEvidence(
+        [
+          { page: 1, quote: '"El proyecto ... del sistema"' },
+          { page: 1, quote: 'El proyecto … la latencia' },
+        ],
+        pages,
+      );
+
+      expect(result.map((evidence) => evidence.check)).toEqual([
+        'VERIFIED',
+        'NOT_FOUND',
+      ]);
+    });
+
+    it('should not verify quotes too short to compare', () => {
+      const [evidence] = verifyEvidence([{ page: 1, quote: '"el"' }], pages);
+
+      expect(evidence.check).toBe('NOT_FOUND');
+    });
+
+    it('should handle cited pages outside the document', () => {
+      const [evidence] = verifyEvidence(
+        [{ page: 5, quote: 'la latencia bajó' }],
+        pages,
+      );
+
+      expect(evidence.check).toBe('WRONG_PAGE');
+      expect(evidence.foundOnPage).toBe(2);
+    });
+  });
+
+  describe('countUnverified', () => {
+    it('should count evidence not verified on its page', () => {
+      expect(
+        countUnverified([
+          {
+            evidence: [
+              { page: 1, quote: 'a', check: 'VERIFIED' },
+              { page: 1, quote: 'b', check: 'WRONG_PAGE' },
+            ],
+          },
+          { evidence: [{ page: 2, quote: 'c', check: 'NOT_FOUND' }] },
+        ]),
+      ).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Resultado de contrastar una cita con el texto del documento:
+ * - VERIFIED: la cita aparece en la página indicada
+ * - WRONG_PAGE: aparece, pero en otra página (foundOnPage)
+ * - NOT_FOUND: no aparece en el documento
+ */
+export type EvidenceCheck = 'VERIFIED' | 'WRONG_PAGE' | 'NOT_FOUND';
+
+export type CriterionEvidence = {
+  page: number;
+  quote: string;
+  check?: EvidenceCheck;
+  foundOnPage?: number | null;
+};
+
+// Fragmentos más cortos que esto no permiten verificar una cita
+const MIN_FRAGMENT_LENGTH = 3;
+
+/**
+ * Normaliza para comparar: minúsculas, sin tildes, comillas y guiones
+ * unificados, palabras cortadas por guion al final de línea unidas y
+ * espacios colapsados
+ */
+export function normalizeForQuote(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u201c\u201d\u00ab\u00bb\u201e]/g, '"')
+    .replace(/[\u2018\u2019\u201a\u00b4`]/g, "'")
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/(\w)-\s+(\w)/g, '$1$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Contrastar las citas de un criterio con el texto de cada página (la
+ * primera es la página 1). Las citas recortadas con "..." o "…" se
+ * verifican por fragmentos, que deben aparecer todos en la misma página.
+ */
+export function verifyEvidence(
+  evidence: CriterionEvidence[],
+  pages: string[],
+): CriterionEvidence[] {
+  const normalizedPages = pages.map(normalizeForQuote);
+
+  return evidence.map(({ page, quote }) => {
+    const fragments = normalizeForQuote(quote)
+      .replace(/^["'\s]+|["'\s]+$/g, '')
+      .split(/\.{3,}|\u2026/)
+      .map((fragment) => fragment.trim())
+      .filter((fragment) => fragment.length >= MIN_FRAGMENT_LENGTH);
+
+    const pageIndex =
+      fragments.length === 0
+        ? -1
+        : normalizedPages.findIndex((text) =>
+            fragments.every((fragment) => text.includes(fragment)),
+          );
+    const citedIndex = page - 1;
+
+    const inCitedPage =
+      fragments.length > 0 &&
+      citedIndex >= 0 &&
+      citedIndex < normalizedPages.length &&
+      fragments.every((fragment) =>
+        normalizedPages[citedIndex].includes(fragment),
+      );
+
+    if (inCitedPage) {
+      return { page, quote, check: 'VERIFIED', foundOnPage: page };
+    }
+
+    return pageIndex >= 0
+      ? { page, quote, check: 'WRONG_PAGE', foundOnPage: pageIndex + 1 }
+      : { page, quote, check: 'NOT_FOUND', foundOnPage: null };
+  });
+}
+
+/**
+ * Cantidad de citas que no se pudieron verificar en la página indicada
+ */
+export function countUnverified(
+  criteria: Array<{ evidence: CriterionEvidence[] }>,
+): number {
+  return criteria.reduce(
+    (total, criterion) =>
+      total +
+      criterion.evidence.filter((evidence) => evidence.check !== 'VERIFIED')
+        .length,
+    0,
+  );
+}
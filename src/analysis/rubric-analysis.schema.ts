@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import {
+  DEFAULT_LEVEL_NAMES,
+  RubricItemWithLevels,
+  resolveItemLevels,
+} from './rubric-levels';
+import { CriterionEvidence } from './evidence-verification';
+
+const evidenceSchema = z.object({
+  page: z
+    .number()
+    .describe(
+      'Página del documento donde está la cita, según la marca [Página N]',
+    ),
+  quote: z
+    .string()
+    .describe('Cita textual y breve del documento, copiada sin modificar'),
+});
+
+const criterionFields = {
+  criterionName: z.string().describe('Nombre del criterio evaluado'),
+  score: z.number().describe('Puntaje obtenido en este criterio'),
+  maxScore: z.number().describe('Puntaje máximo de este criterio'),
+  feedback: z.string().describe('Retroalimentación específica del criterio'),
+  evidence: z
+    .array(evidenceSchema)
+    // Una respuesta sin citas no pasa la validación y se reintenta (INVALID_RESPONSE)
+    .min(1)
+    .describe(
+      'Citas del documento que respaldan el nivel elegido (al menos una)',
+    ),
+};
+
+// Schema Zod para la respuesta estructurada del proveedor de IA
+const buildSchema = <C extends z.ZodType>(criterion: C) =>
+  z.object({
+    groupName: z.string().describe('Nombre del grupo evaluado'),
+    groupCode: z.string().describe('Código del grupo evaluado'),
+    totalScore: z.number().describe('Puntaje total obtenido'),
+    maxScore: z.number().describe('Puntaje máximo posible'),
+    percentage: z.number().describe('Porcentaje de logro (0-100)'),
+    status: z
+      .enum(['PASS', 'FAIL', 'PARTIAL'])
+      .describe('Estado de la evaluación'),
+    criteria: z.array(criterion).describe('Evaluación detallada por criterio'),
+    generalFeedback: z
+      .string()
+      .describe('Retroalimentación general del trabajo'),
+    strengths: z.array(z.string()).describe('Fortalezas identificadas'),
+    improvements: z.array(z.string()).describe('Áreas de mejora'),
+    recommendations: z
+      .array(
+        z.object({
+          priority: z
+            .number()
+            .min(1)
+            .max(3)
+            .describe('Prioridad: 1=Alta, 2=Media, 3=Baja'),
+          summary: z.string().describe('Resumen corto de la recomendación'),
+          details: z.string().describe('Detalles de la recomendación'),
+        }),
+      )
+      .describe('Recomendaciones específicas para mejorar'),
+  });
+
+// Schema genérico: rúbrica sin ítems estructurados (solo PDF), con los niveles por defecto
+export const RubricAnalysisSchema = buildSchema(
+  z.object({
+    itemOrder: z
+      .number()
+      .describe('Número de orden del criterio en la rúbrica'),
+    ...criterionFields,
+    level: z.enum(DEFAULT_LEVEL_NAMES).describe('Nivel de logro'),
+  }),
+);
+
+export type RubricAnalysisResponse = Omit<
+  z.infer<typeof RubricAnalysisSchema>,
+  'criteria'
+> & {
+  criteria: Array<{
+    itemOrder: number;
+    criterionName: string;
+    score: number;
+    maxScore: number;
+    level: string;
+    feedback: string;
+    evidence: CriterionEvidence[];
+  }>;
+};
+
+// Evidencias de una parte de un documento extenso, antes de calificarlo completo
+export const ChunkEvidenceSchema = z.object({
+  criteria: z
+    .array(
+      z.object({
+        itemOrder: z
+          .number()
+          .describe('Número de orden del criterio en la rúbrica'),
+        criterionName: z.string().describe('Nombre del criterio'),
+        findings: z
+          .string()
+          .describe(
+            'Qué aporta esta parte del documento al criterio; vacío si no aporta nada',
+          ),
+        evidence: z
+          .array(evidenceSchema)
+          .describe('Citas de esta parte que respaldan los hallazgos'),
+      }),
+    )
+    .describe('Hallazgos de esta parte para cada criterio de la rúbrica'),
+});
+
+export type ChunkEvidenceResponse = z.infer<typeof ChunkEvidenceSchema>;
+
+const itemCriterionSchema = (item: RubricItemWithLevels) =>
+  z.object({
+    itemOrder: z
+      .literal(item.itemOrder)
+      .describe(`Criterio ${item.itemOrder}: ${item.title}`),
+    ...criterionFields,
+    level: z
+      .enum(
+        resolveItemLevels(item).map((level) => level.name) as [
+          string,
+          ...string[],
+        ],
+      )
+      .describe('Nivel de desempeño elegido entre los del criterio'),
+  });
+
+type ItemCriterionSchema = ReturnType<typeof itemCriterionSchema>;
+
+/**
+ * Schema generado a partir de los ítems de la rúbrica: cada criterio solo
+ * admite los niveles definidos para su ítem (identificado por itemOrder).
+ */
+export function buildRubricAnalysisSchema(
+  rubricItems: RubricItemWithLevels[],
+): z.ZodType<RubricAnalysisResponse> {
+  if (rubricItems.length === 0) {
+    return RubricAnalysisSchema;
+  }
+
+  const criterionSchemas = rubricItems.map(itemCriterionSchema);
+
+  const criterion =
+    criterionSchemas.length === 1
+      ? criterionSchemas[0]
+      : z.union(
+          criterionSchemas as [
+            ItemCriterionSchema,
+            ItemCriterionSchema,
+            ...ItemCriterionSchema[],
+          ],
+        );
+
+  return buildSchema(criterion);
+}
@@ -0,0 +1,128 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  DEFAULT_LEVEL_NAMES,
+  RubricItemWithLevels,
+  findLevel,
+  resolveItemLevels,
+  toLevelRows,
+} from './rubric-levels';
+
+const rubricItem = (
+  maxScore: number | null,
+  levels: Array<{ levelOrder: number; name: string; points: number }> = [],
+): RubricItemWithLevels => ({
+  id: 'item-1',
+  rubricId: 'rubric-1',
+  itemOrder: 1,
+  title: 'Claridad',
+  conditions: null,
+  maxScore: maxScore === null ? null : new Prisma.Decimal(maxScore),
+  levels: levels.map((level) => ({
+    id: `level-${level.levelOrder}`,
+    rubricItemId: 'item-1',
+    levelOrder: level.levelOrder,
+    name: level.name,
+    descriptor: null,
+    points: new Prisma.Decimal(level.points),
+    createdAt: null,
+  })),
+});
+
+describe('rubric levels', () => {
+  describe('resolveItemLevels', () => {
+    it('should scale the default levels to the item max score', () => {
+      const levels = resolveItemLevels(rubricItem(5));
+
+      expect(levels.map((level) => level.name)).toEqual(DEFAULT_LEVEL_NAMES);
+      expect(levels.map((level) => level.points)).toEqual([5, 3.75, 2.5, 1.25]);
+      expect(levels.every((level) => level.id === null)).toBe(true);
+    });
+
+    it('should default to a max score of 1 when the item has none', () => {
+      expect(resolveItemLevels(rubricItem(null))[0].points).toBe(1);
+    });
+
+    it('should return the item levels sorted by levelOrder', () => {
+      const levels = resolveItemLevels(
+        rubricItem(5, [
+          { levelOrder: 2, name: 'Logrado', points: 3 },
+          { levelOrder: 1, name: 'Destacado', points: 6 },
+          { levelOrder: 3, name: 'En proceso', points: 1 },
+        ]),
+      );
+
+      expect(levels.map((level) => [level.name, level.points])).toEqual([
+        ['Destacado', 6],
+        ['Logrado', 3],
+        ['En proceso', 1],
+      ]);
+      expect(levels[0].id).toBe('level-1');
+    });
+  });
+
+  describe('findLevel', () => {
+    it('should match level names ignoring case and surrounding spaces', () => {
+      const levels = resolveItemLevels(rubricItem(4));
+
+      expect(findLevel(levels, ' bueno ')?.points).toBe(3);
+      expect(findLevel(levels, 'Excelente')).toBeUndefined();
+    });
+  });
+
+  describe('toLevelRows', () => {
+    it('should number the levels and take the highest points as max score', () => {
+      expect(
+        toLevelRows([
+          { name: ' Destacado ', descriptor: 'Sin errores', points: 6 },
+          { name: 'Logrado', points: 4 },
+        ]),
+      ).toEqual({
+        maxScore: 6,
+        rows: [
+          {
+            levelOrder: 1,
+            name: 'Destacado',
+            descriptor: 'Sin errores',
+            points: 6,
+          },
+          { levelOrder: 2, name: 'Logrado', descriptor: undefined, points: 4 },
+        ],
+      });
+    });
+
+    it('should return no rows for an empty list', () => {
+      expect(toLevelRows([])).toEqual({ maxScore: null, rows: [] });
+    });
+
+    it('should reject a single level', () => {
+      expect(() => toLevelRows([{ name: 'Único', points: 1 }])).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject levels whose points do not decrease', () => {
+      expect(() =>
+        toLevelRows([
+          { name: 'Destacado', points: 4 },
+          { name: 'Logrado', points: 6 },
+        ]),
+      ).toThrow('Los niveles deben ir del más alto al más bajo');
+      expect(() =>
+        toLevelRows([
+          { name: 'Destacado', points: 4 },
+          { name: 'Logrado', points: 4 },
+        ]),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject duplicated names ignoring case', () => {
+      expect(() =>
+        toLevelRows([
+          { name: 'Logrado', points: 2 },
+          { name: 'logrado ', points: 1 },
+        ]),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
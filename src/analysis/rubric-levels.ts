@@ -0,0 +1,126 @@
+import { BadRequestException } from '@nestjs/common';
+import { RubricItem, RubricItemLevel } from '@prisma/client';
+
+export type RubricItemWithLevels = RubricItem & { levels: RubricItemLevel[] };
+
+/**
+ * Nivel de desempeño de un criterio, propio del ítem o por defecto
+ */
+export interface PerformanceLevel {
+  id: string | null;
+  levelOrder: number;
+  name: string;
+  descriptor: string | null;
+  points: number;
+}
+
+export interface PerformanceLevelInput {
+  name: string;
+  descriptor?: string;
+  points: number;
+}
+
+// Niveles que se usan cuando el ítem no define los suyos (porcentaje del puntaje máximo)
+export const DEFAULT_LEVELS = [
+  {
+    name: 'SATISFACTORIO',
+    factor: 1,
+    descriptor: 'Cumple completamente con todos los requisitos del criterio.',
+  },
+  {
+    name: 'BUENO',
+    factor: 0.75,
+    descriptor:
+      'Cumple con la mayoría de los requisitos, con pequeñas omisiones.',
+  },
+  {
+    name: 'REGULAR',
+    factor: 0.5,
+    descriptor: 'Cumple parcialmente, falta desarrollo significativo.',
+  },
+  {
+    name: 'INSATISFACTORIO',
+    factor: 0.25,
+    descriptor: 'No cumple con los requisitos o está ausente.',
+  },
+] as const;
+
+export const DEFAULT_LEVEL_NAMES = DEFAULT_LEVELS.map((level) => level.name);
+
+/**
+ * Niveles de un ítem ordenados del más alto al más bajo (levelOrder 1 = mejor).
+ * Sin niveles propios se escalan los niveles por defecto a su puntaje máximo.
+ */
+export function resolveItemLevels(
+  item: RubricItem & { levels?: RubricItemLevel[] },
+): PerformanceLevel[] {
+  if (item.levels && item.levels.length > 0) {
+    return [...item.levels]
+      .sort((a, b) => a.levelOrder - b.levelOrder)
+      .map((level) => ({
+        id: level.id,
+        levelOrder: level.levelOrder,
+        name: level.name,
+        descriptor: level.descriptor,
+        points: Number(level.points),
+      }));
+  }
+
+  const maxScore = Number(item.maxScore ?? 1);
+
+  return DEFAULT_LEVELS.map((level, index) => ({
+    id: null,
+    levelOrder: index + 1,
+    name: level.name,
+    descriptor: level.descriptor,
+    points: Math.round(maxScore * level.factor * 100) / 100,
+  }));
+}
+
+export function findLevel(
+  levels: PerformanceLevel[],
+  name: string,
+): PerformanceLevel | undefined {
+  const normalized = name.trim().toLowerCase();
+  return levels.find((level) => level.name.toLowerCase() === normalized);
+}
+
+/**
+ * Validar los niveles enviados por el docente y convertirlos en filas.
+ * Van del más alto al más bajo, con puntajes estrictamente decrecientes: el
+ * puntaje máximo del ítem pasa a ser el del primer nivel. Una lista vacía
+ * vuelve a los niveles por defecto.
+ */
+export function toLevelRows(levels: PerformanceLevelInput[]) {
+  if (levels.length === 1) {
+    throw new BadRequestException(
+      'Un criterio con niveles propios debe tener al menos 2 niveles',
+    );
+  }
+
+  const names = new Set(levels.map((level) => level.name.trim().toLowerCase()));
+  if (names.size !== levels.length) {
+    throw new BadRequestException(
+      'Los nombres de los niveles de un criterio deben ser distintos',
+    );
+  }
+
+  const unordered = levels.findIndex(
+    (level, index) => index > 0 && level.points >= levels[index - 1].points,
+  );
+  if (unordered > 0) {
+    throw new BadRequestException(
+      `Los niveles deben ir del más alto al más bajo: "${levels[unordered].name.trim()}" debe tener menos puntos que "${levels[unordered - 1].name.trim()}"`,
+    );
+  }
+
+  return {
+    maxScore: levels.length > 0 ? levels[0].points : null,
+    rows: levels.map((level, index) => ({
+      levelOrder: index + 1,
+      name: level.name.trim(),
+      descriptor: level.descriptor,
+      points: level.points,
+    })),
+  };
+}
@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { RubricItemWithLevels } from './rubric-levels';
+import { SimulatedGradingEngine } from './simulated-grading.engine';
+
+const rubricItem = (
+  itemOrder: number,
+  title: string,
+  conditions: string | null = null,
+): RubricItemWithLevels => ({
+  id: `item-${itemOrder}`,
+  rubricId: 'rubric-1',
+  itemOrder,
+  title,
+  conditions,
+  maxScore: new Prisma.Decimal(4),
+  levels: [],
+});
+
+describe('SimulatedGradingEngine', () => {
+  let engine: SimulatedGradingEngine;
+
+  const rubricItems = [
+    rubricItem(1, 'Arquitectura', 'Describe la arquitectura del sistema'),
+    rubricItem(2, 'Pruebas', 'Incluye pruebas unitarias y cobertura'),
+  ];
+
+  const pages = [
+    'Introducción del informe.\nEl informe describe la arquitectura del sistema.',
+    `Conclusiones. ${'El equipo documentó cada decisión del diseño. '.repeat(120)}`,
+  ];
+
+  const input = {
+    groupCode: 'G1',
+    groupName: 'Grupo 1',
+    documentText: pages.join('\n\n'),
+    pages,
+    rubricItems,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SimulatedGradingEngine],
+    }).compile();
+
+    engine = module.get<SimulatedGradingEngine>(SimulatedGradingEngine);
+  });
+
+  it('should be deterministic', () => {
+    expect(engine.grade(input)).toEqual(engine.grade(input));
+  });
+
+  it('should score criteria by the coverage of their keywords', () => {
+    const result = engine.grade(input);
+    const [architecture, tests] = result.criteria;
+
+    expect(architecture).toMatchObject({
+      itemOrder: 1,
+      criterionName: 'Arquitectura',
+      maxScore: 4,
+      level: 'SATISFACTORIO',
+      score: 4,
+    });
+    expect(tests.score).toBeLessThan(architecture.score);
+    expect(tests.feedback).toContain('Conceptos no encontrados');
+    expect(result.totalScore).toBe(architecture.score + tests.score);
+    expect(result.maxScore).toBe(8);
+  });
+
+  it('should cite the first sentence with a covered keyword and its page', () => {
+    const [architecture, tests] = engine.grade(input).criteria;
+
+    expect(architecture.evidence).toEqual([
+      {
+        page: 1,
+        quote: 'El informe describe la arquitectura del sistema.',
+      },
+    ]);
+    expect(tests.evidence).toEqual([]);
+  });
+
+  it('should recommend improving the weak criteria', () => {
+    const result = engine.grade(input);
+
+    expect(result.strengths).toHaveLength(1);
+    expect(result.improvements).toEqual([expect.stringContaining('Pruebas')]);
+    expect(result.recommendations[0].summary).toBe(
+      'Reforzar el criterio "Pruebas"',
+    );
+  });
+
+  it('should give the lowest level to an empty document', () => {
+    const result = engine.grade({ ...input, documentText: '', pages: [''] });
+
+    expect(result.criteria.map((criterion) => criterion.level)).toEqual([
+      'INSATISFACTORIO',
+      'INSATISFACTORIO',
+    ]);
+    expect(result.totalScore).toBe(0);
+    expect(result.status).toBe('FAIL');
+  });
+
+  it('should grade by length when the rubric has no items', () => {
+    const result = engine.grade({ ...input, rubricItems: [] });
+
+    expect(result.criteria).toEqual([]);
+    expect(result.maxScore).toBe(20);
+    expect(result.totalScore).toBeGreaterThan(0);
+    expect(result.totalScore).toBeLessThanOrEqual(20);
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RubricAnalysisResponse } from './rubric-analysis.schema';
+import { RubricItemWithLevels, resolveItemLevels } from './rubric-levels';
+import { CriterionEvidence } from './evidence-verification';
+
+export const SIMULATED_ENGINE = 'SIMULATED';
+
+interface SimulatedGradingInput {
+  groupCode: string;
+  groupName: string;
+  documentText: string;
+  // Texto de cada página, para citar las evidencias
+  pages: string[];
+  rubricItems: RubricItemWithLevels[];
+}
+
+// Palabras frecuentes (4+ letras) que no aportan al cruce entre criterios y documento
+const STOPWORDS = new Set([
+  'para',
+  'como',
+  'unos',
+  'unas',
+  'este',
+  'esta',
+  'estos',
+  'estas',
+  'debe',
+  'deben',
+  'entre',
+  'sobre',
+  'cada',
+  'todo',
+  'toda',
+  'todos',
+  'todas',
+  'forma',
+  'manera',
+  'bien',
+  'with',
+]);
+
+// Margen bajo la fracción de puntaje de un nivel con el que aún se alcanza ese nivel
+const LEVEL_TOLERANCE = 0.15;
+
+// Cantidad de palabras a partir de la cual el largo del documento no suma más
+const TARGET_WORD_COUNT = 800;
+const DEFAULT_MAX_SCORE = 20;
+
+// Largo máximo de una cita tomada del documento
+const MAX_QUOTE_LENGTH = 240;
+
+/**
+ * Motor de calificación offline y determinístico.
+ * Califica cada criterio según la cobertura de sus palabras clave en el
+ * documento y el largo del mismo; la misma entrada siempre produce el mismo
+ * resultado, sin llamar a ningún proveedor de IA.
+ */
+@Injectable()
+export class SimulatedGradingEngine {
+  private readonly logger = new Logger(SimulatedGradingEngine.name);
+
+  grade({
+    groupCode,
+    groupName,
+    documentText,
+    pages,
+    rubricItems,
+  }: SimulatedGradingInput): RubricAnalysisResponse {
+    this.logger.log(`Calificación simulada para grupo: ${groupCode}`);
+
+    const documentTokens = new Set(this.tokenize(documentText));
+    const wordCount = documentText.split(/\s+/).filter(Boolean).length;
+    const lengthFactor = Math.min(1, wordCount / TARGET_WORD_COUNT);
+
+    const criteria = rubricItems.map((item) => {
+      const levels = resolveItemLevels(item);
+      const maxScore = Math.max(...levels.map((l) => l.points));
+      const keywords = [
+        ...new Set(this.tokenize(`${item.title} ${item.conditions ?? ''}`)),
+      ];
+      const found = keywords.filter((keyword) => documentTokens.has(keyword));
+      const missing = keywords.filter(
+        (keyword) => !documentTokens.has(keyword),
+      );
+      const coverage =
+        keywords.length > 0 ? found.length / keywords.length : 0.5;
+      const ratio = wordCount === 0 ? 0 : 0.7 * coverage + 0.3 * lengthFactor;
+      // Primer nivel (de mejor a peor) cuya fracción del máximo alcanza el ratio
+      const level =
+        levels.find(
+          (l) => maxScore > 0 && ratio >= l.points / maxScore - LEVEL_TOLERANCE,
+        ) ?? levels[levels.length - 1];
+      const lowest = levels[levels.length - 1];
+
+      return {
+        itemOrder: item.itemOrder,
+        criterionName: item.title,
+        score: wordCount === 0 ? 0 : level.points,
+        maxScore,
+        level: wordCount === 0 ? lowest.name : level.name,
+        feedback: this.buildFeedback(found, missing, coverage),
+        evidence: this.findEvidence(pages, found),
+      };
+    });
+
+    const maxScore =
+      criteria.length > 0
+        ? this.round(criteria.reduce((sum, c) => sum + c.maxScore, 0))
+        : DEFAULT_MAX_SCORE;
+    const totalScore =
+      criteria.length > 0
+        ? this.round(criteria.reduce((sum, c) => sum + c.score, 0))
+        : this.round(DEFAULT_MAX_SCORE * lengthFactor);
+    const percentage =
+      maxScore > 0 ? this.round((totalScore / maxScore) * 100) : 0;
+
+    // Fuertes: al menos el 75% del puntaje del criterio (SATISFACTORIO/BUENO por defecto)
+    const scoreRatio = (c: { score: number; maxScore: number }) =>
+      c.maxScore > 0 ? c.score / c.maxScore : 0;
+    const strong = criteria.filter((c) => scoreRatio(c) >= 0.75);
+    const weak = criteria.filter((c) => scoreRatio(c) < 0.75);
+
+    return {
+      groupName,
+      groupCode,
+      totalScore,
+      maxScore,
+      percentage,
+      status: percentage >= 70 ? 'PASS' : percentage >= 50 ? 'PARTIAL' : 'FAIL',
+      criteria,
+      generalFeedback:
+        `[Evaluación simulada] El documento tiene ${wordCount} palabras y obtiene ` +
+        `${totalScore}/${maxScore} puntos (${percentage}%) según la cobertura de los criterios de la rúbrica.`,
+      strengths: strong.map(
+        (c) =>
+          `${c.criterionName}: cubre los conceptos esperados (${c.level}).`,
+      ),
+      improvements: weak.map(
+        (c) => `${c.criterionName}: desarrollo insuficiente (${c.level}).`,
+      ),
+      recommendations: weak.map((c) => ({
+        priority: scoreRatio(c) < 0.5 ? 1 : 2,
+        summary: `Reforzar el criterio "${c.criterionName}"`.slice(0, 240),
+        details: c.feedback,
+      })),
+    };
+  }
+
+  private buildFeedback(found: string[], missing: string[], coverage: number) {
+    const parts = [
+      `Cobertura de conceptos del criterio: ${Math.round(coverage * 100)}%.`,
+    ];
+
+    if (found.length > 0) {
+      parts.push(`Conceptos presentes: ${found.join(', ')}.`);
+    }
+    if (missing.length > 0) {
+      parts.push(`Conceptos no encontrados: ${missing.join(', ')}.`);
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Primera oración del documento que contiene alguno de los conceptos
+   * encontrados, con su página
+   */
+  private findEvidence(
+    pages: string[],
+    keywords: string[],
+  ): CriterionEvidence[] {
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    for (const [index, page] of pages.entries()) {
+      const sentence = page
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((candidate) => candidate.replace(/\s+/g, ' ').trim())
+        .find((candidate) =>
+          this.tokenize(candidate).some((word) => keywords.includes(word)),
+        );
+
+      if (sentence) {
+        return [
+          { page: index + 1, quote: sentence.slice(0, MAX_QUOTE_LENGTH) },
+        ];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Normaliza (minúsculas, sin tildes) y separa en palabras relevantes
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 4 && !STOPWORDS.has(word));
+  }
+
+  private round(value: number) {
+    return Math.round(value * 100) / 100;
+  }
+}
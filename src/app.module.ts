@@ -8,6 +8,7 @@ import { PdfModule } from './pdf/pdf.module';
 import { S3PdfModule } from './s3-pdf/s3-pdf.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { EvaluationsModule } from './evaluation/evaluations.module';
+import { StorageModule } from './storage/storage.module';
 
 @Module({
   imports: [
@@ -20,6 +21,7 @@ import { EvaluationsModule } from './evaluation/evaluations.module';
     GeminiModule,
     PdfModule,
     S3PdfModule,
+    StorageModule,
     EvaluationsModule
   ],
   controllers: [AppController],
@@ -0,0 +1,44 @@
+// common/guards/admin-token.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Protege los endpoints de administración: el header x-admin-token debe
+ * coincidir con ADMIN_API_TOKEN. Sin ADMIN_API_TOKEN los endpoints quedan
+ * deshabilitados.
+ */
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_TOKEN');
+
+    if (!expected) {
+      throw new ForbiddenException(
+        'ADMIN_API_TOKEN no está configurado: los endpoints de administración están deshabilitados',
+      );
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const received = Buffer.from(
+      String(request.headers['x-admin-token'] ?? ''),
+    );
+
+    if (
+      received.length !== Buffer.byteLength(expected) ||
+      !timingSafeEqual(received, Buffer.from(expected))
+    ) {
+      throw new ForbiddenException('Token de administración inválido');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  Type,
+  mixin,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
+
+/**
+ * FileInterceptor con el tamaño máximo tomado de la configuración (en MB).
+ * Multer corta la subida al superar el límite (413) en lugar de cargar el
+ * archivo completo en memoria antes de que el servicio lo valide.
+ */
+export function LimitedFileInterceptor(
+  fieldName: string,
+  maxSizeMbKey: string,
+  defaultMaxSizeMb: number,
+  fileFilter?: MulterOptions['fileFilter'],
+): Type<NestInterceptor> {
+  @Injectable()
+  class MixinInterceptor implements NestInterceptor {
+    private readonly interceptor: NestInterceptor;
+
+    constructor(configService: ConfigService) {
+      const maxSizeMb = Number(
+        configService.get(maxSizeMbKey, defaultMaxSizeMb),
+      );
+      const Interceptor = FileInterceptor(fieldName, {
+        limits: { fileSize: maxSizeMb * 1024 * 1024 },
+        fileFilter,
+      });
+
+      this.interceptor = new Interceptor();
+    }
+
+    intercept(context: ExecutionContext, next: CallHandler) {
+      return this.interceptor.intercept(context, next);
+    }
+  }
+
+  return mixin(MixinInterceptor);
+}
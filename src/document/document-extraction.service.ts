@@ -0,0 +1,359 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import mammoth from 'mammoth';
+import { extname } from 'path';
+import { PDFParse } from 'pdf-parse';
+import { GeminiService } from '../gemini/gemini.service';
+import type { LlmUsageContext } from '../llm/llm-provider.interface';
+import { S3PdfService } from '../s3-pdf/s3-pdf.service';
+import { ExtractedTextCacheService } from './extracted-text-cache.service';
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'text' | 'image';
+
+export interface DetectedDocument {
+  kind: DocumentKind;
+  mimeType: string;
+}
+
+export interface ExtractedDocument extends DetectedDocument {
+  text: string;
+  // Texto de cada página (la primera es la página 1); los formatos sin
+  // páginas (DOCX, Markdown, texto, imágenes) tienen una sola
+  pages: string[];
+  pageCount?: number;
+  // Páginas (desde 1) cuyo texto se obtuvo por OCR
+  ocrPages?: number[];
+  // Páginas escaneadas que no se pudieron transcribir
+  ocrFailedPages?: number[];
+  // Páginas escaneadas sin transcribir por superar PDF_OCR_MAX_PAGES
+  ocrSkippedPages?: number[];
+}
+
+// Resultado de cada extractor; sin pages el documento es una sola página
+type ExtractedContent = Omit<
+  ExtractedDocument,
+  keyof DetectedDocument | 'pages'
+> & { pages?: string[] };
+
+export interface ExtractedFile extends ExtractedDocument {
+  // sha256 del contenido del archivo
+  checksum: string;
+  // El texto salió de la caché, sin descargar ni parsear el archivo
+  cached: boolean;
+}
+
+// Magic bytes de los formatos de imagen que acepta Gemini
+const IMAGE_SIGNATURES: Array<{
+  mimeType: string;
+  matches: (b: Buffer) => boolean;
+}> = [
+  {
+    mimeType: 'image/png',
+    matches: (b) =>
+      b
+        .subarray(0, 8)
+        .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/jpeg',
+    matches: (b) => b.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  {
+    mimeType: 'image/webp',
+    matches: (b) =>
+      b.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      b.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  {
+    mimeType: 'image/heic',
+    matches: (b) =>
+      b.subarray(4, 8).toString('latin1') === 'ftyp' &&
+      ['heic', 'heix', 'mif1'].includes(b.subarray(8, 12).toString('latin1')),
+  },
+];
+
+const TEXT_EXTENSIONS: Record<
+  string,
+  { kind: DocumentKind; mimeType: string }
+> = {
+  '.md': { kind: 'markdown', mimeType: 'text/markdown' },
+  '.markdown': { kind: 'markdown', mimeType: 'text/markdown' },
+  '.txt': { kind: 'text', mimeType: 'text/plain' },
+};
+
+const IMAGE_TRANSCRIPTION_PROMPT = `Transcribe fielmente todo el texto de esta imagen de un trabajo académico, incluido el texto manuscrito.
+- Respeta el orden de lectura, los títulos y las listas.
+- Transcribe fórmulas y tablas en texto plano o Markdown.
+- Describe brevemente entre corchetes los diagramas o figuras, por ejemplo [Diagrama: ciclo del agua].
+- Marca como [ilegible] las palabras que no puedas leer.
+- No corrijas, resumas ni comentes el contenido.
+Responde solo con la transcripción.`;
+
+// Ancho en píxeles al renderizar una página escaneada para OCR
+const OCR_RENDER_WIDTH = 1600;
+
+/**
+ * Extracción de texto de las entregas según su tipo real de contenido:
+ * PDF (PDFParse, con OCR de las páginas escaneadas), DOCX (mammoth),
+ * Markdown/texto plano e imágenes (transcritas con Gemini). El tipo se
+ * detecta por los magic bytes; la extensión solo se usa para distinguir
+ * Markdown de texto plano.
+ */
+@Injectable()
+export class DocumentExtractionService {
+  private readonly logger = new Logger(DocumentExtractionService.name);
+  private readonly ocrEnabled: boolean;
+  private readonly ocrMinCharsPerPage: number;
+  private readonly ocrMaxPages: number;
+
+  constructor(
+    private readonly s3PdfService: S3PdfService,
+    private readonly geminiService: GeminiService,
+    private readonly textCache: ExtractedTextCacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ocrEnabled =
+      this.configService.get<string>('PDF_OCR_ENABLED', 'true') !== 'false';
+    this.ocrMinCharsPerPage = Number(
+      this.configService.get('PDF_OCR_MIN_CHARS_PER_PAGE', 50),
+    );
+    this.ocrMaxPages = Number(this.configService.get('PDF_OCR_MAX_PAGES', 30));
+  }
+
+  /**
+   * Detectar el tipo de documento; rechaza los formatos no soportados
+   */
+  detect(buffer: Buffer, fileName?: string | null): DetectedDocument {
+    if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+      return { kind: 'pdf', mimeType: 'application/pdf' };
+    }
+
+    // DOCX es un ZIP cuyo contenido principal está en word/document.xml
+    if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+      if (buffer.includes('word/document.xml')) {
+        return {
+          kind: 'docx',
+          mimeType:
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        };
+      }
+      throw new BadRequestException(
+        'Archivo comprimido no soportado: sube un PDF, DOCX, Markdown, texto o imagen',
+      );
+    }
+
+    const image = IMAGE_SIGNATURES.find((signature) =>
+      signature.matches(buffer),
+    );
+    if (image) {
+      return { kind: 'image', mimeType: image.mimeType };
+    }
+
+    if (this.isUtf8Text(buffer)) {
+      return (
+        TEXT_EXTENSIONS[extname(fileName ?? '').toLowerCase()] ?? {
+          kind: 'text',
+          mimeType: 'text/plain',
+        }
+      );
+    }
+
+    throw new BadRequestException(
+      'Formato no soportado: sube un PDF, DOCX, Markdown, texto o imagen (PNG, JPEG, WEBP, HEIC)',
+    );
+  }
+
+  /**
+   * Extraer el texto de un documento en memoria
+   * @param usage - A quién se atribuye el consumo del OCR con Gemini
+   */
+  async extract(
+    buffer: Buffer,
+    fileName?: string | null,
+    usage?: LlmUsageContext,
+  ): Promise<ExtractedDocument> {
+    const detected = this.detect(buffer, fileName);
+
+    this.logger.log(
+      `Extrayendo texto de ${fileName ?? 'documento'} (${detected.kind}, ${buffer.length} bytes)`,
+    );
+
+    const content = await this.extractContent(buffer, detected, {
+      ...usage,
+      operation: 'ocr',
+    });
+
+    return { ...detected, pages: [content.text], ...content };
+  }
+
+  /**
+   * Descargar un archivo desde S3 y extraer su texto. Con el checksum ya
+   * conocido (entregas, rúbricas) el texto guardado se usa sin descargar el
+   * archivo; si no, se busca en la caché después de descargarlo.
+   */
+  async extractFromUrl(
+    fileUrl: string,
+    fileName?: string | null,
+    checksum?: string | null,
+    usage?: LlmUsageContext,
+  ): Promise<ExtractedFile> {
+    const known = checksum ? await this.textCache.get(checksum) : null;
+    if (known) {
+      return { ...known, checksum: checksum!, cached: true };
+    }
+
+    const buffer = await this.s3PdfService.downloadFileFromS3Url(fileUrl);
+    const contentChecksum = createHash('sha256').update(buffer).digest('hex');
+
+    const cached =
+      contentChecksum !== checksum
+        ? await this.textCache.get(contentChecksum)
+        : null;
+    if (cached) {
+      return { ...cached, checksum: contentChecksum, cached: true };
+    }
+
+    const document = await this.extract(buffer, fileName, usage);
+    await this.textCache.save(contentChecksum, document, buffer.length);
+
+    return { ...document, checksum: contentChecksum, cached: false };
+  }
+
+  private async extractContent(
+    buffer: Buffer,
+    { kind, mimeType }: DetectedDocument,
+    usage: LlmUsageContext,
+  ): Promise<ExtractedContent> {
+    switch (kind) {
+      case 'pdf':
+        return this.extractPdf(buffer, usage);
+
+      case 'docx': {
+        const result = await mammoth.extractRawText({ buffer });
+        return { text: result.value };
+      }
+
+      case 'image':
+        return {
+          text: await this.geminiService.analyzeImage(
+            IMAGE_TRANSCRIPTION_PROMPT,
+            buffer.toString('base64'),
+            mimeType,
+            usage,
+          ),
+        };
+
+      case 'markdown':
+      case 'text':
+        return { text: buffer.toString('utf8').replace(/^\uFEFF/, '') };
+    }
+  }
+
+  /**
+   * Texto de un PDF por página. Las páginas con muy poco texto (escaneadas)
+   * se renderizan como imagen y se transcriben con Gemini; las que superan
+   * PDF_OCR_MAX_PAGES quedan en ocrSkippedPages con su texto original.
+   */
+  private async extractPdf(buffer: Buffer, usage: LlmUsageContext) {
+    const parser = new PDFParse({ data: buffer });
+
+    try {
+      const result = await parser.getText();
+      const pageTexts = new Map(
+        result.pages.map((page) => [page.num, page.text]),
+      );
+
+      const scannedPages = result.pages
+        .filter(
+          (page) =>
+            page.text.replace(/\s+/g, '').length < this.ocrMinCharsPerPage,
+        )
+        .map((page) => page.num);
+
+      if (!this.ocrEnabled || scannedPages.length === 0) {
+        return {
+          text: result.text,
+          pages: result.pages.map((page) => page.text),
+          pageCount: result.total,
+        };
+      }
+
+      const ocrSkippedPages = scannedPages.slice(this.ocrMaxPages);
+
+      if (ocrSkippedPages.length > 0) {
+        this.logger.warn(
+          `${scannedPages.length} páginas sin texto; solo se aplica OCR a las primeras ${this.ocrMaxPages}`,
+        );
+      }
+
+      const ocrPages: number[] = [];
+      const ocrFailedPages: number[] = [];
+
+      // De a una página para no tener todas las imágenes en memoria
+      for (const pageNumber of scannedPages.slice(0, this.ocrMaxPages)) {
+        try {
+          const screenshot = await parser.getScreenshot({
+            partial: [pageNumber],
+            desiredWidth: OCR_RENDER_WIDTH,
+            imageBuffer: true,
+            imageDataUrl: false,
+          });
+
+          const transcription = await this.geminiService.analyzeImage(
+            IMAGE_TRANSCRIPTION_PROMPT,
+            Buffer.from(screenshot.pages[0].data).toString('base64'),
+            'image/png',
+            usage,
+          );
+
+          pageTexts.set(pageNumber, transcription);
+          ocrPages.push(pageNumber);
+        } catch (error) {
+          this.logger.warn(
+            `No se pudo aplicar OCR a la página ${pageNumber}: ${(error as Error).message}`,
+          );
+          ocrFailedPages.push(pageNumber);
+        }
+      }
+
+      this.logger.log(
+        `OCR aplicado a ${ocrPages.length} de ${result.total} páginas`,
+      );
+
+      const pages = result.pages.map((page) => pageTexts.get(page.num) ?? '');
+
+      return {
+        text: pages.join('\n\n'),
+        pages,
+        pageCount: result.total,
+        ocrPages,
+        ocrFailedPages,
+        ocrSkippedPages,
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /**
+   * Texto UTF-8 válido y sin bytes nulos (los binarios casi siempre los tienen)
+   */
+  private isUtf8Text(buffer: Buffer) {
+    const sample = buffer.subarray(0, 64 * 1024);
+
+    if (sample.length === 0 || sample.includes(0)) {
+      return false;
+    }
+
+    try {
+      // Un carácter multibyte cortado al final de la muestra no invalida el archivo
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, {
+        stream: sample.length < buffer.length,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DocumentExtractionService } from './document-extraction.service';
+import { ExtractedTextCacheService } from './extracted-text-cache.service';
+import { S3PdfModule } from '../s3-pdf/s3-pdf.module';
+import { GeminiModule } from '../gemini/gemini.module';
+
+@Module({
+  imports: [S3PdfModule, GeminiModule],
+  providers: [DocumentExtractionService, ExtractedTextCacheService],
+  exports: [DocumentExtractionService, ExtractedTextCacheService],
+})
+export class DocumentModule {}
@@ -0,0 +1,187 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import type { ExtractedDocument } from './document-extraction.service';
+import {
+  EXTRACTED_TEXT_VERSION,
+  ExtractedTextCacheService,
+} from './extracted-text-cache.service';
+
+describe('ExtractedTextCacheService', () => {
+  let cache: ExtractedTextCacheService;
+  let config: Record<string, string>;
+
+  const checksum = 'a'.repeat(64);
+
+  const prisma = {
+    extractedText: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const document: ExtractedDocument = {
+    kind: 'pdf',
+    mimeType: 'application/pdf',
+    text: 'Página uno\nPágina dos',
+    pages: ['Página uno', 'Página dos'],
+    pageCount: 2,
+    ocrPages: [2],
+  };
+
+  const entry = (overrides: Record<string, unknown> = {}) => ({
+    id: 'text-1',
+    checksum,
+    version: EXTRACTED_TEXT_VERSION,
+    kind: 'pdf',
+    mimeType: 'application/pdf',
+    text: document.text,
+    pages: document.pages,
+    pageCount: 2,
+    meta: { ocrPages: [2] },
+    ...overrides,
+  });
+
+  const createCache = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExtractedTextCacheService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              config[key] ?? defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<ExtractedTextCacheService>(ExtractedTextCacheService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    config = {};
+    prisma.extractedText.update.mockResolvedValue({});
+    prisma.extractedText.upsert.mockResolvedValue({});
+
+    cache = await createCache();
+  });
+
+  describe('get', () => {
+    it('should return the stored text and count the hit', async () => {
+      prisma.extractedText.findUnique.mockResolvedValue(entry());
+
+      const cached = await cache.get(checksum);
+
+      expect(cached).toEqual({
+        kind: 'pdf',
+        mimeType: 'application/pdf',
+        text: document.text,
+        pages: document.pages,
+        pageCount: 2,
+        ocrPages: [2],
+      });
+      expect(prisma.extractedText.update).toHaveBeenCalledWith({
+        where: { id: 'text-1' },
+        data: { hits: { increment: 1 }, lastUsedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('should ignore text extracted with another version', async () => {
+      prisma.extractedText.findUnique.mockResolvedValue(
+        entry({ version: EXTRACTED_TEXT_VERSION - 1 }),
+      );
+
+      expect(await cache.get(checksum)).toBeNull();
+      expect(prisma.extractedText.update).not.toHaveBeenCalled();
+    });
+
+    it('should use the text when counting the hit fails', async () => {
+      prisma.extractedText.findUnique.mockResolvedValue(
+        entry({ pages: [], meta: null }),
+      );
+      prisma.extractedText.update.mockRejectedValue(new Error('timeout'));
+
+      const cached = await cache.get(checksum);
+
+      expect(cached?.pages).toEqual([document.text]);
+    });
+
+    it('should not read the cache when DOCUMENT_TEXT_CACHE_ENABLED is false', async () => {
+      config.DOCUMENT_TEXT_CACHE_ENABLED = 'false';
+      cache = await createCache();
+
+      expect(await cache.get(checksum)).toBeNull();
+      expect(prisma.extractedText.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('save', () => {
+    it('should store the text with the current version', async () => {
+      await cache.save(checksum, document, 2048);
+
+      expect(prisma.extractedText.upsert).toHaveBeenCalledWith({
+        where: { checksum },
+        create: expect.objectContaining({
+          checksum,
+          version: EXTRACTED_TEXT_VERSION,
+          sizeBytes: 2048,
+          meta: { ocrPages: [2] },
+        }) as object,
+        update: expect.objectContaining({
+          version: EXTRACTED_TEXT_VERSION,
+          hits: 0,
+          lastUsedAt: null,
+        }) as object,
+      });
+    });
+
+    it('should store no metadata for documents without OCR', async () => {
+      await cache.save(checksum, { ...document, ocrPages: undefined }, 2048);
+
+      expect(prisma.extractedText.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ meta: Prisma.DbNull }) as object,
+        }),
+      );
+    });
+
+    it('should not store documents with pages left without OCR', async () => {
+      await cache.save(checksum, { ...document, ocrFailedPages: [3] }, 2048);
+      await cache.save(checksum, { ...document, ocrSkippedPages: [4] }, 2048);
+
+      expect(prisma.extractedText.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the extraction when saving fails', async () => {
+      prisma.extractedText.upsert.mockRejectedValue(new Error('disco lleno'));
+
+      await expect(
+        cache.save(checksum, document, 2048),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should report whether the text was stored', async () => {
+      prisma.extractedText.deleteMany.mockResolvedValueOnce({ count: 1 });
+      prisma.extractedText.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+      expect(await cache.invalidate(checksum)).toEqual({
+        checksum,
+        invalidated: true,
+      });
+      expect(await cache.invalidate(checksum)).toEqual({
+        checksum,
+        invalidated: false,
+      });
+    });
+  });
+});
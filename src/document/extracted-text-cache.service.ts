@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import type {
+  DocumentKind,
+  ExtractedDocument,
+} from './document-extraction.service';
+
+// Subirla cuando cambie la forma de extraer el texto: las entradas con otra
+// versión se ignoran y se vuelven a extraer
+export const EXTRACTED_TEXT_VERSION = 2;
+
+interface CachedMeta {
+  ocrPages?: number[];
+}
+
+/**
+ * Caché del texto extraído de los documentos, indexada por el sha256 del
+ * contenido. Un mismo archivo (la rúbrica, o una entrega re-analizada) se
+ * descarga y se parsea una sola vez.
+ */
+@Injectable()
+export class ExtractedTextCacheService {
+  private readonly logger = new Logger(ExtractedTextCacheService.name);
+  private readonly enabled: boolean;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('DOCUMENT_TEXT_CACHE_ENABLED', 'true') !==
+      'false';
+  }
+
+  async get(checksum: string): Promise<ExtractedDocument | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const entry = await this.prisma.extractedText.findUnique({
+      where: { checksum },
+    });
+
+    if (!entry || entry.version !== EXTRACTED_TEXT_VERSION) {
+      return null;
+    }
+
+    // Solo estadística: un fallo al contarlo no debe impedir usar el texto
+    this.prisma.extractedText
+      .update({
+        where: { id: entry.id },
+        data: { hits: { increment: 1 }, lastUsedAt: new Date() },
+      })
+      .catch((error: Error) =>
+        this.logger.warn(
+          `No se pudo registrar el uso del texto ${checksum.slice(0, 12)}…: ${error.message}`,
+        ),
+      );
+
+    const meta = entry.meta as CachedMeta | null;
+
+    return {
+      kind: entry.kind as DocumentKind,
+      mimeType: entry.mimeType,
+      text: entry.text,
+      pages: entry.pages.length > 0 ? entry.pages : [entry.text],
+      pageCount: entry.pageCount ?? undefined,
+      ocrPages: meta?.ocrPages,
+    };
+  }
+
+  /**
+   * Guardar el texto extraído. No se guardan los documentos con páginas cuyo
+   * OCR falló o se omitió (PDF_OCR_MAX_PAGES), para reintentarlas en la
+   * próxima extracción.
+   */
+  async save(checksum: string, document: ExtractedDocument, sizeBytes: number) {
+    if (
+      !this.enabled ||
+      document.ocrFailedPages?.length ||
+      document.ocrSkippedPages?.length
+    ) {
+      return;
+    }
+
+    const data = {
+      version: EXTRACTED_TEXT_VERSION,
+      kind: document.kind,
+      mimeType: document.mimeType,
+      text: document.text,
+      pages: document.pages,
+      pageCount: document.pageCount ?? null,
+      sizeBytes,
+      meta: document.ocrPages?.length
+        ? ({ ocrPages: document.ocrPages } satisfies CachedMeta)
+        : Prisma.DbNull,
+    };
+
+    try {
+      await this.prisma.extractedText.upsert({
+        where: { checksum },
+        create: { checksum, ...data },
+        update: { ...data, hits: 0, createdAt: new Date(), lastUsedAt: null },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo guardar el texto extraído ${checksum.slice(0, 12)}…: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Descartar el texto guardado de un documento; la próxima extracción
+   * vuelve a descargarlo y parsearlo
+   */
+  async invalidate(checksum: string) {
+    const { count } = await this.prisma.extractedText.deleteMany({
+      where: { checksum },
+    });
+
+    this.logger.log(
+      `Texto extraído ${checksum.slice(0, 12)}… ${count ? 'descartado' : 'no estaba en caché'}`,
+    );
+
+    return { checksum, invalidated: count > 0 };
+  }
+}
@@ -6,10 +6,57 @@ import {
   IsNumber, 
   IsNotEmpty, 
   ValidateNested, 
-  IsUUID 
+  IsUUID,
+  IsIn,
+  IsEnum,
+  Min,
+  ArrayNotEmpty,
+  IsBoolean,
+  MaxLength,
+  IsInt,
 } from 'class-validator';
-import { Type } from 'class-transformer';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import {
+  result_status,
+  review_status,
+  submission_status,
+} from '@prisma/client';
+import { LLM_PROVIDERS } from '../../llm/llm-provider.interface';
+
+export class RubricItemLevelDto {
+  @ApiProperty({
+    description: 'Nombre del nivel de desempeño',
+    example: 'Excelente',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Descriptor: qué debe cumplir el trabajo para alcanzar este nivel',
+    example: 'Explica todos los conceptos con ejemplos propios',
+  })
+  @IsString()
+  @IsOptional()
+  descriptor?: string;
+
+  @ApiProperty({
+    description: 'Puntaje que otorga el nivel',
+    example: 5,
+  })
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  points: number;
+}
 
 export class CreateRubricItemDto {
   @ApiProperty({
@@ -45,6 +92,81 @@ export class CreateRubricItemDto {
   @IsOptional()
   @Type(() => Number)
   maxScore?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Niveles de desempeño del más alto al más bajo, con puntajes estrictamente decrecientes. Si se indican, el puntaje máximo del ítem es el del primer nivel; sin niveles se usan SATISFACTORIO/BUENO/REGULAR/INSATISFACTORIO (100/75/50/25%). Al actualizar, una lista vacía vuelve a los niveles por defecto',
+    type: [RubricItemLevelDto],
+    example: [
+      { name: 'Excelente', descriptor: 'Cumple todo', points: 5 },
+      { name: 'Suficiente', descriptor: 'Cumple lo esencial', points: 3 },
+      { name: 'Insuficiente', descriptor: 'No cumple', points: 0 },
+    ],
+  })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RubricItemLevelDto)
+  levels?: RubricItemLevelDto[];
+}
+
+export class UpdateRubricItemDto extends PartialType(
+  OmitType(CreateRubricItemDto, ['itemOrder'] as const),
+) {}
+
+export class ReorderRubricItemsDto {
+  @ApiProperty({
+    description:
+      'IDs de todos los ítems de la rúbrica en el nuevo orden (el primero queda con itemOrder 1)',
+    type: [String],
+    example: ['uuid-item-3', 'uuid-item-1', 'uuid-item-2'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  itemIds: string[];
+}
+
+export class ExtractRubricItemsDto {
+  @ApiPropertyOptional({
+    description:
+      'Proveedor de IA para la extracción (por defecto el de la evaluación)',
+    enum: LLM_PROVIDERS,
+    example: 'openai',
+  })
+  @IsIn(LLM_PROVIDERS)
+  @IsOptional()
+  provider?: string;
+
+  @ApiPropertyOptional({
+    description: 'Modelo de IA para la extracción',
+    example: 'gpt-4.1-nano',
+  })
+  @IsString()
+  @IsOptional()
+  model?: string;
+}
+
+export class ConfirmRubricItemsDto {
+  @ApiProperty({
+    description:
+      'Ítems propuestos, revisados por el docente. Se guardan en el orden de itemOrder',
+    type: [CreateRubricItemDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CreateRubricItemDto)
+  items: CreateRubricItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Reemplazar los ítems existentes en lugar de agregarlos al final',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  replaceExisting?: boolean;
 }
 
 export class CreateEvaluationDto {
@@ -81,6 +203,37 @@ export class CreateEvaluationDto {
   @IsOptional()
   ownerId?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Proveedor de IA usado para calificar (por defecto LLM_DEFAULT_PROVIDER)',
+    enum: LLM_PROVIDERS,
+    example: 'openai',
+  })
+  @IsIn(LLM_PROVIDERS)
+  @IsOptional()
+  llmProvider?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Modelo de IA usado para calificar (por defecto el del proveedor)',
+    example: 'gpt-4.1-nano',
+  })
+  @IsString()
+  @IsOptional()
+  llmModel?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Máximo de tokens por llamada al modelo al calificar (por defecto ANALYSIS_REQUEST_TOKEN_BUDGET). Los documentos que no caben se califican por partes',
+    example: 100000,
+    minimum: 8000,
+  })
+  @IsInt()
+  @Min(8000)
+  @IsOptional()
+  @Type(() => Number)
+  tokenBudget?: number;
+
   @ApiPropertyOptional({
     description: 'Items de la rúbrica (criterios de evaluación)',
     type: [CreateRubricItemDto],
@@ -94,6 +247,19 @@ export class CreateEvaluationDto {
   @ValidateNested({ each: true })
   @Type(() => CreateRubricItemDto)
   rubricItems?: CreateRubricItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Si se sube un PDF sin rubricItems, proponer los ítems extraídos del PDF con IA (no se guardan hasta confirmarlos)',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.extractRubricItems === true || obj.extractRubricItems === 'true',
+  )
+  extractRubricItems?: boolean;
 }
 
 export class UpdateEvaluationDto {
@@ -122,6 +288,37 @@ export class UpdateEvaluationDto {
   @Type(() => Number)
   totalGroups?: number;
 
+  @ApiPropertyOptional({
+    description:
+      'Proveedor de IA usado para calificar (por defecto LLM_DEFAULT_PROVIDER)',
+    enum: LLM_PROVIDERS,
+    example: 'openai',
+  })
+  @IsIn(LLM_PROVIDERS)
+  @IsOptional()
+  llmProvider?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Modelo de IA usado para calificar (por defecto el del proveedor)',
+    example: 'gpt-4.1-nano',
+  })
+  @IsString()
+  @IsOptional()
+  llmModel?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Máximo de tokens por llamada al modelo al calificar (por defecto ANALYSIS_REQUEST_TOKEN_BUDGET). Los documentos que no caben se califican por partes',
+    example: 100000,
+    minimum: 8000,
+  })
+  @IsInt()
+  @Min(8000)
+  @IsOptional()
+  @Type(() => Number)
+  tokenBudget?: number;
+
   @ApiPropertyOptional({
     description: 'Items adicionales para agregar a la rúbrica',
     type: [CreateRubricItemDto],
@@ -218,4 +415,265 @@ export class CreateSubmissionDto {
   @IsString()
   @IsOptional()
   fileUrl?: string;
-}
\ No newline at end of file
+}
+
+export class UploadSubmissionDto {
+  @ApiPropertyOptional({
+    description:
+      'Aceptar el archivo aunque sea idéntico (mismo SHA-256) a otra entrega de la evaluación',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.allowDuplicate === true || obj.allowDuplicate === 'true',
+  )
+  allowDuplicate?: boolean;
+}
+
+export class BulkImportSubmissionsDto extends UploadSubmissionDto {
+  @ApiPropertyOptional({
+    description:
+      'Patrón de los nombres de archivo: {code} es el código del grupo (puede incluir -, _ o ., como G-01) y * cualquier texto sin "/" (hasta dos). Sin "/" se compara con el nombre del archivo y con "/" con la ruta dentro del ZIP. Por defecto {code}* (G01_informe.pdf → G01)',
+    example: '{code}/*',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  filenamePattern?: string;
+
+  @ApiPropertyOptional({
+    description: 'Crear los grupos cuyo código no exista en la evaluación',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.createMissingGroups === true || obj.createMissingGroups === 'true',
+  )
+  createMissingGroups?: boolean;
+}
+
+export class CreateSubmissionUploadDto {
+  @ApiProperty({
+    description: 'Nombre del archivo que se va a subir',
+    example: 'proyecto_final.pdf',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(240)
+  fileName: string;
+
+  @ApiProperty({
+    description: 'Tamaño del archivo en bytes',
+    example: 52428800,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  size: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Content-Type con el que se hará el PUT; si se indica, el PUT debe enviarlo',
+    example: 'application/pdf',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(120)
+  contentType?: string;
+}
+
+export class SweepOrphanFilesDto {
+  @ApiPropertyOptional({
+    description:
+      'Solo listar los archivos huérfanos, sin borrarlos. Por defecto true: hay que enviar false para encolar su borrado',
+    example: true,
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) =>
+      obj.dryRun !== false && obj.dryRun !== 'false',
+  )
+  dryRun?: boolean;
+}
+
+export class DiffSubmissionVersionsDto {
+  @ApiPropertyOptional({
+    description: 'Versión base. Por defecto la anterior a "to"',
+    example: 1,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  from?: number;
+
+  @ApiPropertyOptional({
+    description: 'Versión a comparar. Por defecto la más reciente',
+    example: 2,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  to?: number;
+}
+
+export class ListSubmissionsByStatusDto {
+  @ApiPropertyOptional({
+    description: 'Estado de la entrega. Sin él se listan todas',
+    enum: submission_status,
+    example: 'ERROR',
+  })
+  @IsEnum(submission_status)
+  @IsOptional()
+  status?: submission_status;
+}
+
+export class AnalyzeEvaluationDto {
+  @ApiPropertyOptional({
+    description:
+      'Motor de calificación: SIMULATED (offline, determinístico) o un proveedor de IA. Por defecto el configurado en la evaluación',
+    enum: ['SIMULATED', ...LLM_PROVIDERS],
+    example: 'SIMULATED',
+  })
+  @IsIn(['SIMULATED', ...LLM_PROVIDERS])
+  @IsOptional()
+  engine?: string;
+
+  @ApiPropertyOptional({
+    description: 'Modelo de IA (ignorado con el motor SIMULATED)',
+    example: 'gpt-4.1-nano',
+  })
+  @IsString()
+  @IsOptional()
+  model?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IDs de los grupos a analizar. Si se omite se analizan todos los grupos de la evaluación',
+    type: [String],
+    example: ['uuid-grupo-1', 'uuid-grupo-2'],
+  })
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  groupIds?: string[];
+}
+
+export class AnalyzeGroupDto extends OmitType(AnalyzeEvaluationDto, [
+  'groupIds',
+] as const) {}
+
+export class OverrideGroupResultDto {
+  @ApiPropertyOptional({
+    description: 'Puntaje total asignado por el docente',
+    example: 16.5,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  score?: number;
+
+  @ApiPropertyOptional({
+    description: 'Estado asignado por el docente',
+    enum: result_status,
+    example: 'PASS',
+  })
+  @IsEnum(result_status)
+  @IsOptional()
+  status?: result_status;
+
+  @ApiPropertyOptional({
+    description: 'Retroalimentación general redactada por el docente',
+    example: 'Buen trabajo en general; revisar la sección de conclusiones.',
+  })
+  @IsString()
+  @IsOptional()
+  feedback?: string;
+
+  @ApiProperty({
+    description: 'Motivo del ajuste (obligatorio)',
+    example: 'El análisis no consideró el anexo entregado por el grupo',
+  })
+  @IsString()
+  @IsNotEmpty()
+  justification: string;
+
+  @ApiProperty({
+    description: 'ID del docente que realiza el ajuste',
+    example: 'uuid-del-docente',
+  })
+  @IsUUID()
+  reviewerId: string;
+}
+
+export class OverrideCriterionResultDto {
+  @ApiPropertyOptional({
+    description: 'Puntaje del criterio asignado por el docente',
+    example: 4,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Type(() => Number)
+  score?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Nivel de desempeño asignado por el docente (uno de los niveles del criterio). Si no se indica puntaje, se usa el del nivel',
+    example: 'BUENO',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  level?: string;
+
+  @ApiPropertyOptional({
+    description: 'Retroalimentación del criterio redactada por el docente',
+    example: 'La metodología está bien justificada.',
+  })
+  @IsString()
+  @IsOptional()
+  feedback?: string;
+
+  @ApiProperty({
+    description: 'Motivo del ajuste (obligatorio)',
+    example:
+      'La metodología se describe en la página 4 y la IA no la consideró',
+  })
+  @IsString()
+  @IsNotEmpty()
+  justification: string;
+
+  @ApiProperty({
+    description: 'ID del docente que realiza el ajuste',
+    example: 'uuid-del-docente',
+  })
+  @IsUUID()
+  reviewerId: string;
+}
+
+export class UpdateReviewStatusDto {
+  @ApiProperty({
+    description:
+      'Nuevo estado de revisión. Solo los análisis PUBLISHED son visibles para los estudiantes',
+    enum: review_status,
+    example: 'PUBLISHED',
+  })
+  @IsEnum(review_status)
+  status: review_status;
+
+  @ApiProperty({
+    description: 'ID del docente que realiza el cambio',
+    example: 'uuid-del-docente',
+  })
+  @IsUUID()
+  reviewerId: string;
+}
@@ -11,7 +11,13 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  HttpCode,
+  HttpStatus,
+  Sse,
+  Headers,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { 
   ApiTags, 
@@ -24,14 +30,35 @@ import {
 } from '@nestjs/swagger';
 import { EvaluationsService } from './evaluations.service';
 import { AnalysisService } from '../analysis/analysis.service';
+import { AnalysisEventsService } from '../analysis/analysis-events.service';
+import { AnalysisReviewService } from '../analysis/analysis-review.service';
+import { RubricItemsService } from './rubric-items.service';
+import { RubricExtractionService } from './rubric-extraction.service';
+import { SubmissionsService } from './submissions.service';
+import { SubmissionStatusService } from './submission-status.service';
 import {
   CreateEvaluationDto,
   UpdateEvaluationDto,
   CreateGroupDto,
   UpdateGroupDto,
   CreateSubmissionDto,
+  AnalyzeEvaluationDto,
+  AnalyzeGroupDto,
+  OverrideGroupResultDto,
+  OverrideCriterionResultDto,
+  UpdateReviewStatusDto,
+  UpdateRubricItemDto,
+  ReorderRubricItemsDto,
+  ExtractRubricItemsDto,
+  ConfirmRubricItemsDto,
+  UploadSubmissionDto,
+  CreateSubmissionUploadDto,
+  BulkImportSubmissionsDto,
+  DiffSubmissionVersionsDto,
+  ListSubmissionsByStatusDto,
 } from './dto/evaluation.dto';
 import { ParseJsonFormDataInterceptor } from 'src/common/interceptors/parse-json-form-data.interceptors';
+import { LimitedFileInterceptor } from 'src/common/interceptors/limited-file.interceptor';
 
 @ApiTags('evaluations')
 @Controller('evaluations')
@@ -39,6 +66,12 @@ export class EvaluationsController {
   constructor(
     private readonly evaluationsService: EvaluationsService,
     private readonly analysisService: AnalysisService,
+    private readonly analysisEventsService: AnalysisEventsService,
+    private readonly analysisReviewService: AnalysisReviewService,
+    private readonly rubricItemsService: RubricItemsService,
+    private readonly rubricExtractionService: RubricExtractionService,
+    private readonly submissionsService: SubmissionsService,
+    private readonly submissionStatusService: SubmissionStatusService,
   ) {}
 
   // ============================================
@@ -78,7 +111,24 @@ export class EvaluationsController {
           format: 'uuid',
           description: 'ID del profesor propietario'
         },
-        rubricItems: { 
+        llmProvider: {
+          type: 'string',
+          enum: ['openai', 'gemini'],
+          example: 'gemini',
+          description: 'Proveedor de IA para calificar (opcional)',
+        },
+        llmModel: {
+          type: 'string',
+          example: 'gemini-2.5-flash-lite',
+          description: 'Modelo de IA para calificar (opcional)',
+        },
+        tokenBudget: {
+          type: 'number',
+          example: 60000,
+          description:
+            'Máximo de tokens por solicitud al modelo; las entregas que no caben se califican por partes (opcional)',
+        },
+        rubricItems: {
           type: 'array',
           description: 'Criterios de evaluación (rubric items)',
           items: {
@@ -88,8 +138,25 @@ export class EvaluationsController {
               itemOrder: { type: 'number', example: 1 },
               title: { type: 'string', example: 'Claridad en la exposición' },
               conditions: { type: 'string', example: 'Explicación clara y concisa' },
-              maxScore: { type: 'number', example: 5 }
-            }
+              maxScore: { type: 'number', example: 5 },
+              levels: {
+                type: 'array',
+                description:
+                  'Niveles de desempeño del más alto al más bajo (opcional)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string', example: 'Excelente' },
+                    descriptor: {
+                      type: 'string',
+                      example:
+                        'Explica todos los conceptos con ejemplos propios',
+                    },
+                    points: { type: 'number', example: 5 },
+                  },
+                },
+              },
+            },
           },
           example: [
             { itemOrder: 1, title: 'Claridad', conditions: 'Explicación clara', maxScore: 5 },
@@ -97,6 +164,12 @@ export class EvaluationsController {
             { itemOrder: 3, title: 'Originalidad', conditions: 'Aporte creativo', maxScore: 5 }
           ]
         },
+        extractRubricItems: {
+          type: 'boolean',
+          example: true,
+          description:
+            'Con PDF y sin rubricItems: proponer los ítems extraídos del PDF con IA (se devuelven en rubricItemProposals y no se guardan hasta confirmarlos)',
+        },
         pdf: { 
           type: 'string', 
           format: 'binary',
@@ -279,7 +352,8 @@ export class EvaluationsController {
   @Delete(':id')
   @ApiOperation({ 
     summary: 'Eliminar evaluación',
-    description: 'Elimina una evaluación y todas sus relaciones: rúbrica, rubric items, grupos, submissions (cascade delete)'
+    description:
+      'Elimina una evaluación y todas sus relaciones: rúbrica, rubric items, grupos, submissions (cascade delete). El PDF de la rúbrica y los archivos de las entregas se borran del almacenamiento en segundo plano',
   })
   @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
   @ApiResponse({ 
@@ -294,12 +368,48 @@ export class EvaluationsController {
   @Get(':id/groups-with-recommendations')
   @ApiOperation({ 
     summary: 'Obtener grupos con recomendaciones',
-    description: 'Retorna los grupos de una evaluación con las recomendaciones del último análisis'
+    description:
+      'Retorna los grupos de una evaluación con su resultado más reciente (latestResult) y sus recomendaciones, combinando los distintos análisis por grupo. analysisIds lista los análisis que aportan resultados. Los campos analysisId y analysisDate de primer nivel están deprecados: corresponden al análisis más reciente con resultados, que tras un reanálisis parcial no cubre a todos los grupos',
   })
   @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
   @ApiResponse({ 
     status: 200, 
-    description: 'Grupos con recomendaciones obtenidos' 
+    description: 'Grupos con recomendaciones obtenidos',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          evaluationId: 'uuid',
+          analysisId: 'uuid-analisis-2',
+          analysisDate: '2025-01-16T09:00:00.000Z',
+          analysisIds: ['uuid-analisis-1', 'uuid-analisis-2'],
+          groups: [
+            {
+              id: 'uuid-grupo',
+              code: 'G1',
+              name: 'Grupo 1',
+              submissions: [{ id: 'uuid-entrega', version: 2 }],
+              latestResult: {
+                analysisId: 'uuid-analisis-2',
+                analysisDate: '2025-01-16T09:00:00.000Z',
+                engine: 'openai:gpt-4o',
+                status: 'PASS',
+                score: 17.5,
+                maxScore: 20,
+                feedback: 'Buen trabajo...',
+              },
+              recommendations: [
+                {
+                  priority: 1,
+                  summary: 'Agregar pruebas de integración',
+                  details: '...',
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
   })
   async getGroupsWithRecommendations(@Param('id') evaluationId: string) {
     const data = await this.evaluationsService.getGroupsWithRecommendations(evaluationId);
@@ -310,6 +420,342 @@ export class EvaluationsController {
     };
   }
 
+  // ============================================
+  // RUBRIC ITEMS
+  // ============================================
+
+  @Get(':id/rubrics/:rubricId/items')
+  @ApiOperation({
+    summary: 'Listar ítems de una rúbrica',
+    description:
+      'Retorna los ítems ordenados por itemOrder y el puntaje máximo total de la rúbrica',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ítems de la rúbrica',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          rubricId: 'uuid',
+          items: [
+            {
+              id: 'item-uuid',
+              itemOrder: 1,
+              title: 'Claridad en la exposición',
+              conditions: '...',
+              maxScore: 5,
+            },
+          ],
+          totalMaxScore: 20,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rúbrica no encontrada en la evaluación',
+  })
+  async listRubricItems(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+  ) {
+    const data = await this.rubricItemsService.listItems(
+      evaluationId,
+      rubricId,
+    );
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Post(':id/rubrics/:rubricId/items/extract')
+  @ApiOperation({
+    summary: 'Proponer ítems desde el PDF de la rúbrica',
+    description:
+      'Extrae con IA los criterios (título, condiciones y puntaje máximo) del PDF de la rúbrica. Devuelve una propuesta que no se guarda hasta confirmarla',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiBody({ type: ExtractRubricItemsDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: 'Propuesta de ítems',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          rubricId: 'uuid',
+          engine: 'openai:gpt-4.1-nano',
+          items: [
+            {
+              itemOrder: 1,
+              title: 'Introducción',
+              conditions: 'Presenta el problema y los objetivos',
+              maxScore: 4,
+            },
+            {
+              itemOrder: 2,
+              title: 'Metodología',
+              conditions: 'Justifica el método elegido',
+              maxScore: null,
+            },
+          ],
+          totalMaxScore: 4,
+          warnings: ['El criterio "Metodología" no indica puntaje'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'La rúbrica no tiene PDF o no se pudo extraer texto',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rúbrica no encontrada en la evaluación',
+  })
+  async extractRubricItems(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+    @Body() dto: ExtractRubricItemsDto,
+  ) {
+    const data = await this.rubricExtractionService.proposeItems(
+      evaluationId,
+      rubricId,
+      dto,
+    );
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Post(':id/rubrics/:rubricId/items/confirm')
+  @ApiOperation({
+    summary: 'Confirmar ítems de la rúbrica',
+    description:
+      'Guarda los ítems revisados por el docente (por ejemplo, los propuestos desde el PDF). Se agregan al final o reemplazan los existentes con replaceExisting',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiBody({ type: ConfirmRubricItemsDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Ítems guardados',
+    schema: {
+      example: {
+        success: true,
+        message: 'Ítems guardados exitosamente',
+        data: { rubricId: 'uuid', items: [], totalMaxScore: 20 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Los ítems actuales tienen resultados y no se pueden reemplazar',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rúbrica no encontrada en la evaluación',
+  })
+  async confirmRubricItems(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+    @Body() dto: ConfirmRubricItemsDto,
+  ) {
+    const data = await this.rubricItemsService.confirmItems(
+      evaluationId,
+      rubricId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Ítems guardados exitosamente',
+      data,
+    };
+  }
+
+  @Put(':id/rubrics/:rubricId/items/reorder')
+  @ApiOperation({
+    summary: 'Reordenar ítems de una rúbrica',
+    description:
+      'Recibe los IDs de todos los ítems en el nuevo orden y reescribe itemOrder (1..n) en una sola transacción',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiBody({ type: ReorderRubricItemsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Ítems reordenados',
+    schema: {
+      example: {
+        success: true,
+        message: 'Ítems reordenados exitosamente',
+        data: { rubricId: 'uuid', items: [], totalMaxScore: 20 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'La lista no coincide con los ítems de la rúbrica',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Rúbrica no encontrada en la evaluación',
+  })
+  async reorderRubricItems(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+    @Body() dto: ReorderRubricItemsDto,
+  ) {
+    const data = await this.rubricItemsService.reorderItems(
+      evaluationId,
+      rubricId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Ítems reordenados exitosamente',
+      data,
+    };
+  }
+
+  @Put(':id/rubrics/:rubricId/items/:itemId')
+  @ApiOperation({
+    summary: 'Actualizar un ítem de rúbrica',
+    description:
+      'Actualiza título, condiciones y/o puntaje máximo. Para cambiar el orden usa el endpoint de reordenamiento',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiParam({ name: 'itemId', description: 'ID del ítem', type: 'string' })
+  @ApiBody({ type: UpdateRubricItemDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Ítem actualizado',
+    schema: {
+      example: {
+        success: true,
+        message: 'Ítem actualizado exitosamente',
+        data: {
+          item: {
+            id: 'item-uuid',
+            itemOrder: 1,
+            title: 'Claridad',
+            maxScore: 6,
+          },
+          rubricId: 'uuid',
+          items: [],
+          totalMaxScore: 21,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Rúbrica o ítem no encontrado' })
+  async updateRubricItem(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: UpdateRubricItemDto,
+  ) {
+    const data = await this.rubricItemsService.updateItem(
+      evaluationId,
+      rubricId,
+      itemId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Ítem actualizado exitosamente',
+      data,
+    };
+  }
+
+  @Delete(':id/rubrics/:rubricId/items/:itemId')
+  @ApiOperation({
+    summary: 'Eliminar un ítem de rúbrica',
+    description:
+      'Elimina el ítem y compacta el orden de los restantes. Si el ítem tiene resultados de análisis requiere force=true',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({
+    name: 'rubricId',
+    description: 'ID de la rúbrica',
+    type: 'string',
+  })
+  @ApiParam({ name: 'itemId', description: 'ID del ítem', type: 'string' })
+  @ApiQuery({
+    name: 'force',
+    required: false,
+    description: 'Eliminar también los resultados de análisis asociados',
+    type: 'boolean',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ítem eliminado',
+    schema: {
+      example: {
+        success: true,
+        message: 'Ítem eliminado exitosamente',
+        data: { rubricId: 'uuid', items: [], totalMaxScore: 15 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El ítem tiene resultados de análisis y no se indicó force',
+  })
+  @ApiResponse({ status: 404, description: 'Rúbrica o ítem no encontrado' })
+  async deleteRubricItem(
+    @Param('id') evaluationId: string,
+    @Param('rubricId') rubricId: string,
+    @Param('itemId') itemId: string,
+    @Query('force') force?: string,
+  ) {
+    const data = await this.rubricItemsService.deleteItem(
+      evaluationId,
+      rubricId,
+      itemId,
+      force === 'true',
+    );
+
+    return {
+      success: true,
+      message: 'Ítem eliminado exitosamente',
+      data,
+    };
+  }
+
   // ============================================
   // GRUPOS
   // ============================================
@@ -467,7 +913,8 @@ export class EvaluationsController {
   @Delete('groups/:id')
   @ApiOperation({ 
     summary: 'Eliminar grupo',
-    description: 'Elimina un grupo y todas sus submissions'
+    description:
+      'Elimina un grupo y todas sus submissions. Los archivos de las entregas se borran del almacenamiento en segundo plano',
   })
   @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
   @ApiResponse({ 
@@ -504,44 +951,756 @@ export class EvaluationsController {
     };
   }
 
+  @Post(':id/groups/:groupId/submissions')
+  @UseInterceptors(
+    LimitedFileInterceptor(
+      'file',
+      'SUBMISSION_MAX_FILE_MB',
+      10,
+      (req, file, cb) => {
+        // El tipo real se detecta por el contenido; aquí solo se descartan archivos que nunca son una entrega
+        if (
+          /^(audio|video)\//.test(file.mimetype) ||
+          /zip|rar|7z|tar/.test(file.mimetype)
+        ) {
+          return cb(
+            new BadRequestException(
+              'Formato no soportado: sube un PDF, DOCX, Markdown, texto o imagen',
+            ),
+            false,
+          );
+        }
+        cb(null, true);
+      },
+    ),
+  )
+  @ApiOperation({
+    summary: 'Subir la entrega de un grupo',
+    description:
+      'Sube la entrega (PDF, DOCX, Markdown, texto o imagen; el tipo se detecta por el contenido) a S3 (evaluations/{id}/groups/{groupId}/submissions/), calcula su SHA-256 y crea la submission. Un archivo idéntico a otra entrega de la evaluación se rechaza con 409, salvo que se indique allowDuplicate (queda marcado en meta.duplicateOf)',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({ name: 'groupId', description: 'ID del grupo', type: 'string' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'Archivo de la entrega: PDF, DOCX, .md, .txt o imagen (PNG, JPEG, WEBP, HEIC)',
+        },
+        allowDuplicate: {
+          type: 'boolean',
+          example: false,
+          description: 'Aceptar el archivo aunque sea idéntico a otra entrega',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Entrega subida exitosamente',
+    schema: {
+      example: {
+        success: true,
+        message: 'Entrega subida exitosamente',
+        data: {
+          submission: {
+            id: 'uuid',
+            groupId: 'group-uuid',
+            fileName: 'proyecto_final.pdf',
+            fileUrl:
+              'https://bucket.s3.us-east-1.amazonaws.com/evaluations/uuid/groups/group-uuid/submissions/1700000000000_proyecto_final.pdf',
+            checksum:
+              'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+            status: 'RECEIVED',
+            meta: { size: 524288, mimeType: 'application/pdf' },
+          },
+          duplicate: false,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Archivo faltante o de un formato no soportado',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'El archivo supera SUBMISSION_MAX_FILE_MB',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Grupo no encontrado en la evaluación',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Archivo idéntico a una entrega existente',
+  })
+  async uploadSubmission(
+    @Param('id') evaluationId: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: UploadSubmissionDto,
+    @UploadedFile() file?: Express.Multer.File,
+  ) {
+    const data = await this.submissionsService.uploadSubmission(
+      evaluationId,
+      groupId,
+      file,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: data.duplicate
+        ? 'Entrega subida exitosamente (marcada como duplicada)'
+        : 'Entrega subida exitosamente',
+      data,
+    };
+  }
+
+  @Post(':id/groups/:groupId/submissions/upload-url')
+  @ApiOperation({
+    summary:
+      'Pedir una URL firmada para subir la entrega directo al almacenamiento',
+    description:
+      'Reserva una entrega PENDING (con su número de versión) y retorna una URL firmada de corta duración para subir el archivo con PUT, sin pasar por la API. Pensado para entregas grandes; al terminar el PUT hay que confirmar la subida',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiParam({ name: 'groupId', description: 'ID del grupo', type: 'string' })
+  @ApiBody({ type: CreateSubmissionUploadDto })
+  @ApiResponse({
+    status: 201,
+    description: 'URL de subida generada',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          submissionId: 'uuid',
+          version: 3,
+          uploadUrl:
+            'https://bucket.s3.us-east-1.amazonaws.com/evaluations/uuid/groups/group-uuid/submissions/1700000000000_proyecto_final.pdf?X-Amz-Algorithm=AWS4-HMAC-SHA256&...',
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/pdf' },
+          expiresAt: '2025-01-15T10:45:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Archivo demasiado grande' })
+  @ApiResponse({
+    status: 404,
+    description: 'Grupo no encontrado en la evaluación',
+  })
+  async createSubmissionUploadUrl(
+    @Param('id') evaluationId: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: CreateSubmissionUploadDto,
+  ) {
+    const data = await this.submissionsService.createDirectUpload(
+      evaluationId,
+      groupId,
+      dto,
+    );
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Post('groups/:id/submissions/:submissionId/complete')
+  @ApiOperation({
+    summary: 'Confirmar la subida directa de una entrega',
+    description:
+      'Valida el archivo subido con la URL firmada (tamaño, formato y SHA-256) y deja la entrega RECEIVED. Si el archivo no es válido se elimina y la entrega queda en ERROR; si es idéntico a otra entrega responde 409 y se puede reintentar con allowDuplicate',
+  })
+  @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
+  @ApiParam({
+    name: 'submissionId',
+    description: 'ID de la entrega reservada',
+    type: 'string',
+  })
+  @ApiBody({ type: UploadSubmissionDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: 'Entrega registrada',
+    schema: {
+      example: {
+        success: true,
+        message: 'Entrega subida exitosamente',
+        data: {
+          submission: {
+            id: 'uuid',
+            groupId: 'group-uuid',
+            fileName: 'proyecto_final.pdf',
+            version: 3,
+            status: 'RECEIVED',
+            meta: { size: 52428800, mimeType: 'application/pdf', kind: 'pdf' },
+          },
+          duplicate: false,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'El archivo no se subió, es demasiado grande o de un formato no soportado',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entrega no encontrada en el grupo',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Archivo idéntico a una entrega existente',
+  })
+  async completeSubmissionUpload(
+    @Param('id') groupId: string,
+    @Param('submissionId') submissionId: string,
+    @Body() dto: UploadSubmissionDto,
+  ) {
+    const data = await this.submissionsService.completeDirectUpload(
+      groupId,
+      submissionId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: data.duplicate
+        ? 'Entrega subida exitosamente (marcada como duplicada)'
+        : 'Entrega subida exitosamente',
+      data,
+    };
+  }
+
+  @Delete('groups/:id/submissions/:submissionId')
+  @ApiOperation({
+    summary: 'Eliminar una versión de la entrega',
+    description:
+      'Elimina una versión de la entrega del grupo; su archivo se borra del almacenamiento en segundo plano. Los resultados de análisis que la calificaron se conservan sin la referencia',
+  })
+  @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
+  @ApiParam({
+    name: 'submissionId',
+    description: 'ID de la entrega',
+    type: 'string',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Entrega eliminada exitosamente',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entrega no encontrada en el grupo',
+  })
+  async deleteSubmission(
+    @Param('id') groupId: string,
+    @Param('submissionId') submissionId: string,
+  ) {
+    await this.submissionsService.deleteSubmission(groupId, submissionId);
+
+    return { success: true, message: 'Entrega eliminada correctamente' };
+  }
+
+  @Post(':id/submissions/bulk')
+  @UseInterceptors(
+    LimitedFileInterceptor(
+      'file',
+      'SUBMISSION_BULK_MAX_ZIP_MB',
+      200,
+      (req, file, cb) => {
+        if (
+          !file.mimetype.includes('zip') &&
+          !file.originalname.toLowerCase().endsWith('.zip')
+        ) {
+          return cb(
+            new BadRequestException('El archivo debe ser un ZIP'),
+            false,
+          );
+        }
+        cb(null, true);
+      },
+    ),
+  )
+  @ApiOperation({
+    summary: 'Importar entregas desde un ZIP',
+    description:
+      'Recibe un ZIP con las entregas de varios grupos (por ejemplo la descarga del LMS). Cada archivo se asigna al grupo cuyo código captura filenamePattern ({code} es el código y * cualquier texto; sin "/" se compara con el nombre del archivo y con "/" con la ruta dentro del ZIP), se sube a S3 y se crea su submission. Con createMissingGroups se crean los grupos que no existan. Los archivos que superan SUBMISSION_MAX_FILE_MB o una tasa de compresión de 100 veces, y los ZIP que descomprimidos superan SUBMISSION_BULK_MAX_UNZIPPED_MB, se rechazan. Responde un reporte por archivo: matched, created, skipped o errored',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Archivo ZIP con las entregas',
+        },
+        filenamePattern: {
+          type: 'string',
+          example: '{code}/*',
+          description:
+            'Patrón con {code} (código del grupo, puede incluir -, _ o .) y hasta dos comodines *. Por defecto el primer segmento del nombre del archivo: {code}* (G01_informe.pdf → G01)',
+        },
+        createMissingGroups: {
+          type: 'boolean',
+          example: false,
+          description:
+            'Crear los grupos cuyo código no exista en la evaluación',
+        },
+        allowDuplicate: {
+          type: 'boolean',
+          example: false,
+          description: 'Aceptar archivos idénticos a otras entregas',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'ZIP procesado',
+    schema: {
+      example: {
+        success: true,
+        message: 'ZIP procesado: 2 de 4 archivos guardados',
+        data: {
+          evaluationId: 'uuid',
+          summary: { total: 4, matched: 1, created: 1, skipped: 1, errored: 1 },
+          files: [
+            {
+              fileName: 'G01_informe.pdf',
+              status: 'matched',
+              groupCode: 'G01',
+              groupId: 'group-uuid',
+              submissionId: 'submission-uuid',
+              duplicate: false,
+            },
+            {
+              fileName: 'G07_informe.pdf',
+              status: 'created',
+              groupCode: 'G07',
+              groupId: 'group-uuid-2',
+              submissionId: 'submission-uuid-2',
+              duplicate: false,
+            },
+            {
+              fileName: 'G02_informe.pdf',
+              status: 'skipped',
+              groupCode: 'G02',
+              groupId: 'group-uuid-3',
+              reason:
+                'El archivo es idéntico a una entrega existente del grupo G01',
+            },
+            {
+              fileName: 'G03_notas.xlsx',
+              status: 'errored',
+              groupCode: 'G03',
+              groupId: 'group-uuid-4',
+              reason:
+                'Archivo comprimido no soportado: sube un PDF, DOCX, Markdown, texto o imagen',
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ZIP faltante o inválido, o filenamePattern inválido',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'El ZIP supera SUBMISSION_BULK_MAX_ZIP_MB',
+  })
+  @ApiResponse({ status: 404, description: 'Evaluación no encontrada' })
+  async importSubmissionsZip(
+    @Param('id') evaluationId: string,
+    @Body() dto: BulkImportSubmissionsDto,
+    @UploadedFile() file?: Express.Multer.File,
+  ) {
+    const data = await this.submissionsService.importZip(
+      evaluationId,
+      file,
+      dto,
+    );
+    const stored = data.summary.matched + data.summary.created;
+
+    return {
+      success: true,
+      message: `ZIP procesado: ${stored} de ${data.summary.total} archivos guardados`,
+      data,
+    };
+  }
+
+  @Get(':id/submissions')
+  @ApiOperation({
+    summary: 'Listar entregas por estado',
+    description:
+      'Retorna la última versión de la entrega de cada grupo de la evaluación con su estado (PENDING, RECEIVED, ANALYZED, ERROR). Las entregas con ERROR incluyen el paso que falló (UPLOAD, EXTRACTION o ANALYSIS) y el motivo',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la evaluación', type: 'string' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['PENDING', 'RECEIVED', 'ANALYZED', 'ERROR'],
+    description: 'Filtrar por estado',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Entregas obtenidas exitosamente',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          evaluationId: 'uuid',
+          counts: { PENDING: 0, RECEIVED: 1, ANALYZED: 3, ERROR: 1 },
+          groupsWithoutSubmissions: ['G06'],
+          submissions: [
+            {
+              id: 'submission-uuid',
+              version: 2,
+              status: 'ERROR',
+              fileName: 'informe_escaneado.pdf',
+              uploadedAt: '2025-01-01T00:00:00.000Z',
+              group: { id: 'group-uuid', code: 'G03', name: 'Grupo 3' },
+              error: {
+                stage: 'EXTRACTION',
+                message:
+                  'informe_escaneado.pdf no contiene texto extraíble (¿PDF escaneado?)',
+                at: '2025-01-01T12:00:00.000Z',
+              },
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Evaluación no encontrada' })
+  async listSubmissionsByStatus(
+    @Param('id') evaluationId: string,
+    @Query() dto: ListSubmissionsByStatusDto,
+  ) {
+    const data = await this.submissionStatusService.listByStatus(
+      evaluationId,
+      dto.status,
+    );
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('groups/:id/submissions')
+  @ApiOperation({
+    summary: 'Historial de entregas de un grupo',
+    description:
+      'Retorna todas las versiones de la entrega del grupo, de la más reciente a la más antigua, con los resultados de análisis que calificaron cada versión',
+  })
+  @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Historial obtenido exitosamente',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          group: { id: 'group-uuid', code: 'G01', name: 'Grupo 1' },
+          latestVersion: 2,
+          submissions: [
+            {
+              id: 'submission-uuid-2',
+              version: 2,
+              fileName: 'proyecto_final_v2.pdf',
+              checksum: 'a1b2c3...',
+              status: 'RECEIVED',
+              uploadedAt: '2025-01-02T00:00:00.000Z',
+              analysisResults: [],
+            },
+            {
+              id: 'submission-uuid-1',
+              version: 1,
+              fileName: 'proyecto_final.pdf',
+              checksum: 'e3b0c4...',
+              status: 'ANALYZED',
+              uploadedAt: '2025-01-01T00:00:00.000Z',
+              analysisResults: [
+                {
+                  id: 'result-uuid',
+                  analysisId: 'analysis-uuid',
+                  createdAt: '2025-01-01T12:00:00.000Z',
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Grupo no encontrado' })
+  async listGroupSubmissions(@Param('id') groupId: string) {
+    const data = await this.submissionsService.listGroupSubmissions(groupId);
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('groups/:id/submissions/diff')
+  @ApiOperation({
+    summary: 'Comparar dos versiones de la entrega',
+    description:
+      'Diff línea a línea del texto extraído de dos versiones de la entrega del grupo. Sin parámetros compara la última versión con la anterior',
+  })
+  @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'Versión base (por defecto la anterior a "to")',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: 'Versión a comparar (por defecto la más reciente)',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Diff calculado exitosamente',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          from: {
+            id: 'submission-uuid-1',
+            version: 1,
+            fileName: 'proyecto_final.pdf',
+          },
+          to: {
+            id: 'submission-uuid-2',
+            version: 2,
+            fileName: 'proyecto_final_v2.pdf',
+          },
+          identical: false,
+          stats: { added: 1, removed: 1 },
+          hunks: [
+            {
+              oldStart: 10,
+              oldLines: 4,
+              newStart: 10,
+              newLines: 4,
+              lines: [
+                ' Metodología',
+                '-Se encuestó a 20 personas.',
+                '+Se encuestó a 45 personas.',
+                ' Resultados',
+              ],
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'El grupo tiene una sola versión' })
+  @ApiResponse({ status: 404, description: 'Grupo o versión no encontrada' })
+  async diffSubmissionVersions(
+    @Param('id') groupId: string,
+    @Query() dto: DiffSubmissionVersionsDto,
+  ) {
+    const data = await this.submissionsService.diffVersions(groupId, dto);
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
   // ============================================
-  // ANÁLISIS CON OPENAI
+  // ANÁLISIS CON IA
   // ============================================
 
   @Post(':id/analyze')
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ 
     summary: 'Analizar evaluación con IA',
-    description: 'Inicia el análisis de una evaluación usando OpenAI. Procesa todas las submissions usando los rubric items como criterios y genera recomendaciones'
+    description:
+      'Encola el análisis de una evaluación (o solo de los grupos indicados en groupIds) usando el motor indicado: SIMULATED (offline) o el proveedor de IA configurado en la evaluación (OpenAI o Gemini). Crea un job por grupo con submissions que un worker en segundo plano procesa usando los rubric items como criterios. Responde inmediatamente con el ID del análisis',
   })
   @ApiParam({ name: 'id', description: 'ID de la evaluación a analizar', type: 'string' })
-  @ApiResponse({ 
-    status: 200, 
-    description: 'Análisis completado exitosamente',
+  @ApiBody({ type: AnalyzeEvaluationDto, required: false })
+  @ApiResponse({
+    status: 202,
+    description: 'Análisis encolado exitosamente',
     schema: {
       example: {
         success: true,
-        message: 'Análisis completado',
-        data: {
-          analysisId: 'uuid',
-          evaluationId: 'uuid',
-          totalGroups: 5,
-          recommendations: []
-        }
-      }
-    }
+        analysisId: 'uuid',
+        message: 'Análisis encolado exitosamente',
+        queuedGroups: 5,
+        skippedGroups: ['G006'],
+      },
+    },
   })
   @ApiResponse({ status: 404, description: 'Evaluación no encontrada' })
-  @ApiResponse({ status: 400, description: 'Error en el análisis' })
-  async analyzeEvaluation(@Param('id') evaluationId: string) {
-    const result = await this.analysisService.analyzeEvaluation(evaluationId);
+  async analyzeEvaluation(
+    @Param('id') evaluationId: string,
+    @Body() dto: AnalyzeEvaluationDto,
+  ) {
+    const result = await this.analysisService.analyzeEvaluation(
+      evaluationId,
+      dto,
+    );
 
     return result;
   }
 
+  @Post('groups/:id/analyze')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Reanalizar un grupo',
+    description:
+      'Encola un análisis que cubre solo este grupo, sin volver a analizar (ni facturar) el resto de la evaluación',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del grupo a analizar',
+    type: 'string',
+  })
+  @ApiBody({ type: AnalyzeGroupDto, required: false })
+  @ApiResponse({
+    status: 202,
+    description: 'Análisis del grupo encolado exitosamente',
+    schema: {
+      example: {
+        success: true,
+        analysisId: 'uuid',
+        message: 'Análisis encolado exitosamente',
+        queuedGroups: 1,
+        skippedGroups: [],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Grupo no encontrado' })
+  @ApiResponse({ status: 400, description: 'El grupo no tiene submissions' })
+  async analyzeGroup(
+    @Param('id') groupId: string,
+    @Body() dto: AnalyzeGroupDto,
+  ) {
+    return await this.analysisService.analyzeSingleGroup(groupId, dto);
+  }
+
+  @Get('analysis/:analysisId/status')
+  @ApiOperation({
+    summary: 'Obtener estado de un análisis',
+    description:
+      'Retorna el estado de cada job del análisis (QUEUED, RUNNING, COMPLETED, FAILED) para saber qué grupos terminaron',
+  })
+  @ApiParam({
+    name: 'analysisId',
+    description: 'ID del análisis',
+    type: 'string',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Estado del análisis',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          analysisId: 'uuid',
+          finished: false,
+          totalJobs: 3,
+          counts: { QUEUED: 1, RUNNING: 1, COMPLETED: 0, FAILED: 1 },
+          jobs: [
+            {
+              groupCode: 'G001',
+              status: 'COMPLETED',
+              attempts: 1,
+              lastError: null,
+              errorReason: null,
+            },
+            {
+              groupCode: 'G002',
+              status: 'FAILED',
+              attempts: 3,
+              lastError:
+                'openai:gpt-4.1-nano: 429 Rate limit reached (3 intento(s))',
+              errorReason: 'RATE_LIMITED',
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Análisis no encontrado' })
+  async getAnalysisStatus(@Param('analysisId') analysisId: string) {
+    const data = await this.analysisService.getAnalysisStatus(analysisId);
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Sse('analysis/:analysisId/events')
+  @ApiOperation({
+    summary: 'Progreso del análisis en vivo (SSE)',
+    description:
+      'Stream Server-Sent Events con los eventos de cada grupo (QUEUED, EXTRACTING_PDF, CALLING_MODEL, SAVED, FAILED) y un evento SUMMARY final. Al reconectarse con el header Last-Event-ID se reproducen los eventos posteriores a ese ID',
+  })
+  @ApiParam({
+    name: 'analysisId',
+    description: 'ID del análisis',
+    type: 'string',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stream text/event-stream',
+    schema: {
+      example: {
+        id: '42',
+        data: {
+          type: 'SAVED',
+          analysisId: 'uuid',
+          groupId: 'group-uuid',
+          groupCode: 'G001',
+          message: 'Resultado guardado: 12/15',
+          data: {
+            status: 'PASS',
+            totalScore: 12,
+            maxScore: 15,
+            unverifiedEvidence: 0,
+            chunkCount: 1,
+            engine: 'openai:gpt-4.1-nano',
+          },
+        },
+      },
+    },
+  })
+  streamAnalysisEvents(
+    @Param('analysisId') analysisId: string,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    return this.analysisEventsService.stream(analysisId, lastEventId);
+  }
+
   @Get('analysis/:analysisId')
   @ApiOperation({ 
     summary: 'Obtener resultados de análisis',
-    description: 'Retorna los resultados completos de un análisis previamente realizado'
+    description:
+      'Retorna los resultados de un análisis agrupados por grupo, con el puntaje, nivel y feedback de cada rubric item. Incluye los valores originales de la IA y los ajustes del docente (override*). chunkCount > 1 indica que el documento excedía el contexto del modelo y se calificó por partes. engine es el proveedor y modelo que calificó el grupo (el de fallback si el principal falló). Cada criterio trae sus citas del documento (evidence) con la página y el resultado de contrastarlas con el texto: VERIFIED, WRONG_PAGE (foundOnPage indica dónde aparece) o NOT_FOUND',
   })
   @ApiParam({ name: 'analysisId', description: 'ID del análisis', type: 'string' })
   @ApiResponse({ 
@@ -553,11 +1712,57 @@ export class EvaluationsController {
         data: {
           id: 'uuid',
           evaluationId: 'uuid',
-          recommendations: [],
-          createdAt: '2025-01-01T00:00:00Z'
-        }
-      }
-    }
+          startedAt: '2025-01-01T00:00:00Z',
+          reviewStatus: 'PENDING_REVIEW',
+          groups: [
+            {
+              group: { id: 'group-uuid', code: 'G001', name: 'Grupo A' },
+              result: {
+                id: 'result-uuid',
+                status: 'PASS',
+                score: 12.5,
+                maxScore: 15,
+                feedback: '...',
+                chunkCount: 1,
+                engine: 'openai:gpt-4.1-nano',
+                overrideScore: 13.5,
+                overrideJustification: '...',
+              },
+              criteria: [
+                {
+                  id: 'criterion-uuid',
+                  itemOrder: 1,
+                  title: 'Claridad',
+                  score: 5,
+                  maxScore: 5,
+                  level: 'SATISFACTORIO',
+                  feedback: '...',
+                  evidence: [
+                    {
+                      page: 2,
+                      quote:
+                        'El objetivo del proyecto es reducir los tiempos de espera',
+                      check: 'VERIFIED',
+                      foundOnPage: 2,
+                    },
+                    {
+                      page: 3,
+                      quote: 'Se entrevistó a 40 usuarios',
+                      check: 'NOT_FOUND',
+                      foundOnPage: null,
+                    },
+                  ],
+                  overrideScore: null,
+                  overrideLevel: null,
+                  overrideFeedback: null,
+                },
+              ],
+              recommendations: [],
+            },
+          ],
+        },
+      },
+    },
   })
   @ApiResponse({ status: 404, description: 'Análisis no encontrado' })
   async getAnalysisResults(@Param('analysisId') analysisId: string) {
@@ -568,4 +1773,226 @@ export class EvaluationsController {
       data: results,
     };
   }
-}
\ No newline at end of file
+
+  // ============================================
+  // REVISIÓN DOCENTE
+  // ============================================
+
+  @Put('analysis/results/:resultId/override')
+  @ApiOperation({
+    summary: 'Ajustar el resultado de un grupo',
+    description:
+      'Permite al docente ajustar puntaje total, estado y/o retroalimentación general. El valor original de la IA se conserva y el cambio se registra en el historial de actividad. La justificación es obligatoria',
+  })
+  @ApiParam({
+    name: 'resultId',
+    description: 'ID del resultado del grupo',
+    type: 'string',
+  })
+  @ApiBody({ type: OverrideGroupResultDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado ajustado',
+    schema: {
+      example: {
+        success: true,
+        message: 'Resultado ajustado exitosamente',
+        data: {
+          id: 'result-uuid',
+          score: 12.5,
+          overrideScore: 14,
+          overrideJustification: 'El análisis no consideró el anexo',
+          effective: {
+            score: 14,
+            maxScore: 15,
+            status: 'PASS',
+            feedback: '...',
+            reviewed: true,
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Sin cambios, puntaje fuera de rango o análisis ya publicado',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Resultado o docente no encontrado',
+  })
+  async overrideGroupResult(
+    @Param('resultId') resultId: string,
+    @Body() dto: OverrideGroupResultDto,
+  ) {
+    const result = await this.analysisReviewService.overrideGroupResult(
+      resultId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Resultado ajustado exitosamente',
+      data: result,
+    };
+  }
+
+  @Put('analysis/criteria/:criterionResultId/override')
+  @ApiOperation({
+    summary: 'Ajustar el resultado de un criterio',
+    description:
+      'Permite al docente ajustar puntaje, nivel y/o retroalimentación de un criterio. El valor original de la IA se conserva y el cambio se registra en el historial de actividad. La justificación es obligatoria',
+  })
+  @ApiParam({
+    name: 'criterionResultId',
+    description: 'ID del resultado del criterio',
+    type: 'string',
+  })
+  @ApiBody({ type: OverrideCriterionResultDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Criterio ajustado',
+    schema: {
+      example: {
+        success: true,
+        message: 'Criterio ajustado exitosamente',
+        data: {
+          id: 'criterion-uuid',
+          level: 'REGULAR',
+          overrideLevel: 'BUENO',
+          effective: {
+            score: 4,
+            maxScore: 5,
+            level: 'BUENO',
+            feedback: '...',
+            reviewed: true,
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Sin cambios, puntaje fuera de rango o análisis ya publicado',
+  })
+  @ApiResponse({ status: 404, description: 'Criterio o docente no encontrado' })
+  async overrideCriterionResult(
+    @Param('criterionResultId') criterionResultId: string,
+    @Body() dto: OverrideCriterionResultDto,
+  ) {
+    const criterion = await this.analysisReviewService.overrideCriterionResult(
+      criterionResultId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Criterio ajustado exitosamente',
+      data: criterion,
+    };
+  }
+
+  @Put('analysis/:analysisId/review-status')
+  @ApiOperation({
+    summary: 'Cambiar el estado de revisión de un análisis',
+    description:
+      'PENDING_REVIEW → REVIEWED → PUBLISHED (y vuelta atrás de un paso). Solo los análisis publicados son visibles para los estudiantes',
+  })
+  @ApiParam({
+    name: 'analysisId',
+    description: 'ID del análisis',
+    type: 'string',
+  })
+  @ApiBody({ type: UpdateReviewStatusDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Estado actualizado',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          id: 'uuid',
+          reviewStatus: 'PUBLISHED',
+          reviewedAt: '2025-01-01T00:00:00Z',
+          publishedAt: '2025-01-02T00:00:00Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Transición no permitida o análisis en curso',
+  })
+  @ApiResponse({ status: 404, description: 'Análisis o docente no encontrado' })
+  async updateReviewStatus(
+    @Param('analysisId') analysisId: string,
+    @Body() dto: UpdateReviewStatusDto,
+  ) {
+    const analysis = await this.analysisReviewService.updateReviewStatus(
+      analysisId,
+      dto,
+    );
+
+    return {
+      success: true,
+      data: analysis,
+    };
+  }
+
+  @Get('groups/:id/published-result')
+  @ApiOperation({
+    summary: 'Resultado publicado de un grupo (vista del estudiante)',
+    description:
+      'Retorna el resultado del último análisis publicado del grupo, solo con los valores efectivos (ajuste del docente o, si no lo hay, el valor de la IA)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del grupo', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado publicado',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          group: { id: 'group-uuid', code: 'G001', name: 'Grupo A' },
+          analysisId: 'uuid',
+          publishedAt: '2025-01-02T00:00:00Z',
+          score: 14,
+          maxScore: 15,
+          status: 'PASS',
+          feedback: '...',
+          criteria: [
+            {
+              itemOrder: 1,
+              title: 'Claridad',
+              score: 5,
+              maxScore: 5,
+              level: 'SATISFACTORIO',
+              feedback: '...',
+              evidence: [
+                {
+                  page: 2,
+                  quote:
+                    'El objetivo del proyecto es reducir los tiempos de espera',
+                },
+              ],
+            },
+          ],
+          recommendations: [{ priority: 1, summary: '...', details: '...' }],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Grupo no encontrado o sin resultados publicados',
+  })
+  async getPublishedGroupResult(@Param('id') groupId: string) {
+    const result =
+      await this.analysisReviewService.getPublishedGroupResult(groupId);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
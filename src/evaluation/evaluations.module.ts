@@ -1,16 +1,51 @@
 import { Module } from '@nestjs/common';
 import { EvaluationsController } from './evaluations.controller';
+import { FilesController } from './files.controller';
 import { EvaluationsService } from './evaluations.service';
+import { RubricItemsService } from './rubric-items.service';
+import { RubricExtractionService } from './rubric-extraction.service';
+import { SubmissionsService } from './submissions.service';
+import { SubmissionStatusService } from './submission-status.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { StorageCleanupWorker } from './storage-cleanup.worker';
 import { AnalysisService } from '../analysis/analysis.service';
+import { AnalysisWorker } from '../analysis/analysis.worker';
+import { AnalysisEventsService } from '../analysis/analysis-events.service';
+import { AnalysisReviewService } from '../analysis/analysis-review.service';
+import { SimulatedGradingEngine } from '../analysis/simulated-grading.engine';
 import { PrismaModule } from '../prisma/prisma.module';
 import { S3PdfModule } from '../s3-pdf/s3-pdf.module';
 import { PdfModule } from '../pdf/pdf.module';
 import { OpenaiModule } from '../openai/openai.module';
+import { LlmModule } from '../llm/llm.module';
+import { DocumentModule } from '../document/document.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [PrismaModule, S3PdfModule, PdfModule, OpenaiModule],
-  controllers: [EvaluationsController],
-  providers: [EvaluationsService, AnalysisService],
+  imports: [
+    PrismaModule,
+    S3PdfModule,
+    PdfModule,
+    OpenaiModule,
+    LlmModule,
+    DocumentModule,
+    StorageModule,
+  ],
+  controllers: [EvaluationsController, FilesController],
+  providers: [
+    EvaluationsService,
+    RubricItemsService,
+    RubricExtractionService,
+    SubmissionsService,
+    SubmissionStatusService,
+    StorageCleanupService,
+    StorageCleanupWorker,
+    AnalysisService,
+    AnalysisWorker,
+    AnalysisEventsService,
+    AnalysisReviewService,
+    SimulatedGradingEngine,
+  ],
   exports: [EvaluationsService, AnalysisService],
 })
 export class EvaluationsModule {}
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OpenaiService } from '../openai/openai.service';
+import { PdfService } from '../pdf/pdf.service';
+import { S3PdfService } from '../s3-pdf/s3-pdf.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EvaluationsService } from './evaluations.service';
+import { RubricExtractionService } from './rubric-extraction.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+
+describe('EvaluationsService', () => {
+  let service: EvaluationsService;
+
+  const prisma = {
+    group: { findMany: jest.fn() },
+    recommendation: { findMany: jest.fn() },
+  };
+
+  const analysis = (id: string, startedAt: string) => ({
+    id,
+    engine: 'openai:gpt-4o',
+    startedAt: new Date(startedAt),
+  });
+
+  const group = (id: string, analysisResults: unknown[]) => ({
+    id,
+    code: id.toUpperCase(),
+    evaluationId: 'evaluation-1',
+    submissions: [],
+    analysisResults,
+  });
+
+  const result = (
+    groupId: string,
+    { id, startedAt }: { id: string; startedAt: string },
+  ) => ({
+    analysisId: id,
+    groupId,
+    status: 'PASS',
+    score: 16,
+    maxScore: 20,
+    feedback: 'Buen trabajo',
+    analysis: analysis(id, startedAt),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvaluationsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: S3PdfService, useValue: {} },
+        { provide: PdfService, useValue: {} },
+        { provide: OpenaiService, useValue: {} },
+        { provide: RubricExtractionService, useValue: {} },
+        { provide: StorageCleanupService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<EvaluationsService>(EvaluationsService);
+  });
+
+  describe('getGroupsWithRecommendations', () => {
+    const full = { id: 'analysis-1', startedAt: '2025-01-15T10:00:00.000Z' };
+    const partial = { id: 'analysis-2', startedAt: '2025-01-16T10:00:00.000Z' };
+
+    beforeEach(() => {
+      // El reanálisis parcial solo cubrió al grupo g2
+      prisma.group.findMany.mockResolvedValue([
+        group('g1', [result('g1', full)]),
+        group('g2', [result('g2', partial)]),
+        group('g3', []),
+      ]);
+      prisma.recommendation.findMany.mockResolvedValue([
+        { analysisId: 'analysis-1', groupId: 'g1', summary: 'Citar fuentes' },
+        { analysisId: 'analysis-2', groupId: 'g2', summary: 'Agregar pruebas' },
+      ]);
+    });
+
+    it('should combine the latest result of each group', async () => {
+      const data = await service.getGroupsWithRecommendations('evaluation-1');
+
+      expect(data.analysisIds).toEqual(['analysis-1', 'analysis-2']);
+      expect(
+        data.groups.map((g) => [g.id, g.latestResult?.analysisId ?? null]),
+      ).toEqual([
+        ['g1', 'analysis-1'],
+        ['g2', 'analysis-2'],
+        ['g3', null],
+      ]);
+      expect(data.groups[0].recommendations).toEqual([
+        expect.objectContaining({ summary: 'Citar fuentes' }),
+      ]);
+      expect(data.groups[2].recommendations).toEqual([]);
+      expect(prisma.recommendation.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { analysisId: 'analysis-1', groupId: 'g1' },
+            { analysisId: 'analysis-2', groupId: 'g2' },
+          ],
+        },
+        orderBy: { priority: 'asc' },
+      });
+    });
+
+    it('should keep the deprecated fields with the most recent analysis', async () => {
+      const data = await service.getGroupsWithRecommendations('evaluation-1');
+
+      expect(data.analysisId).toBe('analysis-2');
+      expect(data.analysisDate).toEqual(new Date(partial.startedAt));
+    });
+
+    it('should return null fields when no group was analyzed', async () => {
+      prisma.group.findMany.mockResolvedValue([group('g1', [])]);
+
+      const data = await service.getGroupsWithRecommendations('evaluation-1');
+
+      expect(data).toMatchObject({
+        analysisId: null,
+        analysisDate: null,
+        analysisIds: [],
+      });
+      expect(prisma.recommendation.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,10 +5,15 @@ import {
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
+import { createHash } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { S3PdfService } from '../s3-pdf/s3-pdf.service';
 import { PdfService } from '../pdf/pdf.service';
 import { OpenaiService } from '../openai/openai.service';
+import { RubricExtractionService } from './rubric-extraction.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { createVersionedSubmission } from './submissions.service';
+import { toLevelRows } from '../analysis/rubric-levels';
 import {
   CreateEvaluationDto,
   UpdateEvaluationDto,
@@ -26,6 +31,8 @@ export class EvaluationsService {
     private readonly s3PdfService: S3PdfService,
     private readonly pdfService: PdfService,
     private readonly openaiService: OpenaiService,
+    private readonly rubricExtractionService: RubricExtractionService,
+    private readonly storageCleanup: StorageCleanupService,
   ) {}
 
   /**
@@ -38,7 +45,7 @@ export class EvaluationsService {
     try {
       this.logger.log(`Creando evaluación: ${dto.title}`);
 
-      return await this.prisma.$transaction(async (tx) => {
+      const created = await this.prisma.$transaction(async (tx) => {
         // 1. Crear la evaluación
         const evaluation = await tx.evaluation.create({
           data: {
@@ -46,6 +53,9 @@ export class EvaluationsService {
             description: dto.description,
             totalGroups: dto.totalGroups,
             ownerId: dto.ownerId,
+            llmProvider: dto.llmProvider,
+            llmModel: dto.llmModel,
+            tokenBudget: dto.tokenBudget,
           },
         });
 
@@ -62,6 +72,9 @@ export class EvaluationsService {
               evaluationId: evaluation.id,
               title: pdfFile.originalname.replace('.pdf', ''),
               rubricPdfUrl: s3Url,
+              checksum: createHash('sha256')
+                .update(pdfFile.buffer)
+                .digest('hex'),
             },
           });
         } else {
@@ -81,13 +94,16 @@ export class EvaluationsService {
           );
 
           for (const item of dto.rubricItems) {
+            const levels = toLevelRows(item.levels ?? []);
+
             await tx.rubricItem.create({
               data: {
                 rubricId: rubric.id, // ✅ Vinculados a la rúbrica principal
                 itemOrder: item.itemOrder,
                 title: item.title,
                 conditions: item.conditions,
-                maxScore: item.maxScore || 1.0,
+                maxScore: levels.maxScore ?? (item.maxScore || 1.0),
+                levels: { create: levels.rows },
               },
             });
           }
@@ -110,6 +126,7 @@ export class EvaluationsService {
             rubrics: {
               include: {
                 rubricItems: {
+                  include: { levels: { orderBy: { levelOrder: 'asc' } } },
                   orderBy: { itemOrder: 'asc' },
                 },
               },
@@ -117,6 +134,21 @@ export class EvaluationsService {
           },
         });
       });
+
+      // 6. Proponer rubric items desde el PDF (fuera de la transacción)
+      if (
+        created &&
+        pdfFile &&
+        dto.extractRubricItems &&
+        !dto.rubricItems?.length
+      ) {
+        return {
+          ...created,
+          rubricItemProposals: await this.proposeRubricItems(pdfFile, created),
+        };
+      }
+
+      return created;
     } catch (error) {
       this.logger.error('Error al crear evaluación:', error);
       throw new BadRequestException(
@@ -125,6 +157,34 @@ export class EvaluationsService {
     }
   }
 
+  /**
+   * Extraer la propuesta de ítems del PDF de la rúbrica. Un fallo aquí no
+   * impide crear la evaluación: el docente puede reintentar la extracción.
+   */
+  private async proposeRubricItems(
+    pdfFile: Express.Multer.File,
+    evaluation: {
+      id: string;
+      ownerId: string | null;
+      title: string | null;
+      llmProvider: string | null;
+      llmModel: string | null;
+    },
+  ) {
+    try {
+      return await this.rubricExtractionService.proposeItemsFromBuffer(
+        pdfFile.buffer,
+        evaluation,
+      );
+    } catch (error) {
+      const { message } = error as Error;
+      this.logger.warn(
+        `No se pudieron extraer los rubric items del PDF: ${message}`,
+      );
+      return { error: message };
+    }
+  }
+
   /**
    * Obtener evaluación completa con todas las relaciones
    */
@@ -136,6 +196,7 @@ export class EvaluationsService {
         rubrics: {
           include: {
             rubricItems: {
+              include: { levels: { orderBy: { levelOrder: 'asc' } } },
               orderBy: { itemOrder: 'asc' },
             },
           },
@@ -143,7 +204,7 @@ export class EvaluationsService {
         groups: {
           include: {
             submissions: {
-              orderBy: { uploadedAt: 'desc' },
+              orderBy: { version: 'desc' },
               take: 1, // Solo la más reciente
             },
           },
@@ -188,7 +249,7 @@ export class EvaluationsService {
         groups: {
           include: {
             submissions: {
-              orderBy: { uploadedAt: 'desc' },
+              orderBy: { version: 'desc' },
               take: 1,
             },
           },
@@ -205,12 +266,15 @@ export class EvaluationsService {
     try {
       return await this.prisma.$transaction(async (tx) => {
         // 1. Actualizar datos básicos de la evaluación
-        const evaluation = await tx.evaluation.update({
+        await tx.evaluation.update({
           where: { id },
           data: {
             title: dto.title,
             description: dto.description,
             totalGroups: dto.totalGroups,
+            llmProvider: dto.llmProvider,
+            llmModel: dto.llmModel,
+            tokenBudget: dto.tokenBudget,
           },
         });
 
@@ -241,13 +305,16 @@ export class EvaluationsService {
 
           // Agregar los nuevos items
           for (const item of dto.additionalRubricItems) {
+            const levels = toLevelRows(item.levels ?? []);
+
             await tx.rubricItem.create({
               data: {
                 rubricId: rubric.id, // ✅ Se vinculan a la rúbrica principal
                 itemOrder: item.itemOrder || nextOrder++,
                 title: item.title,
                 conditions: item.conditions,
-                maxScore: item.maxScore || 1.0,
+                maxScore: levels.maxScore ?? (item.maxScore || 1.0),
+                levels: { create: levels.rows },
               },
             });
           }
@@ -260,6 +327,7 @@ export class EvaluationsService {
             rubrics: {
               include: {
                 rubricItems: {
+                  include: { levels: { orderBy: { levelOrder: 'asc' } } },
                   orderBy: { itemOrder: 'asc' },
                 },
               },
@@ -280,8 +348,18 @@ export class EvaluationsService {
    */
   async deleteEvaluation(id: string) {
     try {
-      await this.prisma.evaluation.delete({
-        where: { id },
+      // Los archivos se borran del almacenamiento en segundo plano, con reintentos
+      const files = await this.storageCleanup.collectEvaluationFiles(id);
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.evaluation.delete({
+          where: { id },
+        });
+        await this.storageCleanup.scheduleDeletion(
+          files,
+          `Evaluación ${id} eliminada`,
+          tx,
+        );
       });
 
       this.logger.log(`Evaluación ${id} eliminada correctamente`);
@@ -318,7 +396,7 @@ export class EvaluationsService {
       where: { id },
       include: {
         submissions: {
-          orderBy: { uploadedAt: 'desc' },
+          orderBy: { version: 'desc' },
         },
         evaluation: true,
       },
@@ -335,7 +413,7 @@ export class EvaluationsService {
     return await this.prisma.group.findMany({
       include: {
         submissions: {
-          orderBy: { uploadedAt: 'desc' },
+          orderBy: { version: 'desc' },
         },
         evaluation: true,
       },
@@ -353,62 +431,99 @@ export class EvaluationsService {
   }
 
   async deleteGroup(id: string) {
-    await this.prisma.group.delete({
-      where: { id },
+    const files = await this.storageCleanup.collectGroupFiles(id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.group.delete({
+        where: { id },
+      });
+      await this.storageCleanup.scheduleDeletion(
+        files,
+        `Grupo ${id} eliminado`,
+        tx,
+      );
     });
 
     return { success: true, message: 'Grupo eliminado correctamente' };
   }
 
   /**
-   * Obtener grupos de una evaluación con sus recomendaciones del último análisis
+   * Obtener grupos de una evaluación con su resultado más reciente.
+   * Cada grupo toma el último análisis que lo cubrió, de modo que los
+   * reanálisis parciales se combinan con los análisis completos anteriores.
    */
   async getGroupsWithRecommendations(evaluationId: string) {
-    const lastAnalysis = await this.prisma.analysis.findFirst({
-      where: { evaluationId },
-      orderBy: { startedAt: 'desc' },
-    });
-
-    if (!lastAnalysis) {
-      const groups = await this.prisma.group.findMany({
-        where: { evaluationId },
-        include: {
-          submissions: {
-            orderBy: { uploadedAt: 'desc' },
-            take: 1,
-          },
-        },
-      });
-
-      return {
-        evaluationId,
-        analysisId: null,
-        groups: groups.map((group) => ({
-          ...group,
-          recommendations: [],
-        })),
-      };
-    }
-
     const groups = await this.prisma.group.findMany({
       where: { evaluationId },
       include: {
         submissions: {
-          orderBy: { uploadedAt: 'desc' },
+          orderBy: { version: 'desc' },
           take: 1,
         },
-        recommendations: {
-          where: { analysisId: lastAnalysis.id },
-          orderBy: { priority: 'asc' },
+        analysisResults: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          include: {
+            analysis: true,
+          },
         },
       },
     });
 
+    const latestResults = groups
+      .map((group) => group.analysisResults[0])
+      .filter((result) => result !== undefined);
+
+    const recommendations =
+      latestResults.length > 0
+        ? await this.prisma.recommendation.findMany({
+            where: {
+              OR: latestResults.map(({ analysisId, groupId }) => ({
+                analysisId,
+                groupId,
+              })),
+            },
+            orderBy: { priority: 'asc' },
+          })
+        : [];
+
+    // Deprecado: el análisis más reciente con resultados, que con reanálisis
+    // parciales no cubre a todos los grupos. Usar latestResult de cada grupo.
+    const [lastAnalysis] = latestResults
+      .map((result) => result.analysis)
+      .sort(
+        (a, b) => (b.startedAt?.getTime() ?? 0) - (a.startedAt?.getTime() ?? 0),
+      );
+
     return {
       evaluationId,
-      analysisId: lastAnalysis.id,
-      analysisDate: lastAnalysis.startedAt,
-      groups,
+      analysisId: lastAnalysis?.id ?? null,
+      analysisDate: lastAnalysis?.startedAt ?? null,
+      analysisIds: [...new Set(latestResults.map((r) => r.analysisId))],
+      groups: groups.map(({ analysisResults, ...group }) => {
+        const latest = analysisResults[0];
+
+        return {
+          ...group,
+          latestResult: latest
+            ? {
+                analysisId: latest.analysisId,
+                analysisDate: latest.analysis.startedAt,
+                engine: latest.analysis.engine,
+                status: latest.status,
+                score: latest.score,
+                maxScore: latest.maxScore,
+                feedback: latest.feedback,
+              }
+            : null,
+          recommendations: latest
+            ? recommendations.filter(
+                (r) =>
+                  r.analysisId === latest.analysisId && r.groupId === group.id,
+              )
+            : [],
+        };
+      }),
     };
   }
 
@@ -417,7 +532,7 @@ export class EvaluationsService {
       where: { evaluationId },
       include: {
         submissions: {
-          orderBy: { uploadedAt: 'desc' },
+          orderBy: { version: 'desc' },
           take: 1, // Solo la submission más reciente
         },
       },
@@ -447,13 +562,11 @@ export class EvaluationsService {
   // ============================================
 
   async createSubmission(dto: CreateSubmissionDto) {
-    return await this.prisma.submission.create({
-      data: {
-        groupId: dto.groupId,
-        fileName: dto.fileName,
-        fileUrl: dto.fileUrl,
-        status: 'RECEIVED',
-      },
+    return await createVersionedSubmission(this.prisma, {
+      groupId: dto.groupId,
+      fileName: dto.fileName,
+      fileUrl: dto.fileUrl,
+      status: 'RECEIVED',
     });
   }
 
@@ -0,0 +1,179 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SubmissionsService } from './submissions.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { SweepOrphanFilesDto } from './dto/evaluation.dto';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { ExtractedTextCacheService } from '../document/extracted-text-cache.service';
+
+@ApiTags('files')
+@Controller('files')
+export class FilesController {
+  constructor(
+    private readonly submissionsService: SubmissionsService,
+    private readonly storageCleanupService: StorageCleanupService,
+    private readonly textCache: ExtractedTextCacheService,
+  ) {}
+
+  @Get(':submissionId/url')
+  @UseGuards(AdminTokenGuard)
+  @ApiOperation({
+    summary: 'URL temporal para descargar una entrega',
+    description:
+      'Los archivos se guardan como privados. Retorna una URL firmada de corta duración (FILE_DOWNLOAD_URL_TTL_SECONDS) para descargar el archivo de la entrega. Requiere el header x-admin-token',
+  })
+  @ApiParam({ name: 'submissionId', description: 'ID de la entrega' })
+  @ApiHeader({ name: 'x-admin-token', required: true })
+  @ApiResponse({
+    status: 200,
+    description: 'URL generada',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          submissionId: 'uuid',
+          fileName: 'proyecto_final.pdf',
+          url: 'https://bucket.s3.us-east-1.amazonaws.com/evaluations/uuid/groups/group-uuid/submissions/1700000000000_proyecto_final.pdf?X-Amz-Algorithm=AWS4-HMAC-SHA256&...',
+          expiresAt: '2025-01-15T10:35:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'La entrega no tiene archivo' })
+  @ApiResponse({ status: 403, description: 'Token de administración inválido' })
+  @ApiResponse({ status: 404, description: 'Entrega no encontrada' })
+  async getSubmissionFileUrl(@Param('submissionId') submissionId: string) {
+    const data = await this.submissionsService.getDownloadUrl(submissionId);
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  // ============================================
+  // ADMINISTRACIÓN DEL ALMACENAMIENTO
+  // ============================================
+
+  @Post('orphans/sweep')
+  @UseGuards(AdminTokenGuard)
+  @ApiOperation({
+    summary: 'Barrido de archivos huérfanos',
+    description:
+      'Lista los archivos bajo evaluations/ que ninguna rúbrica ni entrega referencia. Por defecto es un dry run; con dryRun=false encola su borrado. Requiere el header x-admin-token',
+  })
+  @ApiHeader({ name: 'x-admin-token', required: true })
+  @ApiBody({ type: SweepOrphanFilesDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: 'Barrido realizado',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          dryRun: true,
+          scanned: 120,
+          orphanCount: 2,
+          totalBytes: 1048576,
+          scheduled: 0,
+          orphans: [
+            {
+              key: 'evaluations/uuid/groups/group-uuid/submissions/1700000000000_informe.pdf',
+              size: 524288,
+              lastModified: '2025-01-10T12:00:00.000Z',
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Token de administración inválido' })
+  async sweepOrphans(@Body() dto: SweepOrphanFilesDto) {
+    const data = await this.storageCleanupService.sweepOrphans(
+      dto.dryRun ?? true,
+    );
+
+    return {
+      success: true,
+      message: data.dryRun
+        ? `${data.orphanCount} archivos huérfanos encontrados (dry run)`
+        : `${data.scheduled} archivos huérfanos encolados para borrar`,
+      data,
+    };
+  }
+
+  @Get('deletions')
+  @UseGuards(AdminTokenGuard)
+  @ApiOperation({
+    summary: 'Estado de la cola de borrado de archivos',
+    description:
+      'Cantidad de borrados por estado y los últimos que fallaron tras agotar sus reintentos. Requiere el header x-admin-token',
+  })
+  @ApiHeader({ name: 'x-admin-token', required: true })
+  @ApiResponse({ status: 200, description: 'Estado de la cola' })
+  @ApiResponse({ status: 403, description: 'Token de administración inválido' })
+  async getDeletionQueue() {
+    const data = await this.storageCleanupService.getDeletionQueue();
+
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Delete('extractions/:checksum')
+  @UseGuards(AdminTokenGuard)
+  @ApiOperation({
+    summary: 'Descartar el texto extraído de un documento',
+    description:
+      'El texto de rúbricas y entregas se guarda indexado por el sha256 del archivo y se reutiliza en los análisis siguientes. Este endpoint lo descarta (por ejemplo, si la extracción u OCR salió mal) para que el próximo análisis vuelva a descargar y parsear el archivo. El checksum es el de la entrega o la rúbrica. Requiere el header x-admin-token',
+  })
+  @ApiParam({
+    name: 'checksum',
+    description: 'sha256 del contenido del archivo',
+    example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+  })
+  @ApiHeader({ name: 'x-admin-token', required: true })
+  @ApiResponse({
+    status: 200,
+    description: 'Texto descartado',
+    schema: {
+      example: {
+        success: true,
+        message: 'Texto extraído descartado',
+        data: {
+          checksum:
+            'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+          invalidated: true,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Token de administración inválido' })
+  async invalidateExtraction(@Param('checksum') checksum: string) {
+    const data = await this.textCache.invalidate(checksum.toLowerCase());
+
+    return {
+      success: true,
+      message: data.invalidated
+        ? 'Texto extraído descartado'
+        : 'El documento no tenía texto en caché',
+      data,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Schema Zod para extraer los criterios de una rúbrica en PDF
+export const RubricExtractionSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemOrder: z
+          .number()
+          .describe('Número de orden del criterio en la rúbrica, desde 1'),
+        title: z.string().describe('Nombre corto del criterio'),
+        conditions: z
+          .string()
+          .describe(
+            'Qué se espera del trabajo en este criterio, incluyendo los descriptores de nivel si la rúbrica los tiene',
+          ),
+        maxScore: z
+          .number()
+          .describe(
+            'Puntaje máximo del criterio; 0 si la rúbrica no lo indica',
+          ),
+      }),
+    )
+    .describe('Criterios de evaluación encontrados en la rúbrica'),
+  warnings: z
+    .array(z.string())
+    .describe(
+      'Ambigüedades detectadas (puntajes faltantes, criterios poco claros, totales que no cuadran)',
+    ),
+});
+
+export type RubricExtractionResponse = z.infer<typeof RubricExtractionSchema>;
@@ -0,0 +1,204 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { DocumentExtractionService } from '../document/document-extraction.service';
+import { PdfService } from '../pdf/pdf.service';
+import { LlmProviderRegistry, ResolvedLlm } from '../llm/llm-provider.registry';
+import { LlmResilienceService } from '../llm/llm-resilience.service';
+import {
+  RubricExtractionResponse,
+  RubricExtractionSchema,
+} from './rubric-extraction.schema';
+import { ExtractRubricItemsDto } from './dto/evaluation.dto';
+
+// Límite de tokens de la rúbrica que se envían al modelo
+const MAX_RUBRIC_TOKENS = 15000;
+
+export interface RubricItemProposal {
+  itemOrder: number;
+  title: string;
+  conditions: string;
+  maxScore: number | null;
+}
+
+/**
+ * Extracción de criterios estructurados desde el PDF de una rúbrica.
+ * El resultado es solo una propuesta: no se guarda hasta que el docente la
+ * confirma (ver RubricItemsService.confirmItems).
+ */
+@Injectable()
+export class RubricExtractionService {
+  private readonly logger = new Logger(RubricExtractionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documentExtraction: DocumentExtractionService,
+    private readonly pdfService: PdfService,
+    private readonly llmProviders: LlmProviderRegistry,
+    private readonly llmResilience: LlmResilienceService,
+  ) {}
+
+  /**
+   * Proponer los ítems de una rúbrica a partir de su PDF en S3
+   */
+  async proposeItems(
+    evaluationId: string,
+    rubricId: string,
+    dto: ExtractRubricItemsDto = {},
+  ) {
+    const rubric = await this.prisma.rubric.findFirst({
+      where: { id: rubricId, evaluationId },
+      include: { evaluation: true },
+    });
+
+    if (!rubric) {
+      throw new NotFoundException(
+        `Rúbrica ${rubricId} no encontrada en la evaluación ${evaluationId}`,
+      );
+    }
+
+    if (!rubric.rubricPdfUrl) {
+      throw new BadRequestException('La rúbrica no tiene un PDF asociado');
+    }
+
+    const { text: rubricText, checksum } =
+      await this.documentExtraction.extractFromUrl(
+        rubric.rubricPdfUrl,
+        rubric.title,
+        rubric.checksum,
+        { evaluationId, userId: rubric.evaluation.ownerId },
+      );
+
+    // Rúbricas anteriores al checksum: se guarda para no volver a descargarlas
+    if (!rubric.checksum) {
+      await this.prisma.rubric.update({
+        where: { id: rubric.id },
+        data: { checksum },
+      });
+    }
+
+    const llm = this.llmProviders.resolve(
+      dto.provider ?? rubric.evaluation.llmProvider,
+      dto.model ?? rubric.evaluation.llmModel,
+    );
+
+    return {
+      rubricId,
+      ...(await this.extractFromText(rubricText, llm, rubric.evaluation)),
+    };
+  }
+
+  /**
+   * Proponer ítems a partir del PDF recién subido (al crear la evaluación)
+   */
+  async proposeItemsFromBuffer(
+    buffer: Buffer,
+    evaluation: {
+      id: string;
+      ownerId: string | null;
+      title: string | null;
+      llmProvider: string | null;
+      llmModel: string | null;
+    },
+  ) {
+    const rubricText = await this.pdfService.extractTextFromBuffer(buffer);
+    const llm = this.llmProviders.resolve(
+      evaluation.llmProvider,
+      evaluation.llmModel,
+    );
+
+    return this.extractFromText(rubricText, llm, evaluation);
+  }
+
+  private async extractFromText(
+    rubricText: string,
+    llm: ResolvedLlm,
+    evaluation: { id: string; ownerId: string | null; title: string | null },
+  ) {
+    const text = this.pdfService.cleanText(rubricText);
+
+    if (!text) {
+      throw new BadRequestException(
+        'No se pudo extraer texto del PDF de la rúbrica',
+      );
+    }
+
+    this.logger.log(
+      `Extrayendo criterios de la rúbrica con ${this.llmProviders.toEngine(llm)}`,
+    );
+
+    const systemPrompt = `Eres un asistente que convierte rúbricas de evaluación académica en criterios estructurados.
+
+INSTRUCCIONES:
+1. Identifica cada criterio de evaluación de la rúbrica, en el orden en que aparece.
+2. Usa un título corto para cada criterio y resume en "conditions" lo que se exige, incluyendo los descriptores de cada nivel si existen.
+3. Usa el puntaje máximo indicado por la rúbrica. Si no lo indica, usa 0 y agrega una advertencia.
+4. No inventes criterios que no estén en el texto.
+5. Reporta en "warnings" cualquier ambigüedad (puntajes faltantes, totales que no cuadran, texto ilegible).`;
+
+    const userPrompt = `# RÚBRICA${evaluation.title ? ` DE: ${evaluation.title}` : ''}
+
+${this.pdfService.truncateText(text, MAX_RUBRIC_TOKENS, llm.model)}`;
+
+    const { result: extraction, llm: extractedWith } =
+      await this.llmResilience.call<RubricExtractionResponse>(
+        llm,
+        ({ provider, model }, signal) =>
+          provider.completeStructured(
+            [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt },
+            ],
+            {
+              model,
+              schema: RubricExtractionSchema,
+              schemaName: 'rubric_extraction',
+              temperature: 0,
+              usage: {
+                evaluationId: evaluation.id,
+                userId: evaluation.ownerId,
+              },
+              signal,
+            },
+          ),
+      );
+
+    const items: RubricItemProposal[] = extraction.items
+      .filter((item) => item.title.trim().length > 0)
+      .sort((a, b) => a.itemOrder - b.itemOrder)
+      .map((item, index) => ({
+        itemOrder: index + 1,
+        title: item.title.trim().slice(0, 160),
+        conditions: item.conditions.trim(),
+        maxScore: item.maxScore > 0 ? item.maxScore : null,
+      }));
+
+    const warnings = [...extraction.warnings];
+    if (this.pdfService.countTokens(text, llm.model) > MAX_RUBRIC_TOKENS) {
+      warnings.push(
+        `La rúbrica se truncó a ${MAX_RUBRIC_TOKENS} tokens para la extracción`,
+      );
+    }
+    if (items.length === 0) {
+      warnings.push('No se encontraron criterios en la rúbrica');
+    }
+
+    const totalMaxScore = items.reduce(
+      (sum, item) => sum + (item.maxScore ?? 0),
+      0,
+    );
+
+    this.logger.log(`${items.length} criterios propuestos`);
+
+    return {
+      engine: this.llmProviders.toEngine(extractedWith),
+      items,
+      totalMaxScore: Math.round(totalMaxScore * 100) / 100,
+      warnings,
+    };
+  }
+}
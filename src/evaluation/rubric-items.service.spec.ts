@@ -0,0 +1,155 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RubricItemsService } from './rubric-items.service';
+
+describe('RubricItemsService', () => {
+  let service: RubricItemsService;
+  let items: Array<{ id: string; itemOrder: number; maxScore: number }>;
+
+  // Ítems en memoria con la restricción única de uk_rubric_item_order
+  const rubricItem = {
+    findMany: jest.fn(() =>
+      Promise.resolve(
+        [...items]
+          .sort((a, b) => a.itemOrder - b.itemOrder)
+          .map((item) => ({ ...item, levels: [] })),
+      ),
+    ),
+    findFirst: jest.fn(({ where }: { where: { id: string } }) =>
+      Promise.resolve(items.find((item) => item.id === where.id) ?? null),
+    ),
+    update: jest.fn(
+      ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { itemOrder: number };
+      }) => {
+        if (
+          items.some(
+            (item) => item.id !== where.id && item.itemOrder === data.itemOrder,
+          )
+        ) {
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('uk_rubric_item_order', {
+              code: 'P2002',
+              clientVersion: 'test',
+            }),
+          );
+        }
+        const item = items.find((candidate) => candidate.id === where.id)!;
+        item.itemOrder = data.itemOrder;
+        return Promise.resolve(item);
+      },
+    ),
+    delete: jest.fn(({ where }: { where: { id: string } }) => {
+      items = items.filter((item) => item.id !== where.id);
+      return Promise.resolve();
+    }),
+  };
+
+  const prisma = {
+    rubric: { findFirst: jest.fn() },
+    rubricItem,
+    analysisCriterionResult: { count: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const order = () =>
+    [...items]
+      .sort((a, b) => a.itemOrder - b.itemOrder)
+      .map((item) => `${item.itemOrder}:${item.id}`);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    items = [
+      { id: 'a', itemOrder: 1, maxScore: 4 },
+      { id: 'b', itemOrder: 2, maxScore: 6 },
+      { id: 'c', itemOrder: 3, maxScore: 10 },
+    ];
+    prisma.rubric.findFirst.mockResolvedValue({ id: 'rubric-1' });
+    prisma.analysisCriterionResult.count.mockResolvedValue(0);
+    prisma.$transaction.mockImplementation(
+      (run: (tx: typeof prisma) => Promise<unknown>) => run(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RubricItemsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RubricItemsService>(RubricItemsService);
+  });
+
+  describe('reorderItems', () => {
+    it('should renumber the items in the given order', async () => {
+      const summary = await service.reorderItems('evaluation-1', 'rubric-1', {
+        itemIds: ['c', 'a', 'b'],
+      });
+
+      expect(order()).toEqual(['1:c', '2:a', '3:b']);
+      expect(summary.items.map((item) => item.id)).toEqual(['c', 'a', 'b']);
+      expect(summary.totalMaxScore).toBe(20);
+    });
+
+    it('should reject repeated IDs', async () => {
+      await expect(
+        service.reorderItems('evaluation-1', 'rubric-1', {
+          itemIds: ['a', 'a', 'b'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should require every item of the rubric', async () => {
+      await expect(
+        service.reorderItems('evaluation-1', 'rubric-1', {
+          itemIds: ['b', 'a'],
+        }),
+      ).rejects.toThrow('exactamente los 3 ítems');
+      await expect(
+        service.reorderItems('evaluation-1', 'rubric-1', {
+          itemIds: ['b', 'a', 'x'],
+        }),
+      ).rejects.toThrow('IDs desconocidos: x');
+      expect(order()).toEqual(['1:a', '2:b', '3:c']);
+    });
+
+    it('should fail for rubrics of another evaluation', async () => {
+      prisma.rubric.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.reorderItems('evaluation-2', 'rubric-1', {
+          itemIds: ['a', 'b', 'c'],
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteItem', () => {
+    it('should compact the order of the remaining items', async () => {
+      const summary = await service.deleteItem('evaluation-1', 'rubric-1', 'a');
+
+      expect(order()).toEqual(['1:b', '2:c']);
+      expect(summary.totalMaxScore).toBe(16);
+    });
+
+    it('should require force when the item has analysis results', async () => {
+      prisma.analysisCriterionResult.count.mockResolvedValue(2);
+
+      await expect(
+        service.deleteItem('evaluation-1', 'rubric-1', 'b'),
+      ).rejects.toThrow(BadRequestException);
+      expect(rubricItem.delete).not.toHaveBeenCalled();
+
+      await service.deleteItem('evaluation-1', 'rubric-1', 'b', true);
+
+      expect(order()).toEqual(['1:a', '2:c']);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RubricItemWithLevels, toLevelRows } from '../analysis/rubric-levels';
+import {
+  ConfirmRubricItemsDto,
+  ReorderRubricItemsDto,
+  UpdateRubricItemDto,
+} from './dto/evaluation.dto';
+
+/**
+ * Edición de los ítems de una rúbrica.
+ * itemOrder tiene una restricción única por rúbrica (uk_rubric_item_order),
+ * por lo que cualquier renumeración se hace en dos fases dentro de una
+ * transacción: primero a valores negativos temporales y luego al orden final.
+ */
+@Injectable()
+export class RubricItemsService {
+  private readonly logger = new Logger(RubricItemsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar los ítems de una rúbrica con su puntaje máximo total
+   */
+  async listItems(evaluationId: string, rubricId: string) {
+    await this.getRubricOrFail(evaluationId, rubricId);
+
+    return this.buildSummary(this.prisma, rubricId);
+  }
+
+  /**
+   * Guardar los ítems confirmados por el docente (por ejemplo, los propuestos
+   * a partir del PDF). Se agregan al final o reemplazan los existentes.
+   */
+  async confirmItems(
+    evaluationId: string,
+    rubricId: string,
+    dto: ConfirmRubricItemsDto,
+  ) {
+    await this.getRubricOrFail(evaluationId, rubricId);
+
+    const summary = await this.prisma.$transaction(async (tx) => {
+      let nextOrder = 1;
+
+      if (dto.replaceExisting) {
+        const resultCount = await tx.analysisCriterionResult.count({
+          where: { rubricItem: { rubricId } },
+        });
+
+        if (resultCount > 0) {
+          throw new BadRequestException(
+            `Los ítems actuales tienen ${resultCount} resultados de análisis asociados; no se pueden reemplazar`,
+          );
+        }
+
+        await tx.rubricItem.deleteMany({ where: { rubricId } });
+      } else {
+        const lastItem = await tx.rubricItem.findFirst({
+          where: { rubricId },
+          orderBy: { itemOrder: 'desc' },
+        });
+        nextOrder = lastItem ? lastItem.itemOrder + 1 : 1;
+      }
+
+      const items = [...dto.items].sort((a, b) => a.itemOrder - b.itemOrder);
+
+      for (const [index, item] of items.entries()) {
+        const levels = toLevelRows(item.levels ?? []);
+
+        await tx.rubricItem.create({
+          data: {
+            rubricId,
+            itemOrder: nextOrder + index,
+            title: item.title,
+            conditions: item.conditions,
+            maxScore: levels.maxScore ?? (item.maxScore || 1.0),
+            levels: { create: levels.rows },
+          },
+        });
+      }
+
+      return this.buildSummary(tx, rubricId);
+    });
+
+    this.logger.log(
+      `${dto.items.length} rubric items confirmados en la rúbrica ${rubricId}`,
+    );
+
+    return summary;
+  }
+
+  /**
+   * Actualizar título, condiciones, puntaje máximo y/o niveles de un ítem.
+   * Los niveles enviados reemplazan a los actuales.
+   */
+  async updateItem(
+    evaluationId: string,
+    rubricId: string,
+    itemId: string,
+    dto: UpdateRubricItemDto,
+  ) {
+    await this.getItemOrFail(evaluationId, rubricId, itemId);
+
+    const levels = dto.levels ? toLevelRows(dto.levels) : undefined;
+
+    const item = await this.prisma.$transaction(async (tx) => {
+      if (levels) {
+        await tx.rubricItemLevel.deleteMany({
+          where: { rubricItemId: itemId },
+        });
+      }
+
+      return tx.rubricItem.update({
+        where: { id: itemId },
+        data: {
+          title: dto.title,
+          conditions: dto.conditions,
+          maxScore: levels?.maxScore ?? dto.maxScore,
+          levels: levels ? { create: levels.rows } : undefined,
+        },
+        include: { levels: { orderBy: { levelOrder: 'asc' } } },
+      });
+    });
+
+    this.logger.log(`Rubric item ${itemId} actualizado`);
+
+    return {
+      item,
+      ...(await this.buildSummary(this.prisma, rubricId)),
+    };
+  }
+
+  /**
+   * Eliminar un ítem y compactar el orden de los restantes (1..n).
+   * Si el ítem ya tiene resultados de análisis solo se elimina con force,
+   * ya que esos resultados se borran en cascada.
+   */
+  async deleteItem(
+    evaluationId: string,
+    rubricId: string,
+    itemId: string,
+    force = false,
+  ) {
+    await this.getItemOrFail(evaluationId, rubricId, itemId);
+
+    const resultCount = await this.prisma.analysisCriterionResult.count({
+      where: { rubricItemId: itemId },
+    });
+
+    if (resultCount > 0 && !force) {
+      throw new BadRequestException(
+        `El ítem tiene ${resultCount} resultados de análisis asociados; usa force=true para eliminarlo junto con ellos`,
+      );
+    }
+
+    const summary = await this.prisma.$transaction(async (tx) => {
+      await tx.rubricItem.delete({ where: { id: itemId } });
+
+      const remaining = await tx.rubricItem.findMany({
+        where: { rubricId },
+        orderBy: { itemOrder: 'asc' },
+      });
+
+      await this.rewriteOrder(
+        tx,
+        remaining.map((item) => item.id),
+      );
+
+      return this.buildSummary(tx, rubricId);
+    });
+
+    this.logger.log(
+      `Rubric item ${itemId} eliminado (${resultCount} resultados asociados)`,
+    );
+
+    return summary;
+  }
+
+  /**
+   * Reordenar todos los ítems de la rúbrica según la lista de IDs recibida
+   */
+  async reorderItems(
+    evaluationId: string,
+    rubricId: string,
+    dto: ReorderRubricItemsDto,
+  ) {
+    await this.getRubricOrFail(evaluationId, rubricId);
+
+    if (new Set(dto.itemIds).size !== dto.itemIds.length) {
+      throw new BadRequestException('La lista de ítems contiene IDs repetidos');
+    }
+
+    const summary = await this.prisma.$transaction(async (tx) => {
+      const items = await tx.rubricItem.findMany({
+        where: { rubricId },
+        select: { id: true },
+      });
+      const currentIds = new Set(items.map((item) => item.id));
+      const unknown = dto.itemIds.filter((id) => !currentIds.has(id));
+
+      if (unknown.length > 0 || dto.itemIds.length !== items.length) {
+        throw new BadRequestException(
+          `La lista debe contener exactamente los ${items.length} ítems de la rúbrica` +
+            (unknown.length > 0
+              ? ` (IDs desconocidos: ${unknown.join(', ')})`
+              : ''),
+        );
+      }
+
+      await this.rewriteOrder(tx, dto.itemIds);
+
+      return this.buildSummary(tx, rubricId);
+    });
+
+    this.logger.log(
+      `Rúbrica ${rubricId} reordenada (${dto.itemIds.length} ítems)`,
+    );
+
+    return summary;
+  }
+
+  // ============================================
+  // MÉTODOS AUXILIARES
+  // ============================================
+
+  /**
+   * Asignar itemOrder 1..n según el orden de la lista, sin violar la
+   * restricción única en los pasos intermedios
+   */
+  private async rewriteOrder(tx: Prisma.TransactionClient, itemIds: string[]) {
+    for (const [index, id] of itemIds.entries()) {
+      await tx.rubricItem.update({
+        where: { id },
+        data: { itemOrder: -(index + 1) },
+      });
+    }
+
+    for (const [index, id] of itemIds.entries()) {
+      await tx.rubricItem.update({
+        where: { id },
+        data: { itemOrder: index + 1 },
+      });
+    }
+  }
+
+  private async buildSummary(
+    client: Prisma.TransactionClient,
+    rubricId: string,
+  ): Promise<{
+    rubricId: string;
+    items: RubricItemWithLevels[];
+    totalMaxScore: number;
+  }> {
+    const items = await client.rubricItem.findMany({
+      where: { rubricId },
+      include: { levels: { orderBy: { levelOrder: 'asc' } } },
+      orderBy: { itemOrder: 'asc' },
+    });
+
+    const totalMaxScore = items.reduce(
+      (sum, item) => sum + Number(item.maxScore ?? 0),
+      0,
+    );
+
+    return {
+      rubricId,
+      items,
+      totalMaxScore: Math.round(totalMaxScore * 100) / 100,
+    };
+  }
+
+  private async getRubricOrFail(evaluationId: string, rubricId: string) {
+    const rubric = await this.prisma.rubric.findFirst({
+      where: { id: rubricId, evaluationId },
+    });
+
+    if (!rubric) {
+      throw new NotFoundException(
+        `Rúbrica ${rubricId} no encontrada en la evaluación ${evaluationId}`,
+      );
+    }
+
+    return rubric;
+  }
+
+  private async getItemOrFail(
+    evaluationId: string,
+    rubricId: string,
+    itemId: string,
+  ) {
+    await this.getRubricOrFail(evaluationId, rubricId);
+
+    const item = await this.prisma.rubricItem.findFirst({
+      where: { id: itemId, rubricId },
+    });
+
+    if (!item) {
+      throw new NotFoundException(
+        `Rubric item ${itemId} no encontrado en la rúbrica ${rubricId}`,
+      );
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,181 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+
+describe('StorageCleanupService', () => {
+  let cleanup: StorageCleanupService;
+
+  const HOUR = 60 * 60 * 1000;
+  const ago = (ms: number) => new Date(Date.now() - ms);
+
+  const prisma = {
+    rubric: { findMany: jest.fn() },
+    submission: { findMany: jest.fn(), deleteMany: jest.fn() },
+    storageDeletion: { findMany: jest.fn(), createMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const storageService = {
+    list: jest.fn(),
+    toUrl: (key: string) => `local://${key}`,
+    isValidUrl: (url: string) => url.startsWith('local://'),
+    parseUrl: (url: string) => ({ key: url.slice('local://'.length) }),
+  };
+
+  // Filas encoladas por scheduleDeletion
+  const scheduled = () =>
+    (
+      prisma.storageDeletion.createMany.mock.calls as Array<
+        [{ data: Array<{ fileUrl: string }> }]
+      >
+    ).flatMap(([{ data }]) => data.map((row) => row.fileUrl));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (run: (tx: typeof prisma) => Promise<unknown>) => run(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageCleanupService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: StorageService, useValue: storageService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (_key: string, defaultValue?: unknown) => defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    cleanup = module.get<StorageCleanupService>(StorageCleanupService);
+  });
+
+  describe('sweepOrphans', () => {
+    const object = (key: string, lastModified = ago(2 * HOUR)) => ({
+      key,
+      size: 100,
+      lastModified,
+    });
+
+    beforeEach(() => {
+      storageService.list.mockResolvedValue([
+        object('evaluations/e1/rubrics/rubrica.pdf'),
+        object('evaluations/e1/groups/g1/submissions/v1.pdf'),
+        object('evaluations/e1/groups/g1/submissions/pendiente.pdf'),
+        object('evaluations/e1/groups/g1/submissions/encolado.pdf'),
+        object('evaluations/e1/groups/g1/submissions/reciente.pdf', ago(0)),
+        object('evaluations/e1/groups/g1/submissions/huerfano.pdf'),
+      ]);
+      prisma.rubric.findMany.mockResolvedValue([
+        { rubricPdfUrl: 'local://evaluations/e1/rubrics/rubrica.pdf' },
+      ]);
+      prisma.submission.findMany.mockImplementation(
+        ({ where }: { where: { status?: string } }) =>
+          Promise.resolve(
+            where.status === 'PENDING'
+              ? [
+                  {
+                    meta: {
+                      directUpload: {
+                        key: 'evaluations/e1/groups/g1/submissions/pendiente.pdf',
+                      },
+                    },
+                  },
+                ]
+              : [
+                  {
+                    fileUrl:
+                      'local://evaluations/e1/groups/g1/submissions/v1.pdf',
+                  },
+                  // Entregas antiguas con URLs de otro almacenamiento
+                  { fileUrl: 'https://otro-bucket.example.com/v0.pdf' },
+                ],
+          ),
+      );
+      prisma.storageDeletion.findMany.mockResolvedValue([
+        {
+          fileUrl: 'local://evaluations/e1/groups/g1/submissions/encolado.pdf',
+        },
+      ]);
+    });
+
+    it('should only list old files that nothing references', async () => {
+      const result = await cleanup.sweepOrphans();
+
+      expect(result).toMatchObject({
+        dryRun: true,
+        scanned: 6,
+        orphanCount: 1,
+        totalBytes: 100,
+        scheduled: 0,
+      });
+      expect(result.orphans.map((orphan) => orphan.key)).toEqual([
+        'evaluations/e1/groups/g1/submissions/huerfano.pdf',
+      ]);
+      expect(prisma.storageDeletion.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should schedule the orphans for deletion without dry run', async () => {
+      const result = await cleanup.sweepOrphans(false);
+
+      expect(result.scheduled).toBe(1);
+      expect(scheduled()).toEqual([
+        'local://evaluations/e1/groups/g1/submissions/huerfano.pdf',
+      ]);
+    });
+  });
+
+  describe('expirePendingUploads', () => {
+    const directUpload = (id: string, expiresAt: Date) => ({
+      id,
+      uploadedAt: ago(3 * HOUR),
+      meta: {
+        directUpload: {
+          key: `evaluations/e1/groups/g1/submissions/${id}.pdf`,
+          expiresAt: expiresAt.toISOString(),
+        },
+      },
+    });
+
+    beforeEach(() => {
+      prisma.submission.findMany.mockResolvedValue([
+        directUpload('vencida', ago(2 * HOUR)),
+        // La URL venció hace menos de STORAGE_ORPHAN_MIN_AGE_MINUTES
+        directUpload('en-plazo', ago(HOUR / 2)),
+        { id: 'servidor', uploadedAt: ago(2 * HOUR), meta: {} },
+      ]);
+      prisma.submission.deleteMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should delete expired uploads and schedule their files', async () => {
+      const removed = await cleanup.expirePendingUploads();
+
+      expect(removed).toBe(2);
+      expect(
+        prisma.submission.deleteMany.mock.calls.map(
+          ([{ where }]: [{ where: { id: string } }]) => where.id,
+        ),
+      ).toEqual(['vencida', 'servidor']);
+      expect(prisma.submission.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'vencida', status: 'PENDING', fileUrl: null },
+      });
+      expect(scheduled()).toEqual([
+        'local://evaluations/e1/groups/g1/submissions/vencida.pdf',
+      ]);
+    });
+
+    it('should keep uploads confirmed in the meantime', async () => {
+      prisma.submission.deleteMany.mockResolvedValue({ count: 0 });
+
+      const removed = await cleanup.expirePendingUploads();
+
+      expect(removed).toBe(0);
+      expect(prisma.storageDeletion.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+
+// Prefijo bajo el que se guardan rúbricas y entregas
+const EVALUATIONS_PREFIX = 'evaluations/';
+
+/**
+ * Limpieza del almacenamiento: al eliminar evaluaciones, grupos o entregas
+ * sus archivos se encolan en storage_deletions y StorageCleanupWorker los
+ * borra con reintentos. El barrido de huérfanos detecta archivos bajo
+ * evaluations/ que ninguna fila de la base de datos referencia. Las
+ * entregas PENDING cuya subida no se completó se eliminan al vencer.
+ */
+@Injectable()
+export class StorageCleanupService {
+  private readonly logger = new Logger(StorageCleanupService.name);
+  private readonly maxAttempts: number;
+  private readonly orphanMinAgeMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get('STORAGE_CLEANUP_MAX_ATTEMPTS', 5),
+    );
+    this.orphanMinAgeMs =
+      Number(this.configService.get('STORAGE_ORPHAN_MIN_AGE_MINUTES', 60)) *
+      60 *
+      1000;
+  }
+
+  /**
+   * Encolar el borrado de archivos. Recibe el cliente de la transacción para
+   * encolarlos junto con la eliminación de las filas que los referencian.
+   */
+  async scheduleDeletion(
+    fileUrls: Array<string | null | undefined>,
+    reason: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const urls = [
+      ...new Set(fileUrls.filter((url): url is string => Boolean(url))),
+    ];
+
+    if (urls.length === 0) {
+      return 0;
+    }
+
+    await tx.storageDeletion.createMany({
+      data: urls.map((fileUrl) => ({
+        fileUrl,
+        reason: reason.slice(0, 160),
+        maxAttempts: this.maxAttempts,
+      })),
+    });
+
+    this.logger.log(
+      `${urls.length} archivos encolados para borrar (${reason})`,
+    );
+
+    return urls.length;
+  }
+
+  /**
+   * Archivos de una evaluación completa: PDFs de rúbrica y entregas
+   */
+  async collectEvaluationFiles(evaluationId: string) {
+    const [rubrics, submissions] = await Promise.all([
+      this.prisma.rubric.findMany({
+        where: { evaluationId },
+        select: { rubricPdfUrl: true },
+      }),
+      this.prisma.submission.findMany({
+        where: { group: { evaluationId } },
+        select: { fileUrl: true },
+      }),
+    ]);
+
+    return [
+      ...rubrics.map((rubric) => rubric.rubricPdfUrl),
+      ...submissions.map((submission) => submission.fileUrl),
+    ];
+  }
+
+  async collectGroupFiles(groupId: string) {
+    const submissions = await this.prisma.submission.findMany({
+      where: { groupId },
+      select: { fileUrl: true },
+    });
+
+    return submissions.map((submission) => submission.fileUrl);
+  }
+
+  /**
+   * Archivos bajo evaluations/ que ninguna rúbrica ni entrega referencia.
+   * Con dryRun solo los lista; sin él encola su borrado. Se ignoran los
+   * archivos recientes (STORAGE_ORPHAN_MIN_AGE_MINUTES) para no borrar
+   * subidas en curso, y los que ya están en la cola de borrado.
+   */
+  async sweepOrphans(dryRun = true) {
+    const [objects, referencedKeys] = await Promise.all([
+      this.storageService.list(EVALUATIONS_PREFIX),
+      this.collectReferencedKeys(),
+    ]);
+
+    const minLastModified = Date.now() - this.orphanMinAgeMs;
+
+    const orphans = objects.filter(
+      (object) =>
+        !referencedKeys.has(object.key) &&
+        (object.lastModified?.getTime() ?? 0) < minLastModified,
+    );
+
+    const totalBytes = orphans.reduce(
+      (total, object) => total + (object.size ?? 0),
+      0,
+    );
+
+    const scheduled = dryRun
+      ? 0
+      : await this.scheduleDeletion(
+          orphans.map((object) => this.storageService.toUrl(object.key)),
+          'Barrido de archivos huérfanos',
+        );
+
+    this.logger.log(
+      `Barrido de huérfanos${dryRun ? ' (dry run)' : ''}: ${orphans.length} de ${objects.length} archivos sin referencia`,
+    );
+
+    return {
+      dryRun,
+      scanned: objects.length,
+      orphanCount: orphans.length,
+      totalBytes,
+      scheduled,
+      orphans: orphans.map((object) => ({
+        key: object.key,
+        size: object.size,
+        lastModified: object.lastModified,
+      })),
+    };
+  }
+
+  /**
+   * Eliminar las entregas PENDING abandonadas: subidas directas cuya URL
+   * venció hace más de STORAGE_ORPHAN_MIN_AGE_MINUTES sin confirmarse, y
+   * subidas por el servidor que no terminaron en ese plazo. El archivo que
+   * haya llegado a subirse se encola para borrar. Al eliminar la última
+   * versión del grupo su número vuelve a quedar libre.
+   */
+  async expirePendingUploads() {
+    const cutoff = Date.now() - this.orphanMinAgeMs;
+
+    const pending = await this.prisma.submission.findMany({
+      where: { status: 'PENDING', fileUrl: null },
+      select: { id: true, uploadedAt: true, meta: true },
+    });
+
+    const expired = pending.flatMap((submission) => {
+      const { directUpload } =
+        (submission.meta as {
+          directUpload?: { key: string; expiresAt: string };
+        } | null) ?? {};
+      const deadline = directUpload
+        ? new Date(directUpload.expiresAt).getTime()
+        : (submission.uploadedAt?.getTime() ?? 0);
+
+      return deadline < cutoff
+        ? [{ id: submission.id, key: directUpload?.key }]
+        : [];
+    });
+
+    let removed = 0;
+    for (const submission of expired) {
+      removed += await this.prisma.$transaction(async (tx) => {
+        // Condicionado al estado: una confirmación en paralelo gana
+        const { count } = await tx.submission.deleteMany({
+          where: { id: submission.id, status: 'PENDING', fileUrl: null },
+        });
+
+        if (count > 0 && submission.key) {
+          await this.scheduleDeletion(
+            [this.storageService.toUrl(submission.key)],
+            'Subida directa vencida sin confirmar',
+            tx,
+          );
+        }
+
+        return count;
+      });
+    }
+
+    if (removed > 0) {
+      this.logger.log(`${removed} entregas PENDING vencidas eliminadas`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Resumen de la cola de borrado, con los borrados que agotaron sus intentos
+   */
+  async getDeletionQueue() {
+    const [byStatus, failed] = await Promise.all([
+      this.prisma.storageDeletion.groupBy({
+        by: ['status'],
+        _count: { _all: true },
+      }),
+      this.prisma.storageDeletion.findMany({
+        where: { status: 'FAILED' },
+        orderBy: { finishedAt: 'desc' },
+        take: 50,
+      }),
+    ]);
+
+    const counts = { QUEUED: 0, RUNNING: 0, COMPLETED: 0, FAILED: 0 };
+    for (const row of byStatus) {
+      counts[row.status] = row._count._all;
+    }
+
+    return { counts, failed };
+  }
+
+  /**
+   * Keys referenciadas por la base de datos: rúbricas, entregas, subidas
+   * directas pendientes y archivos que ya esperan su borrado
+   */
+  private async collectReferencedKeys() {
+    const [rubrics, submissions, pendingUploads, queued] = await Promise.all([
+      this.prisma.rubric.findMany({
+        where: { rubricPdfUrl: { not: null } },
+        select: { rubricPdfUrl: true },
+      }),
+      this.prisma.submission.findMany({
+        where: { fileUrl: { not: null } },
+        select: { fileUrl: true },
+      }),
+      this.prisma.submission.findMany({
+        where: { status: 'PENDING', fileUrl: null },
+        select: { meta: true },
+      }),
+      this.prisma.storageDeletion.findMany({
+        where: { status: { in: ['QUEUED', 'RUNNING'] } },
+        select: { fileUrl: true },
+      }),
+    ]);
+
+    const keys = new Set<string>();
+    const addUrl = (url: string | null) => {
+      if (url && this.storageService.isValidUrl(url)) {
+        keys.add(this.storageService.parseUrl(url).key);
+      }
+    };
+
+    rubrics.forEach((rubric) => addUrl(rubric.rubricPdfUrl));
+    submissions.forEach((submission) => addUrl(submission.fileUrl));
+    queued.forEach((deletion) => addUrl(deletion.fileUrl));
+
+    for (const { meta } of pendingUploads) {
+      const key = (meta as { directUpload?: { key: string } } | null)
+        ?.directUpload?.key;
+      if (key) {
+        keys.add(key);
+      }
+    }
+
+    return keys;
+  }
+}
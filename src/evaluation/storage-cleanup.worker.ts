@@ -0,0 +1,182 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { PrismaService } from '../prisma/prisma.service';
+import { S3PdfService } from '../s3-pdf/s3-pdf.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+
+interface ClaimedDeletion {
+  id: string;
+  fileUrl: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * Worker que borra del almacenamiento los archivos encolados en
+ * storage_deletions, de a uno y con backoff exponencial entre reintentos.
+ * Igual que AnalysisWorker, reclama con FOR UPDATE SKIP LOCKED para que
+ * varias instancias compartan la cola. En cada consulta también elimina
+ * las entregas PENDING cuya subida venció sin confirmarse.
+ */
+@Injectable()
+export class StorageCleanupWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StorageCleanupWorker.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private readonly enabled: boolean;
+  private readonly pollIntervalMs: number;
+  private readonly retryDelayMs: number;
+  private readonly lockTimeoutMs = 10 * 60 * 1000;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private stopping = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly s3PdfService: S3PdfService,
+    private readonly storageCleanupService: StorageCleanupService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>(
+        'STORAGE_CLEANUP_WORKER_ENABLED',
+        'true',
+      ) !== 'false';
+    this.pollIntervalMs = Number(
+      this.configService.get('STORAGE_CLEANUP_POLL_MS', 10000),
+    );
+    this.retryDelayMs = Number(
+      this.configService.get('STORAGE_CLEANUP_RETRY_DELAY_MS', 60 * 1000),
+    );
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Worker de limpieza del almacenamiento deshabilitado');
+      return;
+    }
+
+    this.logger.log(
+      `Worker de limpieza del almacenamiento iniciado (${this.workerId})`,
+    );
+    this.schedule(0);
+  }
+
+  async onModuleDestroy() {
+    this.stopping = true;
+    clearTimeout(this.timer);
+
+    await this.running;
+  }
+
+  private schedule(delayMs: number) {
+    if (this.stopping) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.running = this.poll();
+    }, delayMs);
+  }
+
+  private async poll() {
+    try {
+      await this.prisma.storageDeletion.updateMany({
+        where: {
+          status: 'RUNNING',
+          lockedAt: { lt: new Date(Date.now() - this.lockTimeoutMs) },
+        },
+        data: { status: 'QUEUED', lockedAt: null, lockedBy: null },
+      });
+
+      await this.storageCleanupService.expirePendingUploads();
+
+      while (!this.stopping) {
+        const deletion = await this.claimNext();
+
+        if (!deletion) {
+          break;
+        }
+
+        await this.runDeletion(deletion);
+      }
+    } catch (error) {
+      this.logger.error('Error al consultar la cola de borrado:', error);
+    } finally {
+      this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  private async claimNext(): Promise<ClaimedDeletion | null> {
+    const deletions = await this.prisma.$queryRaw<ClaimedDeletion[]>`
+      UPDATE storage_deletions
+      SET status = 'RUNNING',
+          attempts = attempts + 1,
+          locked_at = now(),
+          locked_by = ${this.workerId}
+      WHERE id = (
+        SELECT id FROM storage_deletions
+        WHERE status = 'QUEUED' AND run_at <= now()
+        ORDER BY run_at ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id,
+                file_url AS "fileUrl",
+                attempts,
+                max_attempts AS "maxAttempts"
+    `;
+
+    return deletions[0] ?? null;
+  }
+
+  private async runDeletion(deletion: ClaimedDeletion) {
+    try {
+      await this.s3PdfService.deleteFromS3(deletion.fileUrl);
+
+      await this.prisma.storageDeletion.update({
+        where: { id: deletion.id },
+        data: {
+          status: 'COMPLETED',
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const willRetry = deletion.attempts < deletion.maxAttempts;
+
+      this.logger.warn(
+        `No se pudo borrar ${deletion.fileUrl} (intento ${deletion.attempts}/${deletion.maxAttempts}): ${message}`,
+      );
+
+      await this.prisma.storageDeletion.update({
+        where: { id: deletion.id },
+        data: willRetry
+          ? {
+              status: 'QUEUED',
+              lockedAt: null,
+              lockedBy: null,
+              lastError: message,
+              runAt: new Date(
+                Date.now() + this.retryDelayMs * 2 ** (deletion.attempts - 1),
+              ),
+            }
+          : {
+              status: 'FAILED',
+              lockedAt: null,
+              lockedBy: null,
+              lastError: message,
+              finishedAt: new Date(),
+            },
+      });
+    }
+  }
+}
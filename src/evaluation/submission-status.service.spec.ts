@@ -0,0 +1,190 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, Submission } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SubmissionStatusService } from './submission-status.service';
+
+describe('SubmissionStatusService', () => {
+  let submissionStatus: SubmissionStatusService;
+
+  const prisma = {
+    submission: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+  };
+
+  const submission = (overrides: Partial<Submission> = {}): Submission => ({
+    id: 'submission-1',
+    groupId: 'group-1',
+    fileName: 'informe.pdf',
+    fileUrl: null,
+    status: 'PENDING',
+    uploadedAt: new Date('2025-01-15T10:00:00.000Z'),
+    checksum: null,
+    version: 1,
+    meta: { size: 1024 },
+    ...overrides,
+  });
+
+  // data del último updateMany
+  const lastUpdate = () =>
+    (
+      prisma.submission.updateMany.mock.calls.at(-1) as [
+        Prisma.SubmissionUpdateManyArgs,
+      ]
+    )[0];
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.submission.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubmissionStatusService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    submissionStatus = module.get<SubmissionStatusService>(
+      SubmissionStatusService,
+    );
+  });
+
+  describe('transition', () => {
+    it('should mark a pending submission as received', async () => {
+      prisma.submission.findUnique.mockResolvedValue(submission());
+
+      await submissionStatus.markReceived('submission-1', 's3://bucket/key');
+
+      expect(lastUpdate()).toEqual({
+        where: {
+          id: 'submission-1',
+          status: 'PENDING',
+          meta: { equals: { size: 1024 } },
+        },
+        data: {
+          fileUrl: 's3://bucket/key',
+          status: 'RECEIVED',
+          meta: { size: 1024 },
+        },
+      });
+    });
+
+    it('should reject transitions not allowed from the current status', async () => {
+      prisma.submission.findUnique.mockResolvedValue(
+        submission({ status: 'ANALYZED' }),
+      );
+
+      await expect(
+        submissionStatus.transition('submission-1', 'PENDING'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.submission.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should treat submissions without status as received', async () => {
+      prisma.submission.findUnique.mockResolvedValue(
+        submission({ status: null, meta: null }),
+      );
+
+      await submissionStatus.markAnalyzed('submission-1', 'analysis-1');
+
+      expect(lastUpdate().where).toEqual({
+        id: 'submission-1',
+        status: null,
+        meta: { equals: Prisma.DbNull },
+      });
+      expect(lastUpdate().data).toMatchObject({ status: 'ANALYZED' });
+    });
+
+    it('should fail for unknown submissions', async () => {
+      prisma.submission.findUnique.mockResolvedValue(null);
+
+      await expect(
+        submissionStatus.markReceived('submission-1', 's3://bucket/key'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('meta', () => {
+    it('should record the error keeping the rest of meta', async () => {
+      prisma.submission.findUnique.mockResolvedValue(
+        submission({ status: 'RECEIVED' }),
+      );
+
+      await submissionStatus.markError(
+        'submission-1',
+        'EXTRACTION',
+        'PDF ilegible',
+      );
+
+      expect(lastUpdate().data).toEqual({
+        status: 'ERROR',
+        meta: {
+          size: 1024,
+          error: {
+            stage: 'EXTRACTION',
+            message: 'PDF ilegible',
+            at: expect.any(String) as string,
+          },
+        },
+      });
+    });
+
+    it('should clear the error when the submission is analyzed', async () => {
+      prisma.submission.findUnique.mockResolvedValue(
+        submission({
+          status: 'ERROR',
+          meta: { size: 1024, error: { stage: 'ANALYSIS' } },
+        }),
+      );
+
+      await submissionStatus.markAnalyzed('submission-1', 'analysis-1');
+
+      expect(lastUpdate().data).toEqual({
+        status: 'ANALYZED',
+        meta: {
+          size: 1024,
+          analysisId: 'analysis-1',
+          analyzedAt: expect.any(String) as string,
+        },
+      });
+    });
+  });
+
+  describe('concurrent updates', () => {
+    it('should re-read and retry when another step changed the submission', async () => {
+      prisma.submission.findUnique
+        .mockResolvedValueOnce(submission({ status: 'RECEIVED' }))
+        .mockResolvedValueOnce(
+          submission({
+            status: 'RECEIVED',
+            meta: { size: 1024, extraction: { kind: 'pdf' } },
+          }),
+        );
+      prisma.submission.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await submissionStatus.markAnalyzed('submission-1', 'analysis-1');
+
+      expect(prisma.submission.updateMany).toHaveBeenCalledTimes(2);
+      expect(lastUpdate().data).toMatchObject({
+        meta: { extraction: { kind: 'pdf' }, analysisId: 'analysis-1' },
+      });
+    });
+
+    it('should give up after repeated conflicts', async () => {
+      prisma.submission.findUnique.mockResolvedValue(
+        submission({ status: 'RECEIVED' }),
+      );
+      prisma.submission.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        submissionStatus.recordExtraction('submission-1', { kind: 'pdf' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.submission.updateMany).toHaveBeenCalledTimes(3);
+    });
+  });
+});
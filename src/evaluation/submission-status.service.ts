@@ -0,0 +1,285 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Submission, submission_status } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Paso del procesamiento en el que falló la entrega
+export type SubmissionStage = 'UPLOAD' | 'EXTRACTION' | 'ANALYSIS';
+
+// Transiciones permitidas del estado de una entrega
+const SUBMISSION_TRANSITIONS: Record<submission_status, submission_status[]> = {
+  PENDING: ['RECEIVED', 'ERROR'],
+  RECEIVED: ['ANALYZED', 'ERROR'],
+  // Un reanálisis puede volver a calificar o fallar
+  ANALYZED: ['ANALYZED', 'ERROR'],
+  ERROR: ['ANALYZED', 'ERROR'],
+};
+
+/**
+ * Error de un paso del procesamiento de la entrega; el worker lo usa para
+ * registrar en qué paso falló
+ */
+export class SubmissionStageError extends Error {
+  constructor(
+    readonly stage: SubmissionStage,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Intentos de un update cuando otro paso modifica la entrega entre la lectura y la escritura
+const MAX_UPDATE_ATTEMPTS = 3;
+
+interface TransitionOptions {
+  data?: Prisma.SubmissionUpdateManyMutationInput;
+  meta?: Record<string, Prisma.InputJsonValue | null>;
+}
+
+/**
+ * Estado de las entregas: PENDING mientras se sube el archivo, RECEIVED al
+ * quedar guardado, ANALYZED al calificarse y ERROR si falla la subida, la
+ * extracción del texto o el análisis (el motivo queda en meta.error).
+ */
+@Injectable()
+export class SubmissionStatusService {
+  private readonly logger = new Logger(SubmissionStatusService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  markReceived(submissionId: string, fileUrl: string) {
+    return this.transition(submissionId, 'RECEIVED', { data: { fileUrl } });
+  }
+
+  /**
+   * @param tx - Transacción en la que se guardan los resultados del análisis,
+   * para que resultado y estado queden registrados juntos
+   */
+  markAnalyzed(
+    submissionId: string,
+    analysisId: string,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.transition(
+      submissionId,
+      'ANALYZED',
+      {
+        meta: {
+          error: null,
+          analysisId,
+          analyzedAt: new Date().toISOString(),
+        },
+      },
+      tx,
+    );
+  }
+
+  markError(submissionId: string, stage: SubmissionStage, message: string) {
+    return this.transition(submissionId, 'ERROR', {
+      meta: {
+        error: { stage, message, at: new Date().toISOString() },
+      },
+    });
+  }
+
+  /**
+   * Registrar cómo se extrajo el texto de la entrega (tipo, páginas y
+   * páginas transcritas, fallidas u omitidas por OCR), sin cambiar su estado
+   */
+  async recordExtraction(
+    submissionId: string,
+    extraction: {
+      kind: string;
+      pageCount?: number;
+      ocrPages?: number[];
+      ocrFailedPages?: number[];
+      ocrSkippedPages?: number[];
+    },
+  ) {
+    await this.update(this.prisma, submissionId, (submission) => ({
+      meta: this.mergeMeta(submission.meta, {
+        extraction: {
+          kind: extraction.kind,
+          pageCount: extraction.pageCount ?? null,
+          ocrPages: extraction.ocrPages ?? [],
+          ocrFailedPages: extraction.ocrFailedPages ?? [],
+          ocrSkippedPages: extraction.ocrSkippedPages ?? [],
+          extractedAt: new Date().toISOString(),
+        },
+      }),
+    }));
+  }
+
+  /**
+   * Cambiar el estado validando la transición
+   */
+  async transition(
+    submissionId: string,
+    status: submission_status,
+    options: TransitionOptions = {},
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const previous = await this.update(tx, submissionId, (submission) => {
+      // Entregas creadas antes de que existiera el estado se consideran recibidas
+      const current = submission.status ?? 'RECEIVED';
+
+      if (!SUBMISSION_TRANSITIONS[current].includes(status)) {
+        throw new BadRequestException(
+          `No se puede pasar la entrega ${submissionId} de ${current} a ${status}`,
+        );
+      }
+
+      return {
+        ...options.data,
+        status,
+        meta: this.mergeMeta(submission.meta, options.meta),
+      };
+    });
+
+    const current = previous.status ?? 'RECEIVED';
+    if (status === 'ERROR') {
+      this.logger.warn(
+        `Entrega ${submissionId}: ${current} → ERROR (${JSON.stringify(options.meta?.error)})`,
+      );
+    } else {
+      this.logger.log(`Entrega ${submissionId}: ${current} → ${status}`);
+    }
+
+    return tx.submission.findUniqueOrThrow({
+      where: { id: submissionId },
+    });
+  }
+
+  /**
+   * Actualizar la entrega condicionando el update al estado y meta leídos,
+   * para que dos pasos concurrentes no se pisen. Si otro paso la modificó
+   * entretanto, se vuelve a leer y a calcular el cambio. Retorna la entrega
+   * tal como estaba antes del cambio.
+   */
+  private async update(
+    tx: Prisma.TransactionClient,
+    submissionId: string,
+    build: (submission: Submission) => Prisma.SubmissionUpdateManyMutationInput,
+  ): Promise<Submission> {
+    for (let attempt = 1; ; attempt++) {
+      const submission = await tx.submission.findUnique({
+        where: { id: submissionId },
+      });
+
+      if (!submission) {
+        throw new NotFoundException(`Submission ${submissionId} no encontrada`);
+      }
+
+      const { count } = await tx.submission.updateMany({
+        where: {
+          id: submissionId,
+          status: submission.status,
+          meta:
+            submission.meta === null
+              ? { equals: Prisma.DbNull }
+              : { equals: submission.meta },
+        },
+        data: build(submission),
+      });
+
+      if (count > 0) {
+        return submission;
+      }
+
+      if (attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw new BadRequestException(
+          `La entrega ${submissionId} cambió de estado mientras se actualizaba`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Combinar meta con los cambios; un valor null elimina la clave
+   */
+  private mergeMeta(
+    current: Prisma.JsonValue,
+    changes: TransitionOptions['meta'] = {},
+  ) {
+    const meta: Record<string, Prisma.InputJsonValue> = {
+      ...((current as Record<string, Prisma.InputJsonValue> | null) ?? {}),
+    };
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete meta[key];
+      } else {
+        meta[key] = value;
+      }
+    }
+
+    return meta;
+  }
+
+  /**
+   * Última versión de la entrega de cada grupo de la evaluación, filtrada por
+   * estado, con el motivo del error cuando lo hay
+   */
+  async listByStatus(evaluationId: string, status?: submission_status) {
+    const evaluation = await this.prisma.evaluation.findUnique({
+      where: { id: evaluationId },
+      include: {
+        groups: {
+          orderBy: { code: 'asc' },
+          include: {
+            submissions: {
+              orderBy: { version: 'desc' },
+              take: 1,
+            },
+          },
+        },
+      },
+    });
+
+    if (!evaluation) {
+      throw new NotFoundException(
+        `Evaluación con ID ${evaluationId} no encontrada`,
+      );
+    }
+
+    const counts: Record<submission_status, number> = {
+      PENDING: 0,
+      RECEIVED: 0,
+      ANALYZED: 0,
+      ERROR: 0,
+    };
+
+    const submissions = evaluation.groups.flatMap((group) =>
+      group.submissions.map((submission) => {
+        const meta = (submission.meta as Record<string, unknown> | null) ?? {};
+        const submissionStatus = submission.status ?? 'RECEIVED';
+        counts[submissionStatus]++;
+
+        return {
+          id: submission.id,
+          version: submission.version,
+          status: submissionStatus,
+          fileName: submission.fileName,
+          uploadedAt: submission.uploadedAt,
+          group: { id: group.id, code: group.code, name: group.name },
+          error: meta.error ?? null,
+        };
+      }),
+    );
+
+    return {
+      evaluationId,
+      counts,
+      groupsWithoutSubmissions: evaluation.groups
+        .filter((group) => group.submissions.length === 0)
+        .map((group) => group.code),
+      submissions: status
+        ? submissions.filter((submission) => submission.status === status)
+        : submissions,
+    };
+  }
+}
@@ -0,0 +1,466 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Group, Prisma } from '@prisma/client';
+import AdmZip from 'adm-zip';
+import { createHash, randomBytes } from 'crypto';
+import { DocumentExtractionService } from '../document/document-extraction.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { S3PdfService } from '../s3-pdf/s3-pdf.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { SubmissionStatusService } from './submission-status.service';
+import {
+  createVersionedSubmission,
+  SubmissionFile,
+  SubmissionsService,
+} from './submissions.service';
+
+describe('SubmissionsService', () => {
+  let service: SubmissionsService;
+
+  const group: Group = {
+    id: 'group-1',
+    evaluationId: 'evaluation-1',
+    code: 'G1',
+    name: 'Grupo 1',
+    studentCount: 3,
+    createdAt: null,
+  };
+
+  const file = (content = 'informe del grupo'): SubmissionFile => ({
+    buffer: Buffer.from(content),
+    originalname: 'informe final.pdf',
+    mimetype: 'application/pdf',
+    size: Buffer.byteLength(content),
+  });
+
+  const prisma = {
+    evaluation: { findUnique: jest.fn() },
+    group: { findFirst: jest.fn(), create: jest.fn() },
+    submission: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+      create: jest.fn(),
+    },
+    activityLog: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const s3PdfService = { uploadToS3WithHttpsUrl: jest.fn() };
+  const submissionStatus = { markReceived: jest.fn(), markError: jest.fn() };
+  const documentExtraction = { detect: jest.fn(), extractFromUrl: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (run: (tx: typeof prisma) => Promise<unknown>) => run(prisma),
+    );
+    prisma.submission.findFirst.mockResolvedValue(null);
+    prisma.submission.aggregate.mockResolvedValue({ _max: { version: 2 } });
+    prisma.submission.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'submission-3', ...data }),
+    );
+    documentExtraction.detect.mockReturnValue({
+      mimeType: 'application/pdf',
+      kind: 'pdf',
+    });
+    s3PdfService.uploadToS3WithHttpsUrl.mockImplementation((_, key: string) =>
+      Promise.resolve(`https://bucket.s3.amazonaws.com/${key}`),
+    );
+    submissionStatus.markReceived.mockImplementation(
+      (id: string, fileUrl: string) =>
+        Promise.resolve({ id, fileUrl, fileName: 'informe final.pdf' }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubmissionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: S3PdfService, useValue: s3PdfService },
+        { provide: StorageService, useValue: {} },
+        { provide: SubmissionStatusService, useValue: submissionStatus },
+        { provide: DocumentExtractionService, useValue: documentExtraction },
+        { provide: StorageCleanupService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              ({
+                SUBMISSION_MAX_FILE_MB: 2,
+                SUBMISSION_BULK_MAX_UNZIPPED_MB: 3,
+              })[key] ?? defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SubmissionsService>(SubmissionsService);
+  });
+
+  describe('uploadSubmission', () => {
+    it('should store the file under the group and record its SHA-256', async () => {
+      prisma.group.findFirst.mockResolvedValue(group);
+
+      const result = await service.uploadSubmission(
+        'evaluation-1',
+        'group-1',
+        file(),
+      );
+
+      const checksum = createHash('sha256')
+        .update('informe del grupo')
+        .digest('hex');
+      expect(prisma.submission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          groupId: 'group-1',
+          checksum,
+          version: 3,
+          status: 'PENDING',
+        }) as object,
+      });
+      const [, key] = s3PdfService.uploadToS3WithHttpsUrl.mock.calls[0] as [
+        Buffer,
+        string,
+      ];
+      expect(key).toMatch(
+        /^evaluations\/evaluation-1\/groups\/group-1\/submissions\/\d+_informe_final\.pdf$/,
+      );
+      expect(submissionStatus.markReceived).toHaveBeenCalledWith(
+        'submission-3',
+        `https://bucket.s3.amazonaws.com/${key}`,
+      );
+      expect(result.duplicate).toBe(false);
+    });
+
+    it('should fail for groups of another evaluation', async () => {
+      prisma.group.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.uploadSubmission('evaluation-2', 'group-1', file()),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should require a file', async () => {
+      await expect(
+        service.uploadSubmission('evaluation-1', 'group-1', undefined),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('storeSubmission', () => {
+    const duplicate = {
+      id: 'submission-9',
+      groupId: 'group-2',
+      fileName: 'entrega.pdf',
+      uploadedAt: new Date('2025-01-15T10:00:00.000Z'),
+      group: { code: 'G2' },
+    };
+
+    it('should reject files identical to another submission', async () => {
+      prisma.submission.findFirst.mockResolvedValue(duplicate);
+
+      await expect(service.storeSubmission(group, file())).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prisma.submission.create).not.toHaveBeenCalled();
+    });
+
+    it('should flag identical files when duplicates are allowed', async () => {
+      prisma.submission.findFirst.mockResolvedValue(duplicate);
+
+      const result = await service.storeSubmission(group, file(), {
+        allowDuplicate: true,
+      });
+
+      expect(result.duplicate).toBe(true);
+      expect(prisma.submission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          meta: expect.objectContaining({
+            duplicateOf: {
+              submissionId: 'submission-9',
+              groupId: 'group-2',
+              groupCode: 'G2',
+            },
+          }) as object,
+        }) as object,
+      });
+    });
+
+    it('should reject files above SUBMISSION_MAX_FILE_MB', async () => {
+      await expect(
+        service.storeSubmission(group, { ...file(), size: 3 * 1024 * 1024 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3PdfService.uploadToS3WithHttpsUrl).not.toHaveBeenCalled();
+    });
+
+    it('should mark the submission with an upload error when storage fails', async () => {
+      s3PdfService.uploadToS3WithHttpsUrl.mockRejectedValue(
+        new Error('bucket no disponible'),
+      );
+
+      await expect(service.storeSubmission(group, file())).rejects.toThrow(
+        'bucket no disponible',
+      );
+      expect(submissionStatus.markError).toHaveBeenCalledWith(
+        'submission-3',
+        'UPLOAD',
+        'bucket no disponible',
+      );
+    });
+  });
+
+  describe('importZip', () => {
+    const MB = 1024 * 1024;
+
+    const zipFile = (entries: Record<string, Buffer>): SubmissionFile => {
+      const zip = new AdmZip();
+      for (const [name, content] of Object.entries(entries)) {
+        zip.addFile(name, content);
+      }
+      const buffer = zip.toBuffer();
+
+      return {
+        buffer,
+        originalname: 'entregas.zip',
+        mimetype: 'application/zip',
+        size: buffer.length,
+      };
+    };
+
+    const hyphenated: Group = { ...group, id: 'group-2', code: 'G-01' };
+
+    beforeEach(() => {
+      prisma.evaluation.findUnique.mockResolvedValue({
+        id: 'evaluation-1',
+        groups: [group, hyphenated],
+      });
+      prisma.group.create.mockImplementation(
+        ({ data }: { data: Record<string, unknown> }) =>
+          Promise.resolve({ id: 'group-3', ...data }),
+      );
+    });
+
+    it('should match existing codes with hyphens', async () => {
+      const { summary, files } = await service.importZip(
+        'evaluation-1',
+        zipFile({
+          '__MACOSX/._G1.pdf': Buffer.from('metadatos'),
+          'G-01_informe.pdf': Buffer.from('informe G-01'),
+          'g1 informe.pdf': Buffer.from('informe G1'),
+        }),
+      );
+
+      expect(files).toEqual([
+        expect.objectContaining({ status: 'skipped' }),
+        expect.objectContaining({
+          fileName: 'G-01_informe.pdf',
+          status: 'matched',
+          groupId: 'group-2',
+        }),
+        expect.objectContaining({
+          fileName: 'g1 informe.pdf',
+          status: 'matched',
+          groupCode: 'G1',
+        }),
+      ]);
+      expect(summary).toMatchObject({ total: 3, matched: 2, skipped: 1 });
+    });
+
+    it('should not assign a file to a code that is only its prefix', async () => {
+      const { files } = await service.importZip(
+        'evaluation-1',
+        zipFile({ 'G10_informe.pdf': Buffer.from('informe G10') }),
+      );
+
+      expect(files[0]).toMatchObject({
+        status: 'skipped',
+        groupCode: 'G10',
+      });
+      expect(prisma.submission.create).not.toHaveBeenCalled();
+    });
+
+    it('should create missing groups when requested', async () => {
+      const { files } = await service.importZip(
+        'evaluation-1',
+        zipFile({ 'G10/informe.pdf': Buffer.from('informe G10') }),
+        { filenamePattern: '{code}/*', createMissingGroups: true },
+      );
+
+      expect(prisma.group.create).toHaveBeenCalledWith({
+        data: {
+          evaluationId: 'evaluation-1',
+          code: 'G10',
+          name: 'G10',
+          studentCount: 0,
+        },
+      });
+      expect(files[0]).toMatchObject({ status: 'created', groupId: 'group-3' });
+    });
+
+    it('should reject entries compressed too many times', async () => {
+      const { files } = await service.importZip(
+        'evaluation-1',
+        zipFile({ 'G1_informe.pdf': Buffer.alloc(1.5 * MB) }),
+      );
+
+      expect(files[0]).toMatchObject({
+        status: 'errored',
+        reason: expect.stringContaining(
+          'se comprime más de 100 veces',
+        ) as string,
+      });
+      expect(s3PdfService.uploadToS3WithHttpsUrl).not.toHaveBeenCalled();
+    });
+
+    it('should reject ZIPs above SUBMISSION_BULK_MAX_UNZIPPED_MB', async () => {
+      await expect(
+        service.importZip(
+          'evaluation-1',
+          zipFile({
+            'G1_a.pdf': randomBytes(1.5 * MB),
+            'G1_b.pdf': randomBytes(1.5 * MB),
+            'G1_c.pdf': randomBytes(1.5 * MB),
+          }),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.submission.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid patterns', async () => {
+      await expect(
+        service.importZip(
+          'evaluation-1',
+          zipFile({ 'G1.pdf': Buffer.from('informe') }),
+          { filenamePattern: '*_informe' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('diffVersions', () => {
+    const version = (n: number, checksum: string) => ({
+      id: `submission-${n}`,
+      groupId: 'group-1',
+      version: n,
+      fileName: `informe-v${n}.pdf`,
+      fileUrl: `https://bucket.s3.amazonaws.com/informe-v${n}.pdf`,
+      checksum,
+      uploadedAt: new Date('2025-01-15T10:00:00.000Z'),
+    });
+
+    it('should compare the latest version with the previous one', async () => {
+      prisma.submission.findMany.mockResolvedValue([
+        version(3, 'c3'),
+        version(2, 'c2'),
+        version(1, 'c1'),
+      ]);
+      documentExtraction.extractFromUrl.mockImplementation(
+        (_url: string, fileName: string) =>
+          Promise.resolve({
+            text:
+              fileName === 'informe-v2.pdf'
+                ? 'Introducción\nResultados'
+                : 'Introducción\nResultados   finales',
+          }),
+      );
+
+      const diff = await service.diffVersions('group-1');
+
+      expect(diff.from.version).toBe(2);
+      expect(diff.to.version).toBe(3);
+      expect(diff.identical).toBe(false);
+      expect(diff.stats).toEqual({ added: 1, removed: 1 });
+      // El checksum permite reutilizar el texto ya extraído
+      expect(documentExtraction.extractFromUrl).toHaveBeenCalledWith(
+        'https://bucket.s3.amazonaws.com/informe-v2.pdf',
+        'informe-v2.pdf',
+        'c2',
+      );
+    });
+
+    it('should not extract the text of identical files', async () => {
+      prisma.submission.findMany.mockResolvedValue([
+        version(2, 'c1'),
+        version(1, 'c1'),
+      ]);
+
+      const diff = await service.diffVersions('group-1');
+
+      expect(diff).toMatchObject({ identical: true, hunks: [] });
+      expect(documentExtraction.extractFromUrl).not.toHaveBeenCalled();
+    });
+
+    it('should fail when there is nothing to compare', async () => {
+      prisma.submission.findMany.mockResolvedValue([version(1, 'c1')]);
+
+      await expect(service.diffVersions('group-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.diffVersions('group-1', { from: 1, to: 4 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
+
+describe('createVersionedSubmission', () => {
+  const versionTaken = new Prisma.PrismaClientKnownRequestError(
+    'uk_submission_group_version',
+    { code: 'P2002', clientVersion: 'test' },
+  );
+
+  const prisma = {
+    submission: { aggregate: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const create = () =>
+    createVersionedSubmission(prisma as unknown as PrismaService, {
+      groupId: 'group-1',
+      fileName: 'informe.pdf',
+      status: 'RECEIVED',
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$transaction.mockImplementation(
+      (run: (tx: typeof prisma) => Promise<unknown>) => run(prisma),
+    );
+    prisma.submission.aggregate
+      .mockResolvedValueOnce({ _max: { version: 1 } })
+      .mockResolvedValue({ _max: { version: 2 } });
+  });
+
+  it('should retry with the next version when another upload took it', async () => {
+    prisma.submission.create
+      .mockRejectedValueOnce(versionTaken)
+      .mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'submission-3', ...data }),
+      );
+
+    const submission = await create();
+
+    expect(submission).toMatchObject({ id: 'submission-3', version: 3 });
+    expect(prisma.submission.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after repeated conflicts', async () => {
+    prisma.submission.create.mockRejectedValue(versionTaken);
+
+    await expect(create()).rejects.toThrow(ConflictException);
+    expect(prisma.submission.create).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other errors', async () => {
+    prisma.submission.create.mockRejectedValue(new Error('sin conexión'));
+
+    await expect(create()).rejects.toThrow('sin conexión');
+    expect(prisma.submission.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,1000 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Group, Prisma, Submission } from '@prisma/client';
+import AdmZip from 'adm-zip';
+import { createHash } from 'crypto';
+import { structuredPatch } from 'diff';
+import { posix } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { S3PdfService } from '../s3-pdf/s3-pdf.service';
+import {
+  DetectedDocument,
+  DocumentExtractionService,
+} from '../document/document-extraction.service';
+import { StorageService } from '../storage/storage.service';
+import { SubmissionStatusService } from './submission-status.service';
+import { StorageCleanupService } from './storage-cleanup.service';
+import {
+  BulkImportSubmissionsDto,
+  CreateSubmissionUploadDto,
+  DiffSubmissionVersionsDto,
+} from './dto/evaluation.dto';
+
+// Sintaxis de filenamePattern: {code} es el código de un grupo existente o,
+// para los grupos nuevos, un texto sin "/", "_", ".", "-" ni espacios; * es
+// cualquier texto sin "/". No se aceptan expresiones regulares del usuario:
+// una mal construida bloquearía el proceso (ReDoS).
+const CODE_PLACEHOLDER = '{code}';
+const NEW_CODE_CAPTURE = '[^/_\\s.-]+';
+const MAX_PATTERN_WILDCARDS = 2;
+
+// Un archivo de entrega de más de 1 MB no se comprime más que esto; por
+// encima es una bomba ZIP
+const MAX_COMPRESSION_RATIO = 100;
+const COMPRESSION_RATIO_MIN_SIZE = 1024 * 1024;
+
+// Primer segmento del nombre del archivo: "G01_informe.pdf" → G01
+const DEFAULT_FILENAME_PATTERN = '{code}*';
+
+// Las rutas más largas no se comparan con el patrón
+const MAX_MATCHED_PATH_LENGTH = 255;
+
+// Cargas simultáneas del mismo grupo que pueden pedir el mismo número de versión
+const MAX_VERSION_ATTEMPTS = 3;
+
+export interface SubmissionFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface StoreSubmissionOptions {
+  allowDuplicate?: boolean;
+}
+
+type SubmissionWithGroup = Prisma.SubmissionGetPayload<{
+  include: { group: true };
+}>;
+
+export type BulkImportStatus = 'matched' | 'created' | 'skipped' | 'errored';
+
+export interface BulkImportFileReport {
+  fileName: string;
+  status: BulkImportStatus;
+  groupCode?: string;
+  groupId?: string;
+  submissionId?: string;
+  duplicate?: boolean;
+  reason?: string;
+}
+
+/**
+ * Siguiente número de versión de las entregas de un grupo (1, 2, 3…)
+ */
+export async function nextSubmissionVersion(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+) {
+  const { _max } = await tx.submission.aggregate({
+    where: { groupId },
+    _max: { version: true },
+  });
+
+  return (_max.version ?? 0) + 1;
+}
+
+/**
+ * Crear una entrega con el siguiente número de versión del grupo. Si otra
+ * entrega del mismo grupo toma ese número en paralelo (uk_submission_group_version)
+ * se vuelve a calcular, hasta MAX_VERSION_ATTEMPTS veces.
+ */
+export async function createVersionedSubmission(
+  prisma: PrismaService,
+  data: Omit<Prisma.SubmissionUncheckedCreateInput, 'version'>,
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) =>
+        tx.submission.create({
+          data: {
+            ...data,
+            version: await nextSubmissionVersion(tx, data.groupId),
+          },
+        }),
+      );
+    } catch (error) {
+      const versionTaken =
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002';
+
+      if (!versionTaken) {
+        throw error;
+      }
+      if (attempt >= MAX_VERSION_ATTEMPTS) {
+        throw new ConflictException(
+          'Otras entregas del grupo se guardaron al mismo tiempo; vuelve a intentarlo',
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Carga de entregas de los grupos: valida el archivo, lo guarda en S3 bajo
+ * evaluations/{id}/groups/{groupId}/submissions/ y registra su SHA-256 para
+ * detectar entregas idénticas dentro de la evaluación. Los archivos son
+ * privados: se suben y descargan con URLs firmadas de corta duración.
+ */
+@Injectable()
+export class SubmissionsService {
+  private readonly logger = new Logger(SubmissionsService.name);
+  private readonly maxFileSize: number;
+  private readonly maxZipSize: number;
+  private readonly maxUnzippedSize: number;
+  private readonly maxDirectUploadSize: number;
+  // Vigencia en segundos de las URLs firmadas
+  private readonly uploadUrlTtl: number;
+  private readonly downloadUrlTtl: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly s3PdfService: S3PdfService,
+    private readonly storageService: StorageService,
+    private readonly submissionStatus: SubmissionStatusService,
+    private readonly documentExtraction: DocumentExtractionService,
+    private readonly storageCleanup: StorageCleanupService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxFileSize =
+      Number(this.configService.get('SUBMISSION_MAX_FILE_MB', 10)) *
+      1024 *
+      1024;
+    this.maxZipSize =
+      Number(this.configService.get('SUBMISSION_BULK_MAX_ZIP_MB', 200)) *
+      1024 *
+      1024;
+    this.maxUnzippedSize =
+      Number(this.configService.get('SUBMISSION_BULK_MAX_UNZIPPED_MB', 500)) *
+      1024 *
+      1024;
+    this.maxDirectUploadSize =
+      Number(this.configService.get('SUBMISSION_DIRECT_UPLOAD_MAX_MB', 100)) *
+      1024 *
+      1024;
+    this.uploadUrlTtl = Number(
+      this.configService.get('SUBMISSION_UPLOAD_URL_TTL_SECONDS', 900),
+    );
+    this.downloadUrlTtl = Number(
+      this.configService.get('FILE_DOWNLOAD_URL_TTL_SECONDS', 300),
+    );
+  }
+
+  /**
+   * Subir la entrega de un grupo
+   */
+  async uploadSubmission(
+    evaluationId: string,
+    groupId: string,
+    file: SubmissionFile | undefined,
+    options: StoreSubmissionOptions = {},
+  ) {
+    if (!file) {
+      throw new BadRequestException('Debes adjuntar el archivo de la entrega');
+    }
+
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, evaluationId },
+    });
+
+    if (!group) {
+      throw new NotFoundException(
+        `Grupo ${groupId} no encontrado en la evaluación ${evaluationId}`,
+      );
+    }
+
+    return this.storeSubmission(group, file, options);
+  }
+
+  /**
+   * Validar, guardar y registrar un archivo como entrega del grupo.
+   * Con allowDuplicate las entregas idénticas se aceptan y quedan marcadas
+   * en meta.duplicateOf; sin él se rechazan con 409.
+   */
+  async storeSubmission(
+    group: Group,
+    file: SubmissionFile,
+    options: StoreSubmissionOptions = {},
+  ) {
+    const document = this.validateFile(file);
+
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
+
+    const duplicate = await this.findDuplicate(group.evaluationId, checksum);
+
+    if (duplicate && !options.allowDuplicate) {
+      throw this.duplicateConflict(duplicate);
+    }
+
+    // La entrega queda PENDING (con su número de versión) mientras se sube el archivo
+    const pending = await this.createPendingSubmission(group, {
+      fileName: file.originalname,
+      checksum,
+      meta: {
+        size: file.size,
+        mimeType: document.mimeType,
+        kind: document.kind,
+        ...(duplicate && { duplicateOf: this.duplicateRef(duplicate) }),
+      },
+    });
+
+    const key = this.submissionKey(group, file.originalname);
+
+    let fileUrl: string;
+    try {
+      fileUrl = await this.s3PdfService.uploadToS3WithHttpsUrl(
+        file.buffer,
+        key,
+        document.mimeType,
+      );
+    } catch (error) {
+      await this.submissionStatus.markError(
+        pending.id,
+        'UPLOAD',
+        (error as Error).message,
+      );
+      throw error;
+    }
+
+    const submission = await this.submissionStatus.markReceived(
+      pending.id,
+      fileUrl,
+    );
+
+    await this.logUpload(group, submission, duplicate);
+
+    return { submission, duplicate: Boolean(duplicate) };
+  }
+
+  /**
+   * Reservar una entrega PENDING y generar la URL firmada (PUT) para subir
+   * el archivo directo al almacenamiento, sin pasar por la API. La entrega
+   * se registra al confirmar la subida con completeDirectUpload.
+   */
+  async createDirectUpload(
+    evaluationId: string,
+    groupId: string,
+    dto: CreateSubmissionUploadDto,
+  ) {
+    if (dto.size > this.maxDirectUploadSize) {
+      throw new BadRequestException(
+        `Archivo demasiado grande. Máximo: ${this.maxDirectUploadSize / 1024 / 1024}MB`,
+      );
+    }
+
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, evaluationId },
+    });
+
+    if (!group) {
+      throw new NotFoundException(
+        `Grupo ${groupId} no encontrado en la evaluación ${evaluationId}`,
+      );
+    }
+
+    const key = this.submissionKey(group, dto.fileName);
+    const expiresAt = new Date(Date.now() + this.uploadUrlTtl * 1000);
+
+    const pending = await this.createPendingSubmission(group, {
+      fileName: dto.fileName,
+      meta: {
+        size: dto.size,
+        directUpload: { key, expiresAt: expiresAt.toISOString() },
+      },
+    });
+
+    const uploadUrl = await this.storageService.getSignedUploadUrl(
+      key,
+      this.uploadUrlTtl,
+      { contentType: dto.contentType, maxSize: this.maxDirectUploadSize },
+    );
+
+    this.logger.log(
+      `Subida directa reservada: entrega ${pending.id} (v${pending.version}) del grupo ${group.code}`,
+    );
+
+    return {
+      submissionId: pending.id,
+      version: pending.version,
+      uploadUrl,
+      method: 'PUT',
+      headers: dto.contentType ? { 'Content-Type': dto.contentType } : {},
+      expiresAt,
+    };
+  }
+
+  /**
+   * Confirmar una subida directa: valida el archivo subido (tamaño, tipo y
+   * SHA-256) y deja la entrega RECEIVED. Si es idéntica a otra entrega
+   * responde 409 y queda PENDING para reintentar con allowDuplicate.
+   */
+  async completeDirectUpload(
+    groupId: string,
+    submissionId: string,
+    options: StoreSubmissionOptions = {},
+  ) {
+    const pending = await this.prisma.submission.findFirst({
+      where: { id: submissionId, groupId },
+      include: { group: true },
+    });
+
+    if (!pending) {
+      throw new NotFoundException(
+        `Submission ${submissionId} no encontrada en el grupo ${groupId}`,
+      );
+    }
+
+    const { directUpload } =
+      (pending.meta as {
+        directUpload?: { key: string; expiresAt: string };
+      } | null) ?? {};
+
+    if (pending.status !== 'PENDING' || !directUpload) {
+      throw new BadRequestException(
+        `La entrega ${submissionId} no tiene una subida directa pendiente`,
+      );
+    }
+
+    const { group } = pending;
+    const stored = await this.storageService.driver.head(directUpload.key);
+
+    if (!stored) {
+      throw new BadRequestException(
+        'El archivo todavía no se subió a la URL firmada',
+      );
+    }
+
+    let document: DetectedDocument;
+    let buffer: Buffer;
+    try {
+      if ((stored.size ?? 0) > this.maxDirectUploadSize) {
+        throw new BadRequestException(
+          `Archivo demasiado grande. Máximo: ${this.maxDirectUploadSize / 1024 / 1024}MB`,
+        );
+      }
+
+      buffer = await this.storageService.driver.get(directUpload.key);
+      document = this.documentExtraction.detect(buffer, pending.fileName);
+    } catch (error) {
+      // El archivo no sirve: se descarta para no dejar objetos huérfanos
+      await this.storageService.driver.delete(directUpload.key);
+      await this.submissionStatus.markError(
+        pending.id,
+        'UPLOAD',
+        (error as Error).message,
+      );
+      throw error;
+    }
+
+    const checksum = createHash('sha256').update(buffer).digest('hex');
+    const duplicate = await this.findDuplicate(
+      group.evaluationId,
+      checksum,
+      pending.id,
+    );
+
+    if (duplicate && !options.allowDuplicate) {
+      throw this.duplicateConflict(duplicate);
+    }
+
+    const submission = await this.submissionStatus.transition(
+      pending.id,
+      'RECEIVED',
+      {
+        data: {
+          fileUrl: this.storageService.toUrl(directUpload.key),
+          checksum,
+        },
+        meta: {
+          directUpload: null,
+          size: buffer.length,
+          mimeType: document.mimeType,
+          kind: document.kind,
+          ...(duplicate && { duplicateOf: this.duplicateRef(duplicate) }),
+        },
+      },
+    );
+
+    await this.logUpload(group, submission, duplicate);
+
+    return { submission, duplicate: Boolean(duplicate) };
+  }
+
+  /**
+   * URL firmada de corta duración para descargar el archivo de una entrega.
+   * El acceso lo controla el endpoint (x-admin-token).
+   */
+  async getDownloadUrl(submissionId: string) {
+    const submission = await this.prisma.submission.findUnique({
+      where: { id: submissionId },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(`Submission ${submissionId} no encontrada`);
+    }
+
+    if (!submission.fileUrl) {
+      throw new BadRequestException(
+        `La entrega ${submissionId} no tiene archivo asociado`,
+      );
+    }
+
+    const url = await this.storageService.getSignedUrl(
+      submission.fileUrl,
+      this.downloadUrlTtl,
+    );
+
+    return {
+      submissionId,
+      fileName: submission.fileName,
+      url,
+      expiresAt: new Date(Date.now() + this.downloadUrlTtl * 1000),
+    };
+  }
+
+  /**
+   * Eliminar una versión de la entrega y encolar el borrado de su archivo
+   */
+  async deleteSubmission(groupId: string, submissionId: string) {
+    const submission = await this.prisma.submission.findFirst({
+      where: { id: submissionId, groupId },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(
+        `Submission ${submissionId} no encontrada en el grupo ${groupId}`,
+      );
+    }
+
+    const { directUpload } =
+      (submission.meta as {
+        directUpload?: { key: string };
+      } | null) ?? {};
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.submission.delete({ where: { id: submissionId } });
+      await this.storageCleanup.scheduleDeletion(
+        [
+          submission.fileUrl,
+          directUpload && this.storageService.toUrl(directUpload.key),
+        ],
+        `Entrega ${submissionId} eliminada`,
+        tx,
+      );
+    });
+
+    this.logger.log(
+      `Entrega ${submissionId} (v${submission.version}) del grupo ${groupId} eliminada`,
+    );
+  }
+
+  /**
+   * Historial de entregas de un grupo, de la versión más reciente a la más antigua
+   */
+  async listGroupSubmissions(groupId: string) {
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+      include: {
+        submissions: {
+          orderBy: { version: 'desc' },
+          include: {
+            analysisResults: {
+              select: { id: true, analysisId: true, createdAt: true },
+              orderBy: { createdAt: 'desc' },
+            },
+          },
+        },
+      },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Grupo con ID ${groupId} no encontrado`);
+    }
+
+    const { submissions, ...groupData } = group;
+
+    return {
+      group: groupData,
+      latestVersion: submissions[0]?.version ?? null,
+      submissions,
+    };
+  }
+
+  /**
+   * Diff del texto extraído de dos versiones de la entrega de un grupo.
+   * Sin versiones indicadas compara la última con la anterior.
+   */
+  async diffVersions(groupId: string, dto: DiffSubmissionVersionsDto = {}) {
+    const submissions = await this.prisma.submission.findMany({
+      where: { groupId },
+      orderBy: { version: 'desc' },
+    });
+
+    if (submissions.length === 0) {
+      throw new NotFoundException(`Grupo ${groupId} no tiene submissions`);
+    }
+
+    const toVersion = dto.to ?? submissions[0].version;
+    const fromVersion =
+      dto.from ??
+      submissions.find((submission) => submission.version < toVersion)?.version;
+
+    if (fromVersion === undefined) {
+      throw new BadRequestException(
+        'El grupo tiene una sola versión de la entrega; no hay nada que comparar',
+      );
+    }
+
+    const findVersion = (version: number) => {
+      const submission = submissions.find((s) => s.version === version);
+      if (!submission) {
+        throw new NotFoundException(
+          `La versión ${version} no existe para el grupo ${groupId}`,
+        );
+      }
+      return submission;
+    };
+
+    const from = findVersion(fromVersion);
+    const to = findVersion(toVersion);
+
+    const summarize = (submission: typeof from) => ({
+      id: submission.id,
+      version: submission.version,
+      fileName: submission.fileName,
+      checksum: submission.checksum,
+      uploadedAt: submission.uploadedAt,
+    });
+
+    // Mismo archivo: no hace falta descargar ni extraer el texto
+    if (from.checksum && from.checksum === to.checksum) {
+      return {
+        from: summarize(from),
+        to: summarize(to),
+        identical: true,
+        stats: { added: 0, removed: 0 },
+        hunks: [],
+      };
+    }
+
+    const [fromText, toText] = await Promise.all(
+      [from, to].map(async (submission) => {
+        if (!submission.fileUrl) {
+          throw new BadRequestException(
+            `La versión ${submission.version} no tiene archivo asociado`,
+          );
+        }
+        const { text } = await this.documentExtraction.extractFromUrl(
+          submission.fileUrl,
+          submission.fileName,
+          submission.checksum,
+        );
+        return this.normalizeForDiff(text);
+      }),
+    );
+
+    const patch = structuredPatch(
+      `v${from.version}`,
+      `v${to.version}`,
+      fromText,
+      toText,
+      '',
+      '',
+      { context: 3 },
+    );
+
+    const stats = { added: 0, removed: 0 };
+    for (const hunk of patch.hunks) {
+      for (const line of hunk.lines) {
+        if (line.startsWith('+')) stats.added++;
+        else if (line.startsWith('-')) stats.removed++;
+      }
+    }
+
+    return {
+      from: summarize(from),
+      to: summarize(to),
+      identical: patch.hunks.length === 0,
+      stats,
+      hunks: patch.hunks,
+    };
+  }
+
+  /**
+   * Una línea por renglón del documento, sin espacios repetidos ni líneas
+   * vacías, para que el diff no se llene de cambios de formato del documento
+   */
+  private normalizeForDiff(text: string) {
+    return (
+      text
+        .split(/\r?\n/)
+        .map((line) => line.replace(/\s+/g, ' ').trim())
+        .filter((line) => line.length > 0)
+        .join('\n') + '\n'
+    );
+  }
+
+  /**
+   * Importar un ZIP con las entregas de varios grupos. Cada archivo se asigna
+   * al grupo cuyo código captura el filenamePattern ({code}) y se descomprime
+   * y guarda de a uno.
+   */
+  async importZip(
+    evaluationId: string,
+    file: SubmissionFile | undefined,
+    dto: BulkImportSubmissionsDto = {},
+  ) {
+    if (!file) {
+      throw new BadRequestException('Debes adjuntar el archivo ZIP');
+    }
+
+    if (file.size > this.maxZipSize) {
+      throw new BadRequestException(
+        `ZIP demasiado grande. Máximo: ${this.maxZipSize / 1024 / 1024}MB`,
+      );
+    }
+
+    const evaluation = await this.prisma.evaluation.findUnique({
+      where: { id: evaluationId },
+      include: { groups: true },
+    });
+
+    if (!evaluation) {
+      throw new NotFoundException(
+        `Evaluación con ID ${evaluationId} no encontrada`,
+      );
+    }
+
+    const groupsByCode = new Map<string, Group>();
+    for (const group of evaluation.groups) {
+      if (group.code) {
+        groupsByCode.set(group.code.toLowerCase(), group);
+      }
+    }
+
+    const matchCode = this.compileFilenamePattern(dto.filenamePattern, [
+      ...groupsByCode.keys(),
+    ]);
+
+    let zip: AdmZip;
+    let entries: AdmZip.IZipEntry[];
+    try {
+      zip = new AdmZip(file.buffer);
+      entries = zip.getEntries().filter((entry) => !entry.isDirectory);
+    } catch {
+      throw new BadRequestException('El archivo debe ser un ZIP válido');
+    }
+
+    const declaredSize = entries.reduce(
+      (total, entry) => total + entry.header.size,
+      0,
+    );
+    if (declaredSize > this.maxUnzippedSize) {
+      throw new BadRequestException(
+        `El contenido descomprimido del ZIP supera el máximo de ${this.maxUnzippedSize / 1024 / 1024}MB`,
+      );
+    }
+
+    const files: BulkImportFileReport[] = [];
+    // Bytes realmente descomprimidos: los tamaños del encabezado pueden mentir
+    let unzippedSize = 0;
+
+    for (const entry of entries) {
+      const fileName = entry.entryName;
+      const baseName = posix.basename(fileName);
+
+      if (fileName.startsWith('__MACOSX/') || baseName.startsWith('.')) {
+        files.push({
+          fileName,
+          status: 'skipped',
+          reason: 'Archivo de sistema',
+        });
+        continue;
+      }
+
+      const code = matchCode(fileName);
+      if (!code) {
+        files.push({
+          fileName,
+          status: 'skipped',
+          reason: 'El nombre no coincide con el patrón de archivos',
+        });
+        continue;
+      }
+
+      let group = groupsByCode.get(code.toLowerCase());
+      let groupCreated = false;
+
+      if (!group && !dto.createMissingGroups) {
+        files.push({
+          fileName,
+          status: 'skipped',
+          groupCode: code,
+          reason: `No existe un grupo con código ${code} en la evaluación`,
+        });
+        continue;
+      }
+
+      try {
+        if (!group) {
+          if (code.length > 40) {
+            throw new BadRequestException(
+              `El código ${code} supera los 40 caracteres`,
+            );
+          }
+
+          group = await this.prisma.group.create({
+            data: { evaluationId, code, name: code, studentCount: 0 },
+          });
+          groupsByCode.set(code.toLowerCase(), group);
+          groupCreated = true;
+        }
+
+        const buffer = this.inflateEntry(entry, unzippedSize);
+        unzippedSize += buffer.length;
+
+        const { submission, duplicate } = await this.storeSubmission(
+          group,
+          {
+            buffer,
+            originalname: baseName,
+            // El tipo real se detecta por el contenido al validarlo
+            mimetype: 'application/octet-stream',
+            size: buffer.length,
+          },
+          { allowDuplicate: dto.allowDuplicate },
+        );
+
+        files.push({
+          fileName,
+          status: groupCreated ? 'created' : 'matched',
+          groupCode: group.code ?? code,
+          groupId: group.id,
+          submissionId: submission.id,
+          duplicate,
+        });
+      } catch (error) {
+        const reason =
+          error instanceof HttpException
+            ? error.message
+            : 'Error inesperado al guardar el archivo';
+
+        if (!(error instanceof HttpException)) {
+          this.logger.error(
+            `Error importando ${fileName}: ${(error as Error).message}`,
+          );
+        }
+
+        files.push({
+          fileName,
+          // Una entrega idéntica a otra no es un error del archivo: se omite
+          status: error instanceof ConflictException ? 'skipped' : 'errored',
+          groupCode: group?.code ?? code,
+          groupId: group?.id,
+          reason,
+        });
+      }
+    }
+
+    const summary = {
+      total: files.length,
+      matched: 0,
+      created: 0,
+      skipped: 0,
+      errored: 0,
+    };
+    for (const report of files) {
+      summary[report.status]++;
+    }
+
+    this.logger.log(
+      `Importación ZIP de la evaluación ${evaluationId}: ${summary.matched + summary.created}/${summary.total} archivos guardados`,
+    );
+
+    return { evaluationId, summary, files };
+  }
+
+  /**
+   * Descomprimir una entrada del ZIP. Los tamaños se revisan con el
+   * encabezado antes de descomprimir y con el resultado después, ya que un
+   * ZIP manipulado puede declarar tamaños falsos.
+   */
+  private inflateEntry(entry: AdmZip.IZipEntry, unzippedSize: number) {
+    const checkSize = (size: number) => {
+      if (size > this.maxFileSize) {
+        throw new BadRequestException(
+          `Archivo demasiado grande. Máximo: ${this.maxFileSize / 1024 / 1024}MB`,
+        );
+      }
+      if (
+        size > COMPRESSION_RATIO_MIN_SIZE &&
+        size > MAX_COMPRESSION_RATIO * entry.header.compressedSize
+      ) {
+        throw new BadRequestException(
+          `El archivo se comprime más de ${MAX_COMPRESSION_RATIO} veces; no se descomprime`,
+        );
+      }
+      if (unzippedSize + size > this.maxUnzippedSize) {
+        throw new BadRequestException(
+          `El contenido descomprimido del ZIP supera el máximo de ${this.maxUnzippedSize / 1024 / 1024}MB`,
+        );
+      }
+    };
+
+    checkSize(entry.header.size);
+    const buffer = entry.getData();
+    checkSize(buffer.length);
+
+    return buffer;
+  }
+
+  /**
+   * Convertir el filenamePattern en una función que extrae el código del
+   * grupo. Sin "/" el patrón se compara con el nombre del archivo; con "/",
+   * con la ruta completa dentro del ZIP. Los códigos existentes (groupCodes,
+   * que pueden incluir "-", "_" o ".") se prueban primero, del más largo al
+   * más corto, y no pueden seguir en otro carácter de código: con G1, el
+   * archivo G10_informe.pdf no es del grupo G1.
+   */
+  private compileFilenamePattern(
+    filenamePattern: string | undefined,
+    groupCodes: string[],
+  ): (fileName: string) => string | undefined {
+    const source =
+      filenamePattern ??
+      this.configService.get<string>(
+        'SUBMISSION_BULK_FILENAME_PATTERN',
+        DEFAULT_FILENAME_PATTERN,
+      );
+
+    const parts = source.split(CODE_PLACEHOLDER);
+    if (parts.length !== 2) {
+      throw new BadRequestException(
+        `filenamePattern debe incluir ${CODE_PLACEHOLDER} exactamente una vez`,
+      );
+    }
+
+    if (source.split('*').length - 1 > MAX_PATTERN_WILDCARDS) {
+      throw new BadRequestException(
+        `filenamePattern admite como máximo ${MAX_PATTERN_WILDCARDS} comodines *`,
+      );
+    }
+
+    const escape = (literal: string) =>
+      literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const toRegex = (text: string) => text.split('*').map(escape).join('[^/]*');
+    const knownCodes = [...groupCodes]
+      .sort((a, b) => b.length - a.length)
+      .map(escape);
+    const capture = [
+      ...(knownCodes.length > 0
+        ? [`(?:${knownCodes.join('|')})(?![^/_\\s.-])`]
+        : []),
+      NEW_CODE_CAPTURE,
+    ].join('|');
+    const pattern = new RegExp(
+      `^${toRegex(parts[0])}(${capture})${toRegex(parts[1])}$`,
+      'i',
+    );
+    const matchPath = source.includes('/');
+
+    return (fileName) => {
+      const name = matchPath ? fileName : posix.basename(fileName);
+
+      return name.length > MAX_MATCHED_PATH_LENGTH
+        ? undefined
+        : pattern.exec(name)?.[1];
+    };
+  }
+
+  private validateFile(file: SubmissionFile) {
+    if (file.size > this.maxFileSize) {
+      throw new BadRequestException(
+        `Archivo demasiado grande. Máximo: ${this.maxFileSize / 1024 / 1024}MB`,
+      );
+    }
+
+    return this.documentExtraction.detect(file.buffer, file.originalname);
+  }
+
+  /**
+   * Entrega anterior de la evaluación con el mismo SHA-256
+   */
+  private findDuplicate(
+    evaluationId: string,
+    checksum: string,
+    excludeId?: string,
+  ) {
+    return this.prisma.submission.findFirst({
+      where: {
+        checksum,
+        fileUrl: { not: null },
+        group: { evaluationId },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+      include: { group: true },
+      orderBy: { uploadedAt: 'asc' },
+    });
+  }
+
+  private duplicateRef(duplicate: SubmissionWithGroup) {
+    return {
+      submissionId: duplicate.id,
+      groupId: duplicate.groupId,
+      groupCode: duplicate.group.code,
+    };
+  }
+
+  private duplicateConflict(duplicate: SubmissionWithGroup) {
+    return new ConflictException({
+      message: `El archivo es idéntico a una entrega existente del grupo ${duplicate.group.code}`,
+      duplicateOf: {
+        ...this.duplicateRef(duplicate),
+        fileName: duplicate.fileName,
+        uploadedAt: duplicate.uploadedAt,
+      },
+    });
+  }
+
+  private createPendingSubmission(
+    group: Group,
+    data: {
+      fileName: string;
+      checksum?: string;
+      meta: Prisma.InputJsonObject;
+    },
+  ) {
+    return createVersionedSubmission(this.prisma, {
+      groupId: group.id,
+      fileName: data.fileName.slice(0, 240),
+      checksum: data.checksum,
+      status: 'PENDING',
+      meta: data.meta,
+    });
+  }
+
+  private submissionKey(group: Group, fileName: string) {
+    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+    return `evaluations/${group.evaluationId}/groups/${group.id}/submissions/${Date.now()}_${sanitizedFileName}`;
+  }
+
+  private async logUpload(
+    group: Group,
+    submission: Submission,
+    duplicate: SubmissionWithGroup | null,
+  ) {
+    await this.prisma.activityLog.create({
+      data: {
+        evaluationId: group.evaluationId,
+        groupId: group.id,
+        type: 'UPLOAD',
+        message:
+          `Entrega "${submission.fileName}" subida para el grupo ${group.code}` +
+          (duplicate
+            ? ` (idéntica a la del grupo ${duplicate.group.code})`
+            : ''),
+      },
+    });
+
+    this.logger.log(
+      `Entrega ${submission.id} (v${submission.version}) del grupo ${group.code} guardada (sha256 ${submission.checksum?.slice(0, 12)}…)`,
+    );
+  }
+}
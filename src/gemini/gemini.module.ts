@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { GeminiService } from './gemini.service';
 import { GeminiController } from './gemini.controller';
+import { LlmUsageModule } from '../llm/llm-usage.module';
 
 @Module({
+  imports: [LlmUsageModule],
   controllers: [GeminiController],
   providers: [GeminiService],
   exports: [GeminiService],
@@ -1,18 +1,47 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  Content,
+  GoogleGenerativeAI,
+  UsageMetadata,
+} from '@google/generative-ai';
+import { z } from 'zod';
+import {
+  LlmCallOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmStructuredOptions,
+  LlmUsageContext,
+} from '../llm/llm-provider.interface';
+import { LlmUsageService } from '../llm/llm-usage.service';
 
 @Injectable()
-export class GeminiService {
+export class GeminiService implements LlmProvider {
   private readonly logger = new Logger(GeminiService.name);
-  private genAI: GoogleGenerativeAI;
+  private client?: GoogleGenerativeAI;
 
-  constructor(private configService: ConfigService) {
-    const apiKey = this.configService.get<string>('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY no está configurada');
+  readonly name = 'gemini' as const;
+  readonly defaultModel = 'gemini-2.5-flash-lite';
+
+  constructor(
+    private configService: ConfigService,
+    private readonly llmUsage: LlmUsageService,
+  ) {}
+
+  /**
+   * Cliente creado al primer uso, para que la app arranque sin API key
+   * (por ejemplo con el motor SIMULATED)
+   */
+  private get genAI(): GoogleGenerativeAI {
+    if (!this.client) {
+      const apiKey = this.configService.get<string>('GEMINI_API_KEY');
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY no está configurada');
+      }
+      this.client = new GoogleGenerativeAI(apiKey);
     }
-    this.genAI = new GoogleGenerativeAI(apiKey);
+
+    return this.client;
   }
 
   /**
@@ -28,8 +57,15 @@ export class GeminiService {
       this.logger.log(`Generando texto con modelo: ${modelName}`);
       
       const model = this.genAI.getGenerativeModel({ model: modelName });
+      const startedAt = Date.now();
       const result = await model.generateContent(prompt);
       const response = result.response;
+      this.recordUsage(
+        modelName,
+        'generate_text',
+        response.usageMetadata,
+        startedAt,
+      );
       
       return response.text();
     } catch (error) {
@@ -54,8 +90,15 @@ export class GeminiService {
         })),
       });
 
+      const startedAt = Date.now();
       const result = await chat.sendMessage(message);
       const response = result.response;
+      this.recordUsage(
+        'gemini-2.5-flash-lite',
+        'chat',
+        response.usageMetadata,
+        startedAt,
+      );
       
       return response.text();
     } catch (error) {
@@ -66,13 +109,20 @@ export class GeminiService {
 
   /**
    * Análisis de imagen y texto (multimodal)
+   * @param usage - A quién se atribuye el consumo (por ejemplo el OCR de una entrega)
    */
-  async analyzeImage(prompt: string, imageBase64: string, mimeType: string = 'image/jpeg') {
+  async analyzeImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string = 'image/jpeg',
+    usage?: LlmUsageContext,
+  ) {
     try {
       this.logger.log('Analizando imagen con Gemini');
       
       const model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
       
+      const startedAt = Date.now();
       const result = await model.generateContent([
         {
           inlineData: {
@@ -84,6 +134,13 @@ export class GeminiService {
       ]);
 
       const response = result.response;
+      this.recordUsage(
+        'gemini-2.5-flash-lite',
+        'analyze_image',
+        response.usageMetadata,
+        startedAt,
+        usage,
+      );
       return response.text();
     } catch (error) {
       this.logger.error('Error al analizar imagen:', error);
@@ -99,7 +156,20 @@ export class GeminiService {
       this.logger.log('Iniciando stream con Gemini');
       
       const model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
+      const startedAt = Date.now();
       const result = await model.generateContentStream(prompt);
+
+      // La respuesta agregada se resuelve cuando el stream termina
+      result.response
+        .then((response) =>
+          this.recordUsage(
+            'gemini-2.5-flash-lite',
+            'stream',
+            response.usageMetadata,
+            startedAt,
+          ),
+        )
+        .catch(() => undefined);
       
       return result.stream;
     } catch (error) {
@@ -111,9 +181,9 @@ export class GeminiService {
   /**
    * Contar tokens de un texto
    */
-  async countTokens(text: string) {
+  async countTokens(text: string, modelName: string = 'gemini-2.5-flash-lite') {
     try {
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
+      const model = this.genAI.getGenerativeModel({ model: modelName });
       const result = await model.countTokens(text);
       
       return result.totalTokens;
@@ -122,4 +192,173 @@ export class GeminiService {
       throw error;
     }
   }
+
+  // ============================================
+  // LlmProvider
+  // ============================================
+
+  async complete(prompt: string, options: LlmCallOptions = {}) {
+    return this.completeChat([{ role: 'user', content: prompt }], options);
+  }
+
+  async completeChat(messages: LlmMessage[], options: LlmCallOptions = {}) {
+    const modelName = options.model || this.defaultModel;
+
+    try {
+      this.logger.log(`Completando chat con modelo: ${modelName}`);
+
+      const { systemInstruction, contents } = this.toGeminiContents(messages);
+      const model = this.genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction,
+        generationConfig: { temperature: options.temperature },
+      });
+      const startedAt = Date.now();
+      const result = await model.generateContent(
+        { contents },
+        { signal: options.signal },
+      );
+      this.recordUsage(
+        modelName,
+        'complete_chat',
+        result.response.usageMetadata,
+        startedAt,
+        options.usage,
+      );
+
+      return result.response.text();
+    } catch (error) {
+      this.logger.error('Error al completar chat con Gemini:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gemini responde en modo JSON con el JSON Schema derivado del schema Zod;
+   * la respuesta se valida luego con el mismo schema.
+   */
+  async completeStructured<T extends z.ZodType>(
+    messages: LlmMessage[],
+    options: LlmStructuredOptions<T>,
+  ): Promise<z.infer<T>> {
+    const modelName = options.model || this.defaultModel;
+
+    try {
+      this.logger.log(
+        `Generando respuesta estructurada con modelo: ${modelName}`,
+      );
+
+      const jsonSchema = JSON.stringify(z.toJSONSchema(options.schema));
+      const { systemInstruction, contents } = this.toGeminiContents([
+        ...messages,
+        {
+          role: 'user',
+          content: `Responde ÚNICAMENTE con un objeto JSON "${options.schemaName}" que cumpla este JSON Schema:\n${jsonSchema}`,
+        },
+      ]);
+
+      const model = this.genAI.getGenerativeModel({
+        model: modelName,
+        systemInstruction,
+        generationConfig: {
+          temperature: options.temperature,
+          responseMimeType: 'application/json',
+        },
+      });
+      const startedAt = Date.now();
+      const result = await model.generateContent(
+        { contents },
+        { signal: options.signal },
+      );
+      this.recordUsage(
+        modelName,
+        options.schemaName,
+        result.response.usageMetadata,
+        startedAt,
+        options.usage,
+      );
+
+      return options.schema.parse(JSON.parse(result.response.text()));
+    } catch (error) {
+      this.logger.error('Error al generar respuesta estructurada:', error);
+      throw error;
+    }
+  }
+
+  async *streamCompletion(prompt: string, options: LlmCallOptions = {}) {
+    const modelName = options.model || this.defaultModel;
+    const model = this.genAI.getGenerativeModel({
+      model: modelName,
+      generationConfig: { temperature: options.temperature },
+    });
+    const startedAt = Date.now();
+    const result = await model.generateContentStream(prompt, {
+      signal: options.signal,
+    });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+
+    const response = await result.response;
+    this.recordUsage(
+      modelName,
+      'stream',
+      response.usageMetadata,
+      startedAt,
+      options.usage,
+    );
+  }
+
+  /**
+   * Registrar tokens, latencia y costo de una llamada. La salida incluye los
+   * tokens de razonamiento (total - prompt), que también se cobran
+   */
+  private recordUsage(
+    modelName: string,
+    operation: string,
+    usage: UsageMetadata | undefined,
+    startedAt: number,
+    context?: LlmUsageContext,
+  ) {
+    const promptTokens = usage?.promptTokenCount ?? 0;
+
+    this.llmUsage.record({
+      provider: this.name,
+      model: modelName,
+      operation,
+      promptTokens,
+      completionTokens: Math.max(
+        (usage?.totalTokenCount ?? 0) - promptTokens,
+        0,
+      ),
+      latencyMs: Date.now() - startedAt,
+      context,
+    });
+  }
+
+  /**
+   * Convierte mensajes estilo chat al formato de Gemini (system → systemInstruction)
+   */
+  private toGeminiContents(messages: LlmMessage[]) {
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const contents: Content[] = messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }));
+
+    return {
+      systemInstruction: system || undefined,
+      contents,
+    };
+  }
 }
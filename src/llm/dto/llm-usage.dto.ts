@@ -0,0 +1,50 @@
+// dto/llm-usage.dto.ts
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional, IsUUID } from 'class-validator';
+import { LLM_USAGE_GROUP_BY } from '../llm-usage.service';
+import type { LlmUsageGroupBy } from '../llm-usage.service';
+
+export class LlmUsageReportDto {
+  @ApiPropertyOptional({
+    description:
+      'Agrupar los totales por evaluación, por docente (dueño de la evaluación) o por mes',
+    enum: LLM_USAGE_GROUP_BY,
+    default: 'month',
+    example: 'evaluation',
+  })
+  @IsIn(LLM_USAGE_GROUP_BY)
+  @IsOptional()
+  groupBy?: LlmUsageGroupBy;
+
+  @ApiPropertyOptional({
+    description: 'Incluir las llamadas desde esta fecha (inclusive)',
+    example: '2025-01-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Incluir las llamadas hasta esta fecha (exclusive)',
+    example: '2025-02-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Solo las llamadas de esta evaluación',
+    example: 'uuid-evaluation',
+  })
+  @IsUUID()
+  @IsOptional()
+  evaluationId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Solo las llamadas de las evaluaciones de este docente',
+    example: 'uuid-owner',
+  })
+  @IsUUID()
+  @IsOptional()
+  ownerId?: string;
+}
@@ -0,0 +1,43 @@
+import {
+  DEFAULT_LLM_PRICES,
+  estimateLlmCost,
+  findLlmPrice,
+} from './llm-pricing';
+
+describe('LLM pricing', () => {
+  describe('findLlmPrice', () => {
+    it('should return the price of the exact model name', () => {
+      expect(findLlmPrice(DEFAULT_LLM_PRICES, 'gpt-4o')).toEqual({
+        input: 2.5,
+        output: 10,
+      });
+    });
+
+    it('should use the longest matching prefix for dated versions', () => {
+      expect(findLlmPrice(DEFAULT_LLM_PRICES, 'gpt-4o-mini-2024-07-18')).toBe(
+        DEFAULT_LLM_PRICES['gpt-4o-mini'],
+      );
+      expect(findLlmPrice(DEFAULT_LLM_PRICES, 'gpt-4.1-2025-04-14')).toBe(
+        DEFAULT_LLM_PRICES['gpt-4.1'],
+      );
+    });
+
+    it('should not match prefixes without a dash separator', () => {
+      expect(findLlmPrice({ 'gpt-4': { input: 1, output: 1 } }, 'gpt-4o')).toBe(
+        null,
+      );
+    });
+
+    it('should return null for unknown models', () => {
+      expect(findLlmPrice(DEFAULT_LLM_PRICES, 'claude-sonnet')).toBeNull();
+    });
+  });
+
+  describe('estimateLlmCost', () => {
+    it('should price tokens per million', () => {
+      expect(estimateLlmCost({ input: 2, output: 8 }, 500_000, 250_000)).toBe(
+        3,
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Precio de un modelo en USD por millón de tokens
+ */
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+// Precios publicados por OpenAI y Google; se pueden reemplazar o completar
+// con LLM_PRICES sin tocar el código
+export const DEFAULT_LLM_PRICES: Record<string, LlmPrice> = {
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+/**
+ * Precio de un modelo: el de su nombre exacto o, para las versiones con
+ * fecha (gpt-4o-mini-2024-07-18), el del prefijo más largo que coincida
+ */
+export function findLlmPrice(
+  prices: Record<string, LlmPrice>,
+  model: string,
+): LlmPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Costo estimado en USD de una llamada
+ */
+export function estimateLlmCost(
+  price: LlmPrice,
+  promptTokens: number,
+  completionTokens: number,
+): number {
+  return (
+    (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  );
+}
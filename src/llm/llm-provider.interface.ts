@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+export const LLM_PROVIDERS = ['openai', 'gemini'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A quién se atribuye el consumo de una llamada. operation reemplaza el
+ * nombre por defecto de la llamada (por ejemplo "rubric_analysis")
+ */
+export interface LlmUsageContext {
+  operation?: string;
+  analysisId?: string | null;
+  groupId?: string | null;
+  evaluationId?: string | null;
+  userId?: string | null;
+}
+
+export interface LlmCallOptions {
+  model?: string;
+  temperature?: number;
+  usage?: LlmUsageContext;
+  // Cancela la solicitud (timeout de LlmResilienceService)
+  signal?: AbortSignal;
+}
+
+export interface LlmStructuredOptions<T extends z.ZodType>
+  extends LlmCallOptions {
+  schema: T;
+  schemaName: string;
+}
+
+/**
+ * Contrato común para los proveedores de IA (OpenAI, Gemini).
+ * Permite que el análisis use cualquier proveedor sin conocer su SDK.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+
+  /**
+   * Genera texto a partir de un prompt simple
+   */
+  complete(prompt: string, options?: LlmCallOptions): Promise<string>;
+
+  /**
+   * Genera la siguiente respuesta de una conversación
+   */
+  completeChat(
+    messages: LlmMessage[],
+    options?: LlmCallOptions,
+  ): Promise<string>;
+
+  /**
+   * Genera una respuesta validada contra un schema Zod
+   */
+  completeStructured<T extends z.ZodType>(
+    messages: LlmMessage[],
+    options: LlmStructuredOptions<T>,
+  ): Promise<z.infer<T>>;
+
+  /**
+   * Genera texto en modo stream, fragmento a fragmento
+   */
+  streamCompletion(
+    prompt: string,
+    options?: LlmCallOptions,
+  ): AsyncIterable<string>;
+}
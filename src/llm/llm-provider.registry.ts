@@ -0,0 +1,78 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OpenaiService } from '../openai/openai.service';
+import { GeminiService } from '../gemini/gemini.service';
+import {
+  LLM_PROVIDERS,
+  LlmProvider,
+  LlmProviderName,
+} from './llm-provider.interface';
+
+export interface ResolvedLlm {
+  provider: LlmProvider;
+  model: string;
+}
+
+/**
+ * Resuelve el proveedor de IA y el modelo a usar en cada llamada
+ */
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly providers: Record<LlmProviderName, LlmProvider>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    openaiService: OpenaiService,
+    geminiService: GeminiService,
+  ) {
+    this.providers = {
+      openai: openaiService,
+      gemini: geminiService,
+    };
+  }
+
+  get(name: string): LlmProvider {
+    if (!this.isProviderName(name)) {
+      throw new BadRequestException(
+        `Proveedor de IA no soportado: ${name}. Usa: ${LLM_PROVIDERS.join(', ')}`,
+      );
+    }
+
+    return this.providers[name];
+  }
+
+  /**
+   * Resolver proveedor y modelo, aplicando los valores por defecto configurados
+   */
+  resolve(providerName?: string | null, model?: string | null): ResolvedLlm {
+    const provider = this.get(
+      providerName ||
+        this.configService.get<string>('LLM_DEFAULT_PROVIDER', 'openai'),
+    );
+
+    return {
+      provider,
+      model: model || provider.defaultModel,
+    };
+  }
+
+  /**
+   * Identificador "proveedor:modelo" que se guarda en Analysis.engine
+   */
+  toEngine({ provider, model }: ResolvedLlm): string {
+    return `${provider.name}:${model}`;
+  }
+
+  /**
+   * Resolver el proveedor y modelo a partir de Analysis.engine
+   */
+  fromEngine(engine: string): ResolvedLlm {
+    const [providerName, ...modelParts] = engine.split(':');
+
+    return this.resolve(providerName.toLowerCase(), modelParts.join(':'));
+  }
+
+  private isProviderName(name: string): name is LlmProviderName {
+    return (LLM_PROVIDERS as readonly string[]).includes(name);
+  }
+}
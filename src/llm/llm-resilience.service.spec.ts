@@ -0,0 +1,209 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import type { LlmProvider } from './llm-provider.interface';
+import { LlmProviderRegistry, ResolvedLlm } from './llm-provider.registry';
+import { LlmCallError, LlmResilienceService } from './llm-resilience.service';
+
+// Error con la forma de los errores de los SDKs de OpenAI y Gemini
+const providerError = (
+  status: number,
+  extra: { headers?: Record<string, string>; retryDelay?: string } = {},
+) =>
+  Object.assign(new Error(`HTTP ${status}`), {
+    status,
+    headers: extra.headers && new Headers(extra.headers),
+    errorDetails: extra.retryDelay ? [{ retryDelay: extra.retryDelay }] : [],
+  });
+
+describe('LlmResilienceService', () => {
+  let resilience: LlmResilienceService;
+  let config: Record<string, string | number>;
+
+  const llm = {
+    provider: { name: 'openai' } as LlmProvider,
+    model: 'gpt-4o',
+  } as ResolvedLlm;
+
+  const llmProviders = {
+    toEngine: ({ provider, model }: ResolvedLlm) => `${provider.name}:${model}`,
+    resolve: (name: string, model?: string) =>
+      ({
+        provider: { name } as LlmProvider,
+        model: model ?? 'default',
+      }) as ResolvedLlm,
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmResilienceService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              config[key] ?? defaultValue,
+          },
+        },
+        { provide: LlmProviderRegistry, useValue: llmProviders },
+      ],
+    }).compile();
+
+    return module.get<LlmResilienceService>(LlmResilienceService);
+  };
+
+  const failure = (run: jest.Mock) =>
+    resilience.call(llm, run).then(
+      () => {
+        throw new Error('La llamada no falló');
+      },
+      (error: LlmCallError) => error,
+    );
+
+  beforeEach(async () => {
+    config = {
+      LLM_MAX_ATTEMPTS: 3,
+      LLM_RETRY_BASE_DELAY_MS: 1,
+      LLM_RETRY_MAX_DELAY_MS: 50,
+      LLM_CIRCUIT_FAILURE_THRESHOLD: 5,
+    };
+    resilience = await createService();
+  });
+
+  it('should return the result of the first successful attempt', async () => {
+    const run = jest.fn().mockResolvedValue('ok');
+
+    await expect(resilience.call(llm, run)).resolves.toEqual({
+      result: 'ok',
+      llm,
+      fallback: false,
+    });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  describe('classify', () => {
+    it('should retry rate limits and server errors', async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValueOnce(providerError(429))
+        .mockRejectedValueOnce(providerError(503))
+        .mockResolvedValue('ok');
+
+      await expect(resilience.call(llm, run)).resolves.toMatchObject({
+        result: 'ok',
+      });
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry requests rejected by the provider', async () => {
+      const run = jest.fn().mockRejectedValue(providerError(400));
+
+      const error = await failure(run);
+
+      expect(error).toBeInstanceOf(LlmCallError);
+      expect(error).toMatchObject({
+        reason: 'REJECTED',
+        retryable: false,
+        engine: 'openai:gpt-4o',
+      });
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry invalid responses and network errors', async () => {
+      const zodError = Object.assign(new Error('schema'), { name: 'ZodError' });
+      const run = jest
+        .fn()
+        .mockRejectedValueOnce(zodError)
+        .mockRejectedValueOnce(new SyntaxError('Unexpected token'))
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const error = await failure(run);
+
+      expect(error.reason).toBe('UNAVAILABLE');
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not requeue the job after exhausting its attempts', async () => {
+      const run = jest.fn().mockRejectedValue(providerError(500));
+
+      const error = await failure(run);
+
+      expect(error).toMatchObject({ reason: 'UNAVAILABLE', retryable: false });
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('retryAfterMs', () => {
+    it('should wait for the Retry-After header before retrying', async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValueOnce(
+          providerError(429, { headers: { 'retry-after-ms': '20' } }),
+        )
+        .mockResolvedValue('ok');
+
+      const startedAt = Date.now();
+      await resilience.call(llm, run);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15);
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read the Gemini RetryInfo delay', async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValueOnce(providerError(429, { retryDelay: '0.01s' }))
+        .mockResolvedValue('ok');
+
+      await expect(resilience.call(llm, run)).resolves.toMatchObject({
+        result: 'ok',
+      });
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave long waits to a job retry', async () => {
+      const run = jest
+        .fn()
+        .mockRejectedValue(
+          providerError(429, { headers: { 'retry-after': '120' } }),
+        );
+
+      const error = await failure(run);
+
+      expect(error).toMatchObject({ reason: 'RATE_LIMITED', retryable: true });
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should open the circuit after repeated failures', async () => {
+    config.LLM_CIRCUIT_FAILURE_THRESHOLD = 2;
+    resilience = await createService();
+    const run = jest.fn().mockRejectedValue(providerError(503));
+
+    // El segundo fallo abre el circuito y corta los reintentos
+    const error = await failure(run);
+    expect(error).toMatchObject({ reason: 'CIRCUIT_OPEN', retryable: true });
+    expect(run).toHaveBeenCalledTimes(2);
+
+    await expect(failure(run)).resolves.toMatchObject({
+      reason: 'CIRCUIT_OPEN',
+    });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the fallback model when the primary fails', async () => {
+    config.LLM_FALLBACK_MODEL = 'gpt-4o-mini';
+    resilience = await createService();
+    const run = jest
+      .fn()
+      .mockImplementation((target: ResolvedLlm) =>
+        target.model === 'gpt-4o'
+          ? Promise.reject(providerError(400))
+          : Promise.resolve('ok'),
+      );
+
+    const result = await resilience.call(llm, run);
+
+    expect(result.fallback).toBe(true);
+    expect(result.llm.model).toBe('gpt-4o-mini');
+  });
+});
@@ -0,0 +1,371 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmProviderRegistry, ResolvedLlm } from './llm-provider.registry';
+
+/**
+ * Motivo por el que falló una llamada al proveedor de IA:
+ * - RATE_LIMITED: 429 del proveedor
+ * - TIMEOUT: la llamada superó LLM_CALL_TIMEOUT_MS
+ * - UNAVAILABLE: 5xx, 408, 409 o error de conexión
+ * - INVALID_RESPONSE: la respuesta no cumple el schema pedido
+ * - CIRCUIT_OPEN: el proveedor acumuló fallos y no se llama por un tiempo
+ * - REJECTED: el proveedor rechazó la solicitud (API key, 400, modelo inexistente)
+ */
+export type LlmFailureReason =
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'UNAVAILABLE'
+  | 'INVALID_RESPONSE'
+  | 'CIRCUIT_OPEN'
+  | 'REJECTED';
+
+// Fallos que indican un problema del proveedor y cuentan para el circuito
+const TRANSIENT_REASONS: LlmFailureReason[] = [
+  'RATE_LIMITED',
+  'TIMEOUT',
+  'UNAVAILABLE',
+];
+
+/**
+ * Error de una llamada al proveedor después de reintentos y fallback. El
+ * worker usa reason para el resumen del análisis y retryable para decidir si
+ * vale la pena reintentar el job más tarde: solo cuando el circuito estaba
+ * abierto o el proveedor pidió esperar más que LLM_RETRY_MAX_DELAY_MS. Los
+ * fallos que ya se reintentaron aquí no se vuelven a reintentar en el job.
+ */
+export class LlmCallError extends Error {
+  constructor(
+    readonly reason: LlmFailureReason,
+    readonly retryable: boolean,
+    readonly engine: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+class LlmTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Sin respuesta del proveedor en ${timeoutMs} ms`);
+  }
+}
+
+export interface LlmCallResult<T> {
+  result: T;
+  // Proveedor y modelo que respondieron (el de fallback si se usó)
+  llm: ResolvedLlm;
+  fallback: boolean;
+}
+
+interface Failure {
+  reason: LlmFailureReason;
+  retryable: boolean;
+  retryAfterMs?: number;
+  message: string;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Capa de resiliencia de las llamadas a los proveedores de IA: timeout por
+ * llamada, reintentos con backoff exponencial (respetando Retry-After), un
+ * circuit breaker por proveedor y modelo, y fallback a un segundo proveedor o
+ * modelo (LLM_FALLBACK_PROVIDER / LLM_FALLBACK_MODEL).
+ */
+@Injectable()
+export class LlmResilienceService {
+  private readonly logger = new Logger(LlmResilienceService.name);
+  private readonly timeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly circuits = new Map<string, CircuitState>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmProviders: LlmProviderRegistry,
+  ) {
+    this.timeoutMs = Number(
+      this.configService.get('LLM_CALL_TIMEOUT_MS', 120000),
+    );
+    this.maxAttempts = Math.max(
+      1,
+      Number(this.configService.get('LLM_MAX_ATTEMPTS', 3)),
+    );
+    this.baseDelayMs = Number(
+      this.configService.get('LLM_RETRY_BASE_DELAY_MS', 1000),
+    );
+    this.maxDelayMs = Number(
+      this.configService.get('LLM_RETRY_MAX_DELAY_MS', 30000),
+    );
+    this.failureThreshold = Math.max(
+      1,
+      Number(this.configService.get('LLM_CIRCUIT_FAILURE_THRESHOLD', 5)),
+    );
+    this.cooldownMs = Number(
+      this.configService.get('LLM_CIRCUIT_COOLDOWN_MS', 60000),
+    );
+  }
+
+  /**
+   * Ejecutar una llamada con el proveedor indicado y, si agota sus intentos,
+   * con el de fallback. La llamada recibe el proveedor a usar y una señal que
+   * se aborta al vencer el timeout.
+   */
+  async call<T>(
+    llm: ResolvedLlm,
+    run: (llm: ResolvedLlm, signal: AbortSignal) => Promise<T>,
+  ): Promise<LlmCallResult<T>> {
+    const fallback = this.resolveFallback(llm);
+
+    try {
+      return {
+        result: await this.callWithRetries(llm, run),
+        llm,
+        fallback: false,
+      };
+    } catch (error) {
+      if (!fallback) {
+        throw error;
+      }
+
+      const primary = error as LlmCallError;
+      this.logger.warn(
+        `${primary.message}; se usa el fallback ${this.llmProviders.toEngine(fallback)}`,
+      );
+
+      try {
+        return {
+          result: await this.callWithRetries(fallback, run),
+          llm: fallback,
+          fallback: true,
+        };
+      } catch (fallbackError) {
+        const secondary = fallbackError as LlmCallError;
+
+        // El job se reintenta si alguno de los dos puede recuperarse
+        throw new LlmCallError(
+          secondary.reason,
+          primary.retryable || secondary.retryable,
+          secondary.engine,
+          `${primary.message}; fallback ${secondary.message}`,
+        );
+      }
+    }
+  }
+
+  private async callWithRetries<T>(
+    llm: ResolvedLlm,
+    run: (llm: ResolvedLlm, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const engine = this.llmProviders.toEngine(llm);
+
+    for (let attempt = 1; ; attempt++) {
+      const circuit = this.circuits.get(engine);
+      if (circuit && circuit.openUntil > Date.now()) {
+        throw new LlmCallError(
+          'CIRCUIT_OPEN',
+          true,
+          engine,
+          `${engine} no disponible por fallos recientes; se reintentará después de ${new Date(circuit.openUntil).toISOString()}`,
+        );
+      }
+
+      let failure: Failure;
+      try {
+        const result = await this.runWithTimeout(llm, run);
+        this.circuits.delete(engine);
+        return result;
+      } catch (error) {
+        failure = this.classify(error);
+      }
+
+      if (TRANSIENT_REASONS.includes(failure.reason)) {
+        this.recordFailure(engine);
+      }
+
+      const delayMs = failure.retryAfterMs ?? this.backoffDelay(attempt);
+      const waitTooLong = delayMs > this.maxDelayMs;
+
+      if (!failure.retryable || attempt >= this.maxAttempts || waitTooLong) {
+        throw new LlmCallError(
+          failure.reason,
+          // Solo una espera larga pedida por el proveedor justifica reintentar el job
+          failure.retryable && waitTooLong && attempt < this.maxAttempts,
+          engine,
+          `${engine}: ${failure.message} (${attempt} intento(s))`,
+        );
+      }
+
+      this.logger.warn(
+        `${engine} falló (${failure.reason}: ${failure.message}); reintento ${attempt + 1}/${this.maxAttempts} en ${delayMs} ms`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  /**
+   * La señal aborta la solicitud del SDK; la carrera con el timer cubre las
+   * llamadas que no la respetan
+   */
+  private async runWithTimeout<T>(
+    llm: ResolvedLlm,
+    run: (llm: ResolvedLlm, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmTimeoutError(this.timeoutMs));
+      }, this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([run(llm, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordFailure(engine: string) {
+    const state = this.circuits.get(engine) ?? { failures: 0, openUntil: 0 };
+    state.failures++;
+
+    // Tras el enfriamiento se deja pasar una llamada de prueba: si falla, el
+    // circuito se vuelve a abrir de inmediato
+    if (state.failures >= this.failureThreshold) {
+      state.openUntil = Date.now() + this.cooldownMs;
+      this.logger.warn(
+        `Circuito de ${engine} abierto por ${this.cooldownMs} ms tras ${state.failures} fallos`,
+      );
+    }
+
+    this.circuits.set(engine, state);
+  }
+
+  /**
+   * Backoff exponencial con jitter para no reintentar todos a la vez
+   */
+  private backoffDelay(attempt: number) {
+    const delay = this.baseDelayMs * 2 ** (attempt - 1);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Clasificar el error de los SDKs de OpenAI y Gemini (ambos exponen status)
+   */
+  private classify(error: unknown): Failure {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof LlmTimeoutError) {
+      return { reason: 'TIMEOUT', retryable: true, message };
+    }
+
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+      if (status === 429) {
+        return {
+          reason: 'RATE_LIMITED',
+          retryable: true,
+          retryAfterMs: this.retryAfterMs(error),
+          message,
+        };
+      }
+
+      if (status === 408 || status === 409 || status >= 500) {
+        return {
+          reason: 'UNAVAILABLE',
+          retryable: true,
+          retryAfterMs: this.retryAfterMs(error),
+          message,
+        };
+      }
+
+      return { reason: 'REJECTED', retryable: false, message };
+    }
+
+    const name = error instanceof Error ? error.name : '';
+
+    // Respuesta que no cumple el schema o no es JSON: otro intento suele resolverlo
+    if (
+      name === 'ZodError' ||
+      error instanceof SyntaxError ||
+      message.includes('No se pudo parsear')
+    ) {
+      return { reason: 'INVALID_RESPONSE', retryable: true, message };
+    }
+
+    // Errores de red (APIConnectionError de OpenAI, fetch fallido en Gemini)
+    if (
+      name.includes('Connection') ||
+      /fetch|network|ECONNRESET|ETIMEDOUT|socket/i.test(message)
+    ) {
+      return { reason: 'UNAVAILABLE', retryable: true, message };
+    }
+
+    return { reason: 'REJECTED', retryable: false, message };
+  }
+
+  /**
+   * Espera indicada por el proveedor: header Retry-After (OpenAI) o RetryInfo
+   * en los detalles del error (Gemini)
+   */
+  private retryAfterMs(error: unknown): number | undefined {
+    const headers = (error as { headers?: Headers })?.headers;
+    const retryAfterMs = headers?.get?.('retry-after-ms');
+    if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+      return Number(retryAfterMs);
+    }
+
+    const retryAfter = headers?.get?.('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!Number.isNaN(seconds)) {
+        return seconds * 1000;
+      }
+
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.max(date - Date.now(), 0);
+      }
+    }
+
+    const details = (error as { errorDetails?: { retryDelay?: string }[] })
+      ?.errorDetails;
+    const retryDelay = details?.find((detail) => detail.retryDelay)?.retryDelay;
+    const match = retryDelay?.match(/^([\d.]+)s$/);
+
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+  }
+
+  /**
+   * Proveedor o modelo de respaldo; no hay fallback si coincide con el original
+   */
+  private resolveFallback(llm: ResolvedLlm): ResolvedLlm | null {
+    const providerName = this.configService.get<string>(
+      'LLM_FALLBACK_PROVIDER',
+    );
+    const model = this.configService.get<string>('LLM_FALLBACK_MODEL');
+
+    if (!providerName && !model) {
+      return null;
+    }
+
+    const fallback = this.llmProviders.resolve(
+      providerName || llm.provider.name,
+      model,
+    );
+
+    return this.llmProviders.toEngine(fallback) ===
+      this.llmProviders.toEngine(llm)
+      ? null
+      : fallback;
+  }
+}
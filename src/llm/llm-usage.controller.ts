@@ -0,0 +1,71 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AdminTokenGuard } from '../common/guards/admin-token.guard';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmUsageReportDto } from './dto/llm-usage.dto';
+
+@ApiTags('llm-usage')
+@Controller('llm-usage')
+@UseGuards(AdminTokenGuard)
+export class LlmUsageController {
+  constructor(private readonly llmUsageService: LlmUsageService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Consumo y costo de los proveedores de IA',
+    description:
+      'Totales de llamadas, tokens y costo estimado (USD, según la tabla de precios y LLM_PRICES) agrupados por evaluación, docente o mes. Las llamadas de modelos sin precio se cuentan en unpricedCalls. Requiere el header x-admin-token',
+  })
+  @ApiHeader({ name: 'x-admin-token', required: true })
+  @ApiResponse({
+    status: 200,
+    description: 'Reporte de consumo',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          groupBy: 'evaluation',
+          from: '2025-01-01T00:00:00.000Z',
+          to: null,
+          currency: 'USD',
+          totals: {
+            calls: 42,
+            promptTokens: 512340,
+            completionTokens: 48210,
+            totalTokens: 560550,
+            costUsd: 0.070518,
+            unpricedCalls: 0,
+          },
+          groups: [
+            {
+              key: 'uuid-evaluation',
+              label: 'Examen Final Matemáticas',
+              calls: 42,
+              promptTokens: 512340,
+              completionTokens: 48210,
+              totalTokens: 560550,
+              costUsd: 0.070518,
+              unpricedCalls: 0,
+              avgLatencyMs: 3850,
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Token de administración inválido' })
+  async getReport(@Query() dto: LlmUsageReportDto) {
+    const data = await this.llmUsageService.getReport({
+      groupBy: dto.groupBy ?? 'month',
+      from: dto.from ? new Date(dto.from) : undefined,
+      to: dto.to ? new Date(dto.to) : undefined,
+      evaluationId: dto.evaluationId,
+      ownerId: dto.ownerId,
+    });
+
+    return {
+      success: true,
+      data,
+    };
+  }
+}
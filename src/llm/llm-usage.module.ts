@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmUsageController } from './llm-usage.controller';
+
+// Separado de LlmModule: los proveedores lo usan y LlmModule depende de ellos
+@Module({
+  controllers: [LlmUsageController],
+  providers: [LlmUsageService],
+  exports: [LlmUsageService],
+})
+export class LlmUsageModule {}
@@ -0,0 +1,288 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import type {
+  LlmProviderName,
+  LlmUsageContext,
+} from './llm-provider.interface';
+import {
+  DEFAULT_LLM_PRICES,
+  LlmPrice,
+  estimateLlmCost,
+  findLlmPrice,
+} from './llm-pricing';
+
+export const LLM_USAGE_GROUP_BY = ['evaluation', 'owner', 'month'] as const;
+
+export type LlmUsageGroupBy = (typeof LLM_USAGE_GROUP_BY)[number];
+
+export interface LlmUsageEntry {
+  provider: LlmProviderName;
+  model: string;
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  context?: LlmUsageContext;
+}
+
+export interface LlmUsageReportFilters {
+  groupBy: LlmUsageGroupBy;
+  from?: Date;
+  to?: Date;
+  evaluationId?: string;
+  ownerId?: string;
+}
+
+interface UsageTotalsRow {
+  key: string | null;
+  calls: bigint;
+  promptTokens: bigint;
+  completionTokens: bigint;
+  costUsd: Prisma.Decimal | null;
+  unpricedCalls: bigint;
+  avgLatencyMs: number | null;
+}
+
+// Columna por la que se agrupa cada reporte (valores fijos, no del usuario)
+const GROUP_KEYS: Record<LlmUsageGroupBy, Prisma.Sql> = {
+  evaluation: Prisma.sql`evaluation_id::text`,
+  owner: Prisma.sql`user_id::text`,
+  month: Prisma.sql`to_char(date_trunc('month', created_at), 'YYYY-MM')`,
+};
+
+/**
+ * Registro del consumo de cada llamada a los proveedores de IA (tokens,
+ * latencia y costo estimado) y reportes de costo por evaluación, docente y
+ * mes. Los precios salen de DEFAULT_LLM_PRICES más lo configurado en
+ * LLM_PRICES.
+ */
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+  private readonly prices: Record<string, LlmPrice>;
+  // Para advertir una sola vez por modelo sin precio
+  private readonly unpricedModels = new Set<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.prices = { ...DEFAULT_LLM_PRICES, ...this.loadConfiguredPrices() };
+  }
+
+  /**
+   * Registrar una llamada. No se espera ni falla: un error al guardar el
+   * consumo no debe afectar la respuesta del modelo.
+   */
+  record(entry: LlmUsageEntry): void {
+    const { context = {} } = entry;
+    const costUsd = this.estimateCost(
+      entry.model,
+      entry.promptTokens,
+      entry.completionTokens,
+    );
+
+    this.prisma.llmUsage
+      .create({
+        data: {
+          provider: entry.provider,
+          model: entry.model,
+          operation: context.operation ?? entry.operation,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          latencyMs: Math.round(entry.latencyMs),
+          costUsd,
+          analysisId: context.analysisId ?? null,
+          groupId: context.groupId ?? null,
+          evaluationId: context.evaluationId ?? null,
+          userId: context.userId ?? null,
+        },
+      })
+      .catch((error: Error) =>
+        this.logger.warn(
+          `No se pudo registrar el consumo de ${entry.provider}:${entry.model}: ${error.message}`,
+        ),
+      );
+  }
+
+  /**
+   * Costo estimado en USD, o null si el modelo no tiene precio configurado
+   */
+  estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+  ): number | null {
+    const price = findLlmPrice(this.prices, model);
+
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        this.logger.warn(
+          `El modelo ${model} no tiene precio en LLM_PRICES: su costo no se estima`,
+        );
+      }
+      return null;
+    }
+
+    return estimateLlmCost(price, promptTokens, completionTokens);
+  }
+
+  /**
+   * Totales de consumo agrupados por evaluación, docente o mes
+   */
+  async getReport(filters: LlmUsageReportFilters) {
+    const conditions: Prisma.Sql[] = [];
+    if (filters.from) {
+      conditions.push(Prisma.sql`created_at >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(Prisma.sql`created_at < ${filters.to}`);
+    }
+    if (filters.evaluationId) {
+      conditions.push(
+        Prisma.sql`evaluation_id = ${filters.evaluationId}::uuid`,
+      );
+    }
+    if (filters.ownerId) {
+      conditions.push(Prisma.sql`user_id = ${filters.ownerId}::uuid`);
+    }
+
+    const where = conditions.length
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<UsageTotalsRow[]>`
+      SELECT ${GROUP_KEYS[filters.groupBy]} AS "key",
+             COUNT(*) AS "calls",
+             COALESCE(SUM(prompt_tokens), 0) AS "promptTokens",
+             COALESCE(SUM(completion_tokens), 0) AS "completionTokens",
+             SUM(cost_usd) AS "costUsd",
+             COUNT(*) FILTER (WHERE cost_usd IS NULL) AS "unpricedCalls",
+             AVG(latency_ms)::float8 AS "avgLatencyMs"
+      FROM llm_usages
+      ${where}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    const labels = await this.loadLabels(
+      filters.groupBy,
+      rows.map((row) => row.key),
+    );
+
+    const groups = rows.map((row) => ({
+      key: row.key,
+      label: row.key ? (labels.get(row.key) ?? null) : null,
+      ...this.toTotals(row),
+    }));
+
+    const totals = groups.reduce(
+      (sum, group) => ({
+        calls: sum.calls + group.calls,
+        promptTokens: sum.promptTokens + group.promptTokens,
+        completionTokens: sum.completionTokens + group.completionTokens,
+        totalTokens: sum.totalTokens + group.totalTokens,
+        costUsd: Math.round((sum.costUsd + group.costUsd) * 1e6) / 1e6,
+        unpricedCalls: sum.unpricedCalls + group.unpricedCalls,
+      }),
+      {
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        unpricedCalls: 0,
+      },
+    );
+
+    return {
+      groupBy: filters.groupBy,
+      from: filters.from ?? null,
+      to: filters.to ?? null,
+      currency: 'USD',
+      totals,
+      groups,
+    };
+  }
+
+  private toTotals(row: UsageTotalsRow) {
+    const promptTokens = Number(row.promptTokens);
+    const completionTokens = Number(row.completionTokens);
+
+    return {
+      calls: Number(row.calls),
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: row.costUsd ? row.costUsd.toNumber() : 0,
+      unpricedCalls: Number(row.unpricedCalls),
+      avgLatencyMs: row.avgLatencyMs ? Math.round(row.avgLatencyMs) : null,
+    };
+  }
+
+  /**
+   * Título de cada evaluación o nombre de cada docente del reporte
+   */
+  private async loadLabels(groupBy: LlmUsageGroupBy, keys: (string | null)[]) {
+    const ids = keys.filter((key): key is string => key !== null);
+
+    if (groupBy === 'evaluation' && ids.length > 0) {
+      const evaluations = await this.prisma.evaluation.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, title: true },
+      });
+      return new Map(evaluations.map((item) => [item.id, item.title]));
+    }
+
+    if (groupBy === 'owner' && ids.length > 0) {
+      const users = await this.prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, fullName: true, email: true },
+      });
+      return new Map(
+        users.map((user) => [user.id, user.fullName ?? user.email]),
+      );
+    }
+
+    return new Map<string, string | null>();
+  }
+
+  /**
+   * Precios de LLM_PRICES: JSON con { "modelo": { "input": n, "output": n } }
+   * en USD por millón de tokens
+   */
+  private loadConfiguredPrices(): Record<string, LlmPrice> {
+    const raw = this.configService.get<string>('LLM_PRICES');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Record<string, Partial<LlmPrice>>;
+      const prices: Record<string, LlmPrice> = {};
+
+      for (const [model, price] of Object.entries(parsed)) {
+        if (
+          typeof price?.input !== 'number' ||
+          typeof price?.output !== 'number'
+        ) {
+          this.logger.warn(
+            `Precio inválido para ${model} en LLM_PRICES: se esperan input y output numéricos`,
+          );
+          continue;
+        }
+        prices[model] = { input: price.input, output: price.output };
+      }
+
+      return prices;
+    } catch (error) {
+      this.logger.warn(
+        `LLM_PRICES no es un JSON válido, se usan los precios por defecto: ${(error as Error).message}`,
+      );
+      return {};
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { OpenaiModule } from '../openai/openai.module';
+import { GeminiModule } from '../gemini/gemini.module';
+import { LlmProviderRegistry } from './llm-provider.registry';
+import { TokenCounterService } from './token-counter.service';
+import { LlmResilienceService } from './llm-resilience.service';
+
+@Module({
+  imports: [OpenaiModule, GeminiModule],
+  providers: [LlmProviderRegistry, TokenCounterService, LlmResilienceService],
+  exports: [LlmProviderRegistry, TokenCounterService, LlmResilienceService],
+})
+export class LlmModule {}
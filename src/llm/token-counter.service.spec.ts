@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GeminiService } from '../gemini/gemini.service';
+import type { LlmProvider } from './llm-provider.interface';
+import type { ResolvedLlm } from './llm-provider.registry';
+import { TokenCounterService } from './token-counter.service';
+
+describe('TokenCounterService', () => {
+  let tokenCounter: TokenCounterService;
+  const geminiService = { countTokens: jest.fn() };
+
+  const llm = (name: string, model: string) =>
+    ({ provider: { name } as LlmProvider, model }) as ResolvedLlm;
+
+  beforeEach(async () => {
+    geminiService.countTokens.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenCounterService,
+        { provide: GeminiService, useValue: geminiService },
+      ],
+    }).compile();
+
+    tokenCounter = module.get<TokenCounterService>(TokenCounterService);
+  });
+
+  describe('count', () => {
+    it('should count tokens with the model tokenizer', () => {
+      expect(tokenCounter.count('hola mundo', 'gpt-4o')).toBeGreaterThan(0);
+      expect(tokenCounter.count('', 'gpt-4o')).toBe(0);
+    });
+
+    it('should use the default encoding for unknown models', () => {
+      const text = 'Informe final del proyecto';
+
+      expect(tokenCounter.count(text, 'gemini-2.5-flash')).toBe(
+        tokenCounter.count(text, 'gpt-4o'),
+      );
+      expect(tokenCounter.count(text)).toBe(tokenCounter.count(text, 'gpt-4o'));
+    });
+
+    it('should count special token markers as plain text', () => {
+      const text = 'El modelo termina con <|endoftext|> y <|im_start|>';
+
+      expect(() => tokenCounter.count(text, 'gpt-4o')).not.toThrow();
+      expect(tokenCounter.count(text, 'gpt-4o')).toBeGreaterThan(
+        tokenCounter.count('El modelo termina con', 'gpt-4o'),
+      );
+    });
+  });
+
+  describe('truncate', () => {
+    it('should return short texts unchanged', () => {
+      expect(tokenCounter.truncate('hola mundo', 100, 'gpt-4o')).toBe(
+        'hola mundo',
+      );
+    });
+
+    it('should cut texts to the token limit', () => {
+      const text = 'palabra '.repeat(500);
+      const truncated = tokenCounter.truncate(text, 50, 'gpt-4o');
+
+      expect(tokenCounter.count(truncated, 'gpt-4o')).toBeLessThanOrEqual(50);
+      expect(text.startsWith(truncated)).toBe(true);
+    });
+
+    it('should keep special token markers when truncating', () => {
+      const text = `<|endoftext|> ${'texto '.repeat(200)}`;
+      const truncated = tokenCounter.truncate(text, 20, 'gpt-4o');
+
+      expect(truncated.startsWith('<|endoftext|>')).toBe(true);
+    });
+  });
+
+  describe('countForLlm', () => {
+    it('should use the Gemini API for Gemini models', async () => {
+      geminiService.countTokens.mockResolvedValue(42);
+
+      await expect(
+        tokenCounter.countForLlm('hola', llm('gemini', 'gemini-2.5-flash')),
+      ).resolves.toBe(42);
+      expect(geminiService.countTokens).toHaveBeenCalledWith(
+        'hola',
+        'gemini-2.5-flash',
+      );
+    });
+
+    it('should fall back to the local tokenizer when Gemini fails', async () => {
+      geminiService.countTokens.mockRejectedValue(new Error('sin red'));
+
+      await expect(
+        tokenCounter.countForLlm(
+          'hola mundo',
+          llm('gemini', 'gemini-2.5-flash'),
+        ),
+      ).resolves.toBe(tokenCounter.count('hola mundo', 'gemini-2.5-flash'));
+    });
+
+    it('should count locally for OpenAI models', async () => {
+      await expect(
+        tokenCounter.countForLlm('hola mundo', llm('openai', 'gpt-4o')),
+      ).resolves.toBe(tokenCounter.count('hola mundo', 'gpt-4o'));
+      expect(geminiService.countTokens).not.toHaveBeenCalled();
+    });
+  });
+});
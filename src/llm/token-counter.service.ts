@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Tiktoken,
+  TiktokenEncoding,
+  TiktokenModel,
+  getEncoding,
+  getEncodingNameForModel,
+} from 'js-tiktoken';
+import { GeminiService } from '../gemini/gemini.service';
+import type { ResolvedLlm } from './llm-provider.registry';
+
+// Codificación de los modelos recientes de OpenAI; también se usa para los
+// modelos que js-tiktoken no conoce (Gemini, modelos nuevos)
+const DEFAULT_ENCODING: TiktokenEncoding = 'o200k_base';
+
+/**
+ * Conteo de tokens con el tokenizer real del modelo (tiktoken), en lugar de
+ * suponer una cantidad fija de caracteres por token. Para Gemini, cuyo
+ * tokenizer no está disponible localmente, countForLlm usa la API
+ * countTokens y recurre a tiktoken si falla.
+ */
+@Injectable()
+export class TokenCounterService {
+  private readonly logger = new Logger(TokenCounterService.name);
+  // Las tablas de cada codificación se cargan una sola vez
+  private readonly encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+  constructor(private readonly geminiService: GeminiService) {}
+
+  /**
+   * Tokens de un texto según el tokenizer local del modelo
+   */
+  count(text: string, model?: string | null): number {
+    return this.encode(this.encodingFor(model), text).length;
+  }
+
+  /**
+   * Tokens de un texto para el proveedor que lo recibirá
+   */
+  async countForLlm(text: string, { provider, model }: ResolvedLlm) {
+    if (provider.name === 'gemini') {
+      try {
+        return await this.geminiService.countTokens(text, model);
+      } catch (error) {
+        this.logger.warn(
+          `No se pudieron contar los tokens con Gemini (${model}), se usa el tokenizer local: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return this.count(text, model);
+  }
+
+  /**
+   * Recortar un texto a maxTokens tokens del modelo
+   */
+  truncate(text: string, maxTokens: number, model?: string | null): string {
+    const encoding = this.encodingFor(model);
+    const tokens = this.encode(encoding, text);
+
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+
+    return encoding.decode(tokens.slice(0, Math.max(maxTokens, 0)));
+  }
+
+  /**
+   * Las marcas de tokens especiales (<|endoftext|>, etc.) que aparecen en el
+   * texto se cuentan como texto común, igual que las trata la API: por
+   * defecto js-tiktoken lanza un error al encontrarlas
+   */
+  private encode(encoding: Tiktoken, text: string): number[] {
+    return encoding.encode(text, [], []);
+  }
+
+  private encodingFor(model?: string | null): Tiktoken {
+    const name = this.encodingNameFor(model);
+    let encoding = this.encodings.get(name);
+
+    if (!encoding) {
+      encoding = getEncoding(name);
+      this.encodings.set(name, encoding);
+    }
+
+    return encoding;
+  }
+
+  private encodingNameFor(model?: string | null): TiktokenEncoding {
+    if (!model) {
+      return DEFAULT_ENCODING;
+    }
+
+    try {
+      return getEncodingNameForModel(model as TiktokenModel);
+    } catch {
+      return DEFAULT_ENCODING;
+    }
+  }
+}
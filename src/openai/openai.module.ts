@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { OpenaiService } from './openai.service';
 import { OpenaiController } from './openai.controller';
+import { LlmUsageModule } from '../llm/llm-usage.module';
 
 @Module({
+  imports: [LlmUsageModule],
   controllers: [OpenaiController],
   providers: [OpenaiService],
   exports: [OpenaiService],
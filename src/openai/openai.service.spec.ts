@@ -0,0 +1,107 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LlmUsageService } from '../llm/llm-usage.service';
+import { OpenaiService } from './openai.service';
+
+describe('OpenaiService', () => {
+  let service: OpenaiService;
+
+  const client = {
+    chat: { completions: { create: jest.fn() } },
+    images: { generate: jest.fn() },
+  };
+  const llmUsage = { record: jest.fn() };
+
+  const chunk = (content: string) => ({ choices: [{ delta: { content } }] });
+
+  // Stream como el del SDK: el último fragmento trae el consumo
+  function* completionStream() {
+    yield chunk('Había ');
+    yield chunk('una vez');
+    yield {
+      choices: [],
+      usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 },
+    };
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    client.chat.completions.create.mockImplementation(() =>
+      Promise.resolve(completionStream()),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OpenaiService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: LlmUsageService, useValue: llmUsage },
+      ],
+    }).compile();
+
+    service = module.get<OpenaiService>(OpenaiService);
+    (service as unknown as { client: typeof client }).client = client;
+  });
+
+  describe('streamText', () => {
+    it('should record the usage of the last chunk', async () => {
+      const stream = await service.streamText('Escribe un cuento');
+
+      let text = '';
+      for await (const part of stream) {
+        text += part.choices[0]?.delta?.content ?? '';
+      }
+
+      expect(text).toBe('Había una vez');
+      expect(client.chat.completions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      );
+      expect(llmUsage.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'gpt-4o-mini',
+          operation: 'stream',
+          promptTokens: 12,
+          completionTokens: 30,
+        }),
+      );
+    });
+
+    it('should record the call when the reader stops early', async () => {
+      const stream = await service.streamText('Escribe un cuento');
+
+      for await (const part of stream) {
+        if (part.choices[0]?.delta?.content) {
+          break;
+        }
+      }
+
+      expect(llmUsage.record).toHaveBeenCalledTimes(1);
+      expect(llmUsage.record).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'stream', promptTokens: 0 }),
+      );
+    });
+  });
+
+  describe('generateImage', () => {
+    it('should record the call', async () => {
+      client.images.generate.mockResolvedValue({
+        data: [{ url: 'https://example.com/imagen.png' }],
+      });
+
+      const url = await service.generateImage('Un robot programando');
+
+      expect(url).toBe('https://example.com/imagen.png');
+      expect(llmUsage.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'openai',
+          model: 'dall-e-3',
+          operation: 'generate_image',
+        }),
+      );
+    });
+  });
+});
@@ -1,15 +1,44 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+import {
+  LlmCallOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmStructuredOptions,
+  LlmUsageContext,
+} from '../llm/llm-provider.interface';
+import { LlmUsageService } from '../llm/llm-usage.service';
 
 @Injectable()
-export class OpenaiService {
+export class OpenaiService implements LlmProvider {
   private readonly logger = new Logger(OpenaiService.name);
-  private openai: OpenAI;
+  private client?: OpenAI;
 
-  constructor(private configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    this.openai = new OpenAI({ apiKey });
+  readonly name = 'openai' as const;
+  readonly defaultModel = 'gpt-4.1-nano'; // Modelo que soporta structured outputs
+
+  constructor(
+    private configService: ConfigService,
+    private readonly llmUsage: LlmUsageService,
+  ) {}
+
+  /**
+   * Cliente creado al primer uso, para que la app arranque sin API key
+   * (por ejemplo con el motor SIMULATED)
+   */
+  private get openai(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY no está configurada');
+      }
+      this.client = new OpenAI({ apiKey });
+    }
+
+    return this.client;
   }
 
   /**
@@ -24,6 +53,7 @@ export class OpenaiService {
     try {
       this.logger.log(`Generando texto con modelo: ${model}`);
       
+      const startedAt = Date.now();
       const completion = await this.openai.chat.completions.create({
         model,
         messages: [
@@ -33,6 +63,7 @@ export class OpenaiService {
           },
         ],
       });
+      this.recordUsage(model, 'generate_text', completion.usage, startedAt);
 
       return completion.choices[0].message.content || '';
     } catch (error) {
@@ -48,10 +79,12 @@ export class OpenaiService {
     try {
       this.logger.log('Iniciando chat con OpenAI');
       
+      const startedAt = Date.now();
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
         messages: messages as any,
       });
+      this.recordUsage('gpt-4o-mini', 'chat', completion.usage, startedAt);
 
       return completion.choices[0].message;
     } catch (error) {
@@ -61,19 +94,22 @@ export class OpenaiService {
   }
 
   /**
-   * Stream de respuestas
+   * Stream de respuestas. El último fragmento trae el consumo de la
+   * respuesta y no tiene choices; se registra al terminar de leer el stream.
    */
   async streamText(prompt: string) {
     try {
       this.logger.log('Iniciando stream con OpenAI');
       
+      const startedAt = Date.now();
       const stream = await this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: prompt }],
         stream: true,
+        stream_options: { include_usage: true },
       });
 
-      return stream;
+      return this.trackStreamUsage(stream, 'gpt-4o-mini', startedAt);
     } catch (error) {
       this.logger.error('Error en stream con OpenAI:', error);
       throw error;
@@ -90,12 +126,15 @@ export class OpenaiService {
     try {
       this.logger.log('Generando imagen con DALL-E');
       
+      const startedAt = Date.now();
       const response = await this.openai.images.generate({
         model: 'dall-e-3',
         prompt,
         n: 1,
         size,
       });
+      // DALL-E cobra por imagen, no por tokens: queda registrada sin costo
+      this.recordUsage('dall-e-3', 'generate_image', undefined, startedAt);
 
       return response.data?.[0]?.url || '';
     } catch (error) {
@@ -103,4 +142,161 @@ export class OpenaiService {
       throw error;
     }
   }
+
+  // ============================================
+  // LlmProvider
+  // ============================================
+
+  async complete(prompt: string, options: LlmCallOptions = {}) {
+    return this.completeChat([{ role: 'user', content: prompt }], options);
+  }
+
+  async completeChat(messages: LlmMessage[], options: LlmCallOptions = {}) {
+    const model = options.model || this.defaultModel;
+
+    try {
+      this.logger.log(`Completando chat con modelo: ${model}`);
+
+      const startedAt = Date.now();
+      const completion = await this.openai.chat.completions.create(
+        {
+          model,
+          messages,
+          temperature: options.temperature,
+        },
+        this.requestOptions(options),
+      );
+      this.recordUsage(
+        model,
+        'complete_chat',
+        completion.usage,
+        startedAt,
+        options.usage,
+      );
+
+      return completion.choices[0].message.content || '';
+    } catch (error) {
+      this.logger.error('Error al completar chat con OpenAI:', error);
+      throw error;
+    }
+  }
+
+  async completeStructured<T extends z.ZodType>(
+    messages: LlmMessage[],
+    options: LlmStructuredOptions<T>,
+  ): Promise<z.infer<T>> {
+    const model = options.model || this.defaultModel;
+
+    try {
+      this.logger.log(`Generando respuesta estructurada con modelo: ${model}`);
+
+      const startedAt = Date.now();
+      const completion = await this.openai.chat.completions.parse(
+        {
+          model,
+          messages,
+          response_format: zodResponseFormat(
+            options.schema,
+            options.schemaName,
+          ),
+          temperature: options.temperature,
+        },
+        this.requestOptions(options),
+      );
+      this.recordUsage(
+        model,
+        options.schemaName,
+        completion.usage,
+        startedAt,
+        options.usage,
+      );
+
+      const parsed = completion.choices[0].message.parsed;
+
+      if (!parsed) {
+        throw new Error('No se pudo parsear la respuesta de OpenAI');
+      }
+
+      return parsed as z.infer<T>;
+    } catch (error) {
+      this.logger.error('Error al generar respuesta estructurada:', error);
+      throw error;
+    }
+  }
+
+  async *streamCompletion(prompt: string, options: LlmCallOptions = {}) {
+    const model = options.model || this.defaultModel;
+    const startedAt = Date.now();
+    const stream = await this.openai.chat.completions.create(
+      {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        stream: true,
+        // El último fragmento trae el consumo de toda la respuesta
+        stream_options: { include_usage: true },
+      },
+      this.requestOptions(options),
+    );
+
+    let usage: OpenAI.CompletionUsage | null | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usage ?? usage;
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+
+    this.recordUsage(model, 'stream', usage, startedAt, options.usage);
+  }
+
+  /**
+   * Pasar los fragmentos del stream y registrar el consumo al terminar,
+   * también si quien lo lee lo corta antes
+   */
+  private async *trackStreamUsage(
+    stream: AsyncIterable<OpenAI.ChatCompletionChunk>,
+    model: string,
+    startedAt: number,
+  ) {
+    let usage: OpenAI.CompletionUsage | null | undefined;
+    try {
+      for await (const chunk of stream) {
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+    } finally {
+      this.recordUsage(model, 'stream', usage, startedAt);
+    }
+  }
+
+  /**
+   * Con señal la llamada viene de LlmResilienceService, que hace sus propios
+   * reintentos: se desactivan los del SDK para no multiplicarlos
+   */
+  private requestOptions(options: LlmCallOptions) {
+    return options.signal ? { signal: options.signal, maxRetries: 0 } : {};
+  }
+
+  /**
+   * Registrar tokens, latencia y costo de una llamada
+   */
+  private recordUsage(
+    model: string,
+    operation: string,
+    usage: OpenAI.CompletionUsage | null | undefined,
+    startedAt: number,
+    context?: LlmUsageContext,
+  ) {
+    this.llmUsage.record({
+      provider: this.name,
+      model,
+      operation,
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      context,
+    });
+  }
 }
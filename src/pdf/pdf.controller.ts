@@ -50,7 +50,7 @@ export class PdfController {
     try {
       const data = await this.pdfService.extractTextWithMetadata(file.path);
       const cleanText = this.pdfService.cleanText(data.text);
-      const estimatedTokens = this.pdfService.estimateTokens(cleanText);
+      const estimatedTokens = this.pdfService.countTokens(cleanText);
 
       // Eliminar archivo después de procesar
       await this.pdfService.deleteFile(file.path);
@@ -110,7 +110,11 @@ export class PdfController {
       // Extraer y limpiar texto
       const text = await this.pdfService.extractText(file.path);
       const cleanText = this.pdfService.cleanText(text);
-      const truncatedText = this.pdfService.truncateText(cleanText, 100000);
+      const truncatedText = this.pdfService.truncateText(
+        cleanText,
+        100000,
+        model,
+      );
 
       // Crear prompt completo
       const fullPrompt = `
@@ -135,7 +139,7 @@ ${prompt}
           filename: file.originalname,
           prompt,
           response,
-          estimatedTokens: this.pdfService.estimateTokens(fullPrompt),
+          estimatedTokens: this.pdfService.countTokens(fullPrompt, model),
         },
       };
     } catch (error) {
@@ -182,7 +186,11 @@ ${prompt}
       // Extraer y limpiar texto
       const text = await this.pdfService.extractText(file.path);
       const cleanText = this.pdfService.cleanText(text);
-      const truncatedText = this.pdfService.truncateText(cleanText, 100000);
+      const truncatedText = this.pdfService.truncateText(
+        cleanText,
+        100000,
+        model,
+      );
 
       // Crear prompt completo
       const fullPrompt = `
@@ -207,7 +215,7 @@ ${prompt}
           filename: file.originalname,
           prompt,
           response,
-          estimatedTokens: this.pdfService.estimateTokens(fullPrompt),
+          estimatedTokens: this.pdfService.countTokens(fullPrompt, model),
         },
       };
     } catch (error) {
@@ -260,7 +268,7 @@ ${prompt}
       const cleanText = this.pdfService.cleanText(text);
 
       // Dividir en chunks
-      const chunks = this.pdfService.splitTextIntoChunks(cleanText, 10000);
+      const chunks = this.pdfService.splitTextIntoChunks(cleanText, 2500);
 
       // Procesar cada chunk
       const chunkResponses: Array<{
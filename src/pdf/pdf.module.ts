@@ -3,9 +3,10 @@ import { PdfService } from './pdf.service';
 import { PdfController } from './pdf.controller';
 import { OpenaiModule } from '../openai/openai.module';
 import { GeminiModule } from '../gemini/gemini.module';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
-  imports: [OpenaiModule, GeminiModule],
+  imports: [OpenaiModule, GeminiModule, LlmModule],
   controllers: [PdfController],
   providers: [PdfService],
   exports: [PdfService],
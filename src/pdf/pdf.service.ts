@@ -1,12 +1,15 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import * as fs from 'fs/promises';
 import { PDFParse } from 'pdf-parse';
+import { TokenCounterService } from '../llm/token-counter.service';
 
 @Injectable()
 export class PdfService {
   private readonly logger = new Logger(PdfService.name);
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+  constructor(private readonly tokenCounter: TokenCounterService) {}
+
   /**
    * Extrae texto de un archivo PDF
    * @param filePath - Ruta al archivo PDF
@@ -114,60 +117,165 @@ export class PdfService {
   }
 
   /**
-   * Trunca el texto si excede un límite de tokens aproximado
+   * Texto limpio con la marca [Página N] antes de cada página, para que el
+   * modelo pueda citar la página de cada evidencia
+   * @param pages - Texto de cada página (la primera es la página 1)
+   */
+  tagPages(pages: string[]): string {
+    return pages
+      .map((page, index) => ({ number: index + 1, text: this.cleanText(page) }))
+      .filter((page) => page.text)
+      .map((page) => `[Página ${page.number}]\n${page.text}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Trunca el texto si excede un límite de tokens
    * @param text - Texto a truncar
-   * @param maxTokens - Número máximo de tokens (aproximado: 1 token ≈ 4 caracteres)
+   * @param maxTokens - Número máximo de tokens
+   * @param model - Modelo cuyo tokenizer se usa para contar
    */
-  truncateText(text: string, maxTokens: number = 100000): string {
-    const maxChars = maxTokens * 4;
-    
-    if (text.length <= maxChars) {
+  truncateText(
+    text: string,
+    maxTokens: number = 100000,
+    model?: string,
+  ): string {
+    const tokens = this.tokenCounter.count(text, model);
+
+    if (tokens <= maxTokens) {
       return text;
     }
 
-    this.logger.warn(
-      `Texto truncado de ${text.length} a ${maxChars} caracteres (aprox ${maxTokens} tokens)`
+    this.logger.warn(`Texto truncado de ${tokens} a ${maxTokens} tokens`);
+
+    return (
+      this.tokenCounter.truncate(text, maxTokens, model) +
+      '\n\n[... texto truncado ...]'
     );
+  }
 
-    return text.substring(0, maxChars) + '\n\n[... texto truncado ...]';
+  /**
+   * Divide el texto en chunks de hasta maxTokens tokens, cortando entre
+   * oraciones. Útil para PDFs muy grandes
+   */
+  splitTextIntoChunks(
+    text: string,
+    maxTokens: number = 2500,
+    model?: string,
+  ): string[] {
+    const chunks = this.splitToTokenLimit(text, maxTokens, model);
+
+    this.logger.log(`Texto dividido en ${chunks.length} chunks`);
+
+    return chunks;
   }
 
   /**
-   * Divide el texto en chunks para procesamiento por partes
-   * Útil para PDFs muy grandes
+   * Divide un documento paginado en partes de hasta maxTokens tokens, sin
+   * perder la marca [Página N] de cada página. Las páginas se agrupan enteras
+   * y solo se cortan (por oraciones) las que no caben solas en una parte.
+   * @param pages - Texto de cada página (la primera es la página 1)
+   * @param model - Modelo que recibirá las partes, para contar con su tokenizer
    */
-  splitTextIntoChunks(text: string, chunkSize: number = 10000): string[] {
+  splitPagesIntoChunks(
+    pages: string[],
+    maxTokens: number,
+    model?: string,
+  ): string[] {
     const chunks: string[] = [];
-    let currentIndex = 0;
+    let current: string[] = [];
+    let currentTokens = 0;
 
-    while (currentIndex < text.length) {
-      let endIndex = currentIndex + chunkSize;
+    pages.forEach((page, index) => {
+      const text = this.cleanText(page);
+      if (!text) {
+        return;
+      }
 
-      // Si no es el último chunk, buscar el último punto o salto de línea
-      if (endIndex < text.length) {
-        const lastPeriod = text.lastIndexOf('.', endIndex);
-        const lastNewline = text.lastIndexOf('\n', endIndex);
-        const breakPoint = Math.max(lastPeriod, lastNewline);
+      const header = `[Página ${index + 1}]`;
+      const headerTokens = this.tokenCounter.count(header, model) + 1;
 
-        if (breakPoint > currentIndex) {
-          endIndex = breakPoint + 1;
+      const parts = this.splitToTokenLimit(
+        text,
+        maxTokens - headerTokens,
+        model,
+      );
+
+      for (const part of parts) {
+        const tokens = headerTokens + this.tokenCounter.count(part, model);
+
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+          chunks.push(current.join('\n\n'));
+          current = [];
+          currentTokens = 0;
         }
+
+        current.push(`${header}\n${part}`);
+        currentTokens += tokens;
       }
+    });
 
-      chunks.push(text.substring(currentIndex, endIndex).trim());
-      currentIndex = endIndex;
+    if (current.length > 0) {
+      chunks.push(current.join('\n\n'));
     }
 
-    this.logger.log(`Texto dividido en ${chunks.length} chunks`);
+    this.logger.log(
+      `Documento de ${pages.length} páginas dividido en ${chunks.length} partes`,
+    );
 
     return chunks;
   }
 
   /**
-   * Cuenta tokens aproximados (1 token ≈ 4 caracteres en español)
+   * Corta un texto en partes de hasta maxTokens, por oraciones y, si una
+   * oración sola no cabe, por palabras
+   */
+  private splitToTokenLimit(
+    text: string,
+    maxTokens: number,
+    model?: string,
+  ): string[] {
+    const countTokens = (value: string) =>
+      this.tokenCounter.count(value, model);
+
+    if (countTokens(text) <= maxTokens) {
+      return [text];
+    }
+
+    const sentences = text.split(/(?<=[.!?])\s+/);
+    const units = sentences.flatMap((sentence) =>
+      countTokens(sentence) <= maxTokens ? [sentence] : sentence.split(' '),
+    );
+
+    const parts: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const unit of units) {
+      const tokens = countTokens(unit) + 1;
+
+      if (current.length > 0 && currentTokens + tokens > maxTokens) {
+        parts.push(current.join(' '));
+        current = [];
+        currentTokens = 0;
+      }
+
+      current.push(unit);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      parts.push(current.join(' '));
+    }
+
+    return parts;
+  }
+
+  /**
+   * Cuenta los tokens del texto con el tokenizer del modelo
    */
-  estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+  countTokens(text: string, model?: string): number {
+    return this.tokenCounter.count(text, model);
   }
 
   /**
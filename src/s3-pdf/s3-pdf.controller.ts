@@ -64,7 +64,7 @@ export class S3PdfController {
         dto.s3Url,
       );
       const cleanText = this.pdfService.cleanText(data.text);
-      const estimatedTokens = this.pdfService.estimateTokens(cleanText);
+      const estimatedTokens = this.pdfService.countTokens(cleanText);
 
       return {
         success: true,
@@ -172,7 +172,11 @@ export class S3PdfController {
     try {
       const text = await this.s3PdfService.extractTextFromS3Url(dto.s3Url);
       const cleanText = this.pdfService.cleanText(text);
-      const truncatedText = this.pdfService.truncateText(cleanText, 100000);
+      const truncatedText = this.pdfService.truncateText(
+        cleanText,
+        100000,
+        dto.model,
+      );
 
       const fullPrompt = `
 Documento PDF desde S3: "${dto.s3Url}"
@@ -195,7 +199,7 @@ ${dto.prompt}
           s3Url: dto.s3Url,
           prompt: dto.prompt,
           response,
-          estimatedTokens: this.pdfService.estimateTokens(fullPrompt),
+          estimatedTokens: this.pdfService.countTokens(fullPrompt, dto.model),
         },
       };
     } catch (error) {
@@ -237,7 +241,11 @@ ${dto.prompt}
     try {
       const text = await this.s3PdfService.extractTextFromS3Url(dto.s3Url);
       const cleanText = this.pdfService.cleanText(text);
-      const truncatedText = this.pdfService.truncateText(cleanText, 100000);
+      const truncatedText = this.pdfService.truncateText(
+        cleanText,
+        100000,
+        dto.model,
+      );
 
       const fullPrompt = `
 Documento PDF desde S3: "${dto.s3Url}"
@@ -260,7 +268,7 @@ ${dto.prompt}
           s3Url: dto.s3Url,
           prompt: dto.prompt,
           response,
-          estimatedTokens: this.pdfService.estimateTokens(fullPrompt),
+          estimatedTokens: this.pdfService.countTokens(fullPrompt, dto.model),
         },
       };
     } catch (error) {
@@ -311,7 +319,7 @@ ${dto.prompt}
     try {
       const text = await this.s3PdfService.extractTextFromS3Url(dto.s3Url);
       const cleanText = this.pdfService.cleanText(text);
-      const chunks = this.pdfService.splitTextIntoChunks(cleanText, 10000);
+      const chunks = this.pdfService.splitTextIntoChunks(cleanText, 2500);
 
       const chunkResponses: Array<{
         chunkIndex: number;
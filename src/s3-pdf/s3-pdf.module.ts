@@ -5,9 +5,10 @@ import { S3PdfController } from './s3-pdf.controller';
 import { PdfModule } from '../pdf/pdf.module';
 import { OpenaiModule } from '../openai/openai.module';
 import { GeminiModule } from '../gemini/gemini.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [PdfModule, OpenaiModule, GeminiModule],
+  imports: [PdfModule, OpenaiModule, GeminiModule, StorageModule],
   controllers: [S3PdfController],
   providers: [S3PdfService],
   exports: [S3PdfService],
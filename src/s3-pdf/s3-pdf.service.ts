@@ -1,25 +1,15 @@
 // s3-pdf.service.ts
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { PDFParse } from 'pdf-parse';
-import { Readable } from 'stream';
+import { StorageService } from '../storage/storage.service';
 
 @Injectable()
 export class S3PdfService {
   private readonly logger = new Logger(S3PdfService.name);
-  private readonly s3Client: S3Client;
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-  constructor() {
-    // Inicializar cliente S3
-    this.s3Client = new S3Client({
-      region: process.env.AWS_REGION || 'us-east-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      },
-    });
-  }
+  // El almacenamiento (S3/MinIO o disco local) se elige con STORAGE_DRIVER
+  constructor(private readonly storageService: StorageService) {}
 
   // ============================================
   // MÉTODOS DE DESCARGA Y EXTRACCIÓN
@@ -96,50 +86,45 @@ export class S3PdfService {
   }
 
   /**
-   * Descarga un archivo desde S3 y lo retorna como Buffer
+   * Descarga un archivo de cualquier tipo desde S3 (entregas en DOCX, texto, imágenes...)
+   * Sin el límite de 10MB: las entregas ya se validaron al subirse, también
+   * las subidas directas con URL firmada, que pueden ser más grandes
+   * @param s3Url - URL completa de S3 (s3://bucket/key o https://bucket.s3.region.amazonaws.com/key)
    */
-  private async downloadFromS3(bucket: string, key: string): Promise<Buffer> {
-    try {
-      this.logger.log(`Descargando de S3: bucket=${bucket}, key=${key}`);
-
-      const command = new GetObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      });
-
-      const response = await this.s3Client.send(command);
+  async downloadFileFromS3Url(s3Url: string): Promise<Buffer> {
+    const { bucket, key } = this.parseS3Url(s3Url);
+    return this.downloadFromS3(bucket, key, false, Infinity);
+  }
 
-      if (!response.Body) {
-        throw new BadRequestException('El archivo en S3 está vacío');
-      }
+  /**
+   * Descarga un archivo desde S3 y lo retorna como Buffer
+   */
+  private async downloadFromS3(
+    bucket: string,
+    key: string,
+    requirePdf = true,
+    maxFileSize = this.MAX_FILE_SIZE,
+  ): Promise<Buffer> {
+    this.logger.log(`Descargando de S3: bucket=${bucket}, key=${key}`);
 
-      // Convertir stream a buffer
-      const buffer = await this.streamToBuffer(response.Body as Readable);
+    // El driver traduce NoSuchKey/NoSuchBucket a BadRequestException
+    const buffer = await this.storageService.driver.get(key);
 
-      // Validar tamaño
-      if (buffer.length > this.MAX_FILE_SIZE) {
-        throw new BadRequestException(
-          `El archivo es demasiado grande. Máximo: ${this.MAX_FILE_SIZE / 1024 / 1024}MB`,
-        );
-      }
+    // Validar tamaño
+    if (buffer.length > maxFileSize) {
+      throw new BadRequestException(
+        `El archivo es demasiado grande. Máximo: ${maxFileSize / 1024 / 1024}MB`,
+      );
+    }
 
-      // Validar que sea un PDF (magic bytes)
-      if (!this.isPDF(buffer)) {
-        throw new BadRequestException('El archivo no es un PDF válido');
-      }
+    // Validar que sea un PDF (magic bytes)
+    if (requirePdf && !this.isPDF(buffer)) {
+      throw new BadRequestException('El archivo no es un PDF válido');
+    }
 
-      this.logger.log(`Archivo descargado: ${buffer.length} bytes`);
+    this.logger.log(`Archivo descargado: ${buffer.length} bytes`);
 
-      return buffer;
-    } catch (error) {
-      if (error.name === 'NoSuchKey') {
-        throw new BadRequestException('El archivo no existe en S3');
-      }
-      if (error.name === 'NoSuchBucket') {
-        throw new BadRequestException('El bucket no existe');
-      }
-      throw error;
-    }
+    return buffer;
   }
 
   // ============================================
@@ -147,11 +132,11 @@ export class S3PdfService {
   // ============================================
 
   /**
-   * Sube un archivo (Buffer) a S3
+   * Sube un archivo (Buffer) al almacenamiento configurado
    * @param buffer - Contenido del archivo
    * @param key - Ruta/key del archivo en S3 (ej: "evaluations/abc/rubrics/file.pdf")
    * @param contentType - MIME type del archivo
-   * @returns URL de S3 del archivo subido (formato: s3://bucket/key)
+   * @returns URL privada del archivo subido (HTTPS de S3 o del endpoint configurado, o local://key)
    */
   async uploadToS3(
     buffer: Buffer,
@@ -159,37 +144,20 @@ export class S3PdfService {
     contentType: string = 'application/pdf',
   ): Promise<string> {
     try {
-      const bucket = process.env.AWS_S3_BUCKET_NAME;
-      
-      if (!bucket) {
-        throw new BadRequestException('AWS_S3_BUCKET_NAME no está configurado en .env');
-      }
-
-      this.logger.log(`Subiendo archivo a S3: bucket=${bucket}, key=${key}, size=${buffer.length} bytes`);
-
-      const command = new PutObjectCommand({
-        Bucket: bucket,
-        Key: key,
-        Body: buffer,
-        ContentType: contentType,
-        // Configuración de acceso (ajustar según necesidad)
-        ACL: 'public-read', // Para archivos públicos
-        // ACL: 'private', // Para archivos privados (default)
-        
-        // Metadata opcional
-        Metadata: {
+      this.logger.log(
+        `Subiendo archivo (${this.storageService.driverName}): key=${key}, size=${buffer.length} bytes`,
+      );
+
+      const url = await this.storageService.upload(key, buffer, {
+        contentType,
+        metadata: {
           uploadedAt: new Date().toISOString(),
         },
       });
 
-      await this.s3Client.send(command);
-
-      // Construir la URL de S3
-      const s3Url = `s3://${bucket}/${key}`;
+      this.logger.log(`✅ Archivo subido exitosamente: ${url}`);
 
-      this.logger.log(`✅ Archivo subido exitosamente: ${s3Url}`);
-
-      return s3Url;
+      return url;
     } catch (error) {
       this.logger.error('❌ Error al subir archivo a S3:', error);
       throw new BadRequestException('Error al subir archivo a S3: ' + error.message);
@@ -197,26 +165,15 @@ export class S3PdfService {
   }
 
   /**
-   * Sube un archivo y retorna la URL HTTPS (en lugar de s3://)
-   * Útil si necesitas URLs públicas accesibles directamente
+   * Sube un archivo y retorna su URL HTTPS (local://key con STORAGE_DRIVER=local).
+   * El archivo es privado: para descargarlo se genera una URL firmada
    */
   async uploadToS3WithHttpsUrl(
     buffer: Buffer,
     key: string,
     contentType: string = 'application/pdf',
   ): Promise<string> {
-    // Primero subir el archivo
-    await this.uploadToS3(buffer, key, contentType);
-    
-    const bucket = process.env.AWS_S3_BUCKET_NAME;
-    const region = process.env.AWS_REGION || 'us-east-1';
-    
-    // Construir URL HTTPS
-    const httpsUrl = `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
-    
-    this.logger.log(`URL HTTPS generada: ${httpsUrl}`);
-    
-    return httpsUrl;
+    return this.uploadToS3(buffer, key, contentType);
   }
 
   // ============================================
@@ -233,12 +190,7 @@ export class S3PdfService {
 
       this.logger.log(`Eliminando archivo de S3: bucket=${bucket}, key=${key}`);
 
-      const command = new DeleteObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      });
-
-      await this.s3Client.send(command);
+      await this.storageService.driver.delete(key);
 
       this.logger.log(`✅ Archivo eliminado exitosamente: ${s3Url}`);
     } catch (error) {
@@ -257,55 +209,13 @@ export class S3PdfService {
    * - s3://bucket/path/to/file.pdf
    * - https://bucket.s3.region.amazonaws.com/path/to/file.pdf
    * - https://s3.region.amazonaws.com/bucket/path/to/file.pdf
+   * - URLs del endpoint configurado en AWS_S3_ENDPOINT (MinIO)
+   * - local://path/to/file.pdf con STORAGE_DRIVER=local
    */
   private parseS3Url(s3Url: string): { bucket: string; key: string } {
-    try {
-      // Formato: s3://bucket/key
-      if (s3Url.startsWith('s3://')) {
-        const urlWithoutProtocol = s3Url.replace('s3://', '');
-        const [bucket, ...keyParts] = urlWithoutProtocol.split('/');
-        return {
-          bucket,
-          key: keyParts.join('/'),
-        };
-      }
-
-      // Formato: https://bucket.s3.region.amazonaws.com/key
-      if (s3Url.includes('.s3.') && s3Url.includes('.amazonaws.com')) {
-        const url = new URL(s3Url);
-        const bucket = url.hostname.split('.s3.')[0];
-        const key = url.pathname.substring(1); // Remover el "/" inicial
-        return { bucket, key };
-      }
-
-      // Formato: https://s3.region.amazonaws.com/bucket/key
-      if (s3Url.includes('s3.') && s3Url.includes('.amazonaws.com')) {
-        const url = new URL(s3Url);
-        const pathParts = url.pathname.substring(1).split('/');
-        const bucket = pathParts[0];
-        const key = pathParts.slice(1).join('/');
-        return { bucket, key };
-      }
-
-      throw new BadRequestException(
-        'Formato de URL de S3 inválido. Usa: s3://bucket/key o URLs HTTPS de S3',
-      );
-    } catch (error) {
-      this.logger.error('Error al parsear URL de S3:', error);
-      throw new BadRequestException('URL de S3 inválida');
-    }
-  }
+    const { bucket, key } = this.storageService.parseUrl(s3Url);
 
-  /**
-   * Convierte un stream de Node.js a Buffer
-   */
-  private async streamToBuffer(stream: Readable): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      stream.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
-      stream.on('error', reject);
-      stream.on('end', () => resolve(Buffer.concat(chunks)));
-    });
+    return { bucket: bucket ?? this.storageService.driverName, key };
   }
 
   /**
@@ -339,33 +249,15 @@ export class S3PdfService {
     size?: number;
     contentType?: string;
   }> {
-    try {
-      const { bucket, key } = this.parseS3Url(s3Url);
-
-      const command = new GetObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      });
-
-      const response = await this.s3Client.send(command);
-
-      return {
-        bucket,
-        key,
-        exists: true,
-        size: response.ContentLength,
-        contentType: response.ContentType,
-      };
-    } catch (error) {
-      if (error.name === 'NoSuchKey' || error.name === 'NoSuchBucket') {
-        const { bucket, key } = this.parseS3Url(s3Url);
-        return {
-          bucket,
-          key,
-          exists: false,
-        };
-      }
-      throw error;
-    }
+    const { bucket, key } = this.parseS3Url(s3Url);
+    const info = await this.storageService.driver.head(key);
+
+    return {
+      bucket,
+      key,
+      exists: info !== null,
+      size: info?.size,
+      contentType: info?.contentType,
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+
+describe('LocalStorageDriver', () => {
+  let driver: LocalStorageDriver;
+  let rootDir: string;
+
+  const config: Record<string, string> = {
+    STORAGE_LOCAL_SIGNING_SECRET: 'secreto-de-prueba',
+    STORAGE_PUBLIC_BASE_URL: 'https://api.example.com/',
+  };
+
+  // Parámetros de una URL firmada
+  const paramsOf = (url: string) => {
+    const { origin, pathname, searchParams } = new URL(url);
+    return {
+      base: `${origin}${pathname}`,
+      key: searchParams.get('key')!,
+      expires: Number(searchParams.get('expires')),
+      signature: searchParams.get('signature')!,
+      maxSize: searchParams.has('maxSize')
+        ? Number(searchParams.get('maxSize'))
+        : undefined,
+    };
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'storage-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocalStorageDriver,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              key === 'STORAGE_LOCAL_DIR'
+                ? rootDir
+                : (config[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    driver = module.get<LocalStorageDriver>(LocalStorageDriver);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('files', () => {
+    it('should store, list and delete files under the root directory', async () => {
+      const url = await driver.put(
+        'evaluations/e1/informe.pdf',
+        Buffer.from('informe'),
+      );
+
+      expect(url).toBe('local://evaluations/e1/informe.pdf');
+      expect(driver.parseUrl(url)).toEqual({
+        key: 'evaluations/e1/informe.pdf',
+      });
+      expect((await driver.get('evaluations/e1/informe.pdf')).toString()).toBe(
+        'informe',
+      );
+      expect(await driver.list('evaluations/')).toEqual([
+        expect.objectContaining({
+          key: 'evaluations/e1/informe.pdf',
+          size: 7,
+          contentType: 'application/pdf',
+        }),
+      ]);
+
+      await driver.delete('evaluations/e1/informe.pdf');
+
+      expect(await driver.head('evaluations/e1/informe.pdf')).toBeNull();
+    });
+
+    it('should reject keys outside the root directory', async () => {
+      for (const key of [
+        '../secreto.txt',
+        'a/../../secreto.txt',
+        '/etc/passwd',
+        '',
+      ]) {
+        await expect(driver.get(key)).rejects.toThrow(BadRequestException);
+        await expect(driver.put(key, Buffer.from('x'))).rejects.toThrow(
+          BadRequestException,
+        );
+      }
+      expect(() => driver.parseUrl('local://../secreto.txt')).toThrow(
+        BadRequestException,
+      );
+      await expect(async () =>
+        driver.getSignedUrl('../secreto.txt', 60),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should fail for missing files', async () => {
+      await expect(driver.get('no-existe.pdf')).rejects.toThrow(
+        'El archivo no existe en el almacenamiento',
+      );
+    });
+  });
+
+  describe('signed URLs', () => {
+    it('should accept the URLs it signed', async () => {
+      const { base, key, expires, signature } = paramsOf(
+        await driver.getSignedUrl('evaluations/e1/informe.pdf', 60),
+      );
+
+      expect(base).toBe('https://api.example.com/storage/local');
+      expect(() =>
+        driver.verifySignedUrl('GET', key, expires, signature),
+      ).not.toThrow();
+    });
+
+    it('should bind the signature to the method, key and maximum size', async () => {
+      const { key, expires, signature, maxSize } = paramsOf(
+        await driver.getSignedUploadUrl('uploads/informe.pdf', 60, {
+          maxSize: 1024,
+        }),
+      );
+
+      expect(maxSize).toBe(1024);
+      expect(() =>
+        driver.verifySignedUrl('PUT', key, expires, signature, maxSize),
+      ).not.toThrow();
+      expect(() =>
+        driver.verifySignedUrl('GET', key, expires, signature, maxSize),
+      ).toThrow(NotFoundException);
+      expect(() =>
+        driver.verifySignedUrl(
+          'PUT',
+          'uploads/otro.pdf',
+          expires,
+          signature,
+          maxSize,
+        ),
+      ).toThrow(NotFoundException);
+      expect(() =>
+        driver.verifySignedUrl('PUT', key, expires, signature, 10 * 1024),
+      ).toThrow(NotFoundException);
+      expect(() =>
+        driver.verifySignedUrl('PUT', key, expires + 60, signature, maxSize),
+      ).toThrow(NotFoundException);
+    });
+
+    it('should reject expired URLs', async () => {
+      const { key, expires, signature } = paramsOf(
+        await driver.getSignedUrl('evaluations/e1/informe.pdf', 60),
+      );
+      jest.spyOn(Date, 'now').mockReturnValue((expires + 1) * 1000);
+
+      expect(() =>
+        driver.verifySignedUrl('GET', key, expires, signature),
+      ).toThrow('La URL expiró');
+
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, join, relative, resolve, sep } from 'path';
+import {
+  PutObjectOptions,
+  SignedUploadOptions,
+  StorageDriver,
+  StorageLocation,
+  StoredObjectInfo,
+} from './storage-driver.interface';
+
+const LOCAL_URL_PREFIX = 'local://';
+
+export type SignedMethod = 'GET' | 'PUT';
+
+// Content-Type por extensión; el disco no guarda metadata como S3
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.txt': 'text/plain',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.zip': 'application/zip',
+};
+
+/**
+ * Almacenamiento en disco local (STORAGE_LOCAL_DIR) para desarrollo y
+ * despliegues sin S3. Los archivos se guardan como local://key y las URLs
+ * firmadas (HMAC) apuntan a GET y PUT /storage/local.
+ */
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly logger = new Logger(LocalStorageDriver.name);
+  private readonly rootDir: string;
+  private readonly signingSecret: string;
+  private readonly publicBaseUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rootDir = resolve(
+      this.configService.get<string>('STORAGE_LOCAL_DIR', './storage'),
+    );
+    this.publicBaseUrl = this.configService
+      .get<string>(
+        'STORAGE_PUBLIC_BASE_URL',
+        `http://localhost:${this.configService.get('PORT', 3000)}`,
+      )
+      .replace(/\/+$/, '');
+
+    const secret = this.configService.get<string>(
+      'STORAGE_LOCAL_SIGNING_SECRET',
+    );
+    if (
+      !secret &&
+      this.configService.get<string>('STORAGE_DRIVER', 's3') === 'local'
+    ) {
+      this.logger.warn(
+        'STORAGE_LOCAL_SIGNING_SECRET no está configurado: las URLs firmadas dejan de valer al reiniciar',
+      );
+    }
+    this.signingSecret = secret || randomBytes(32).toString('hex');
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions = {}) {
+    const path = this.resolvePath(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+
+    this.logger.log(
+      `Archivo guardado en disco: ${key} (${body.length} bytes, ${options.contentType ?? this.contentTypeOf(key)})`,
+    );
+
+    return this.toUrl(key);
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new BadRequestException(
+          'El archivo no existe en el almacenamiento',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const info = await stat(this.resolvePath(key));
+
+      if (!info.isFile()) {
+        return null;
+      }
+
+      return {
+        key,
+        size: info.size,
+        contentType: this.contentTypeOf(key),
+        lastModified: info.mtime,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObjectInfo[] = [];
+    let entries: string[];
+
+    try {
+      entries = await readdir(this.rootDir, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return objects;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = entry.split(sep).join('/');
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+
+      const info = await this.head(key);
+      if (info) {
+        objects.push(info);
+      }
+    }
+
+    return objects;
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number) {
+    return Promise.resolve(this.signUrl('GET', key, expiresInSeconds));
+  }
+
+  /**
+   * La firma incluye el tamaño máximo, que se controla al recibir el PUT
+   */
+  getSignedUploadUrl(
+    key: string,
+    expiresInSeconds: number,
+    options: SignedUploadOptions = {},
+  ) {
+    return Promise.resolve(
+      this.signUrl('PUT', key, expiresInSeconds, options.maxSize),
+    );
+  }
+
+  /**
+   * Validar la firma de una URL generada por getSignedUrl o getSignedUploadUrl
+   */
+  verifySignedUrl(
+    method: SignedMethod,
+    key: string,
+    expires: number,
+    signature: string,
+    maxSize?: number,
+  ) {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      throw new NotFoundException('La URL expiró');
+    }
+
+    const expected = Buffer.from(this.sign(method, key, expires, maxSize));
+    const received = Buffer.from(signature ?? '');
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new NotFoundException('Firma inválida');
+    }
+  }
+
+  toUrl(key: string) {
+    return `${LOCAL_URL_PREFIX}${key}`;
+  }
+
+  parseUrl(url: string): StorageLocation {
+    if (!url.startsWith(LOCAL_URL_PREFIX)) {
+      throw new BadRequestException(
+        'Formato de URL inválido para el almacenamiento local. Usa: local://key',
+      );
+    }
+
+    const key = url.slice(LOCAL_URL_PREFIX.length);
+    this.resolvePath(key);
+
+    return { key };
+  }
+
+  contentTypeOf(key: string) {
+    return (
+      CONTENT_TYPES[extname(key).toLowerCase()] ?? 'application/octet-stream'
+    );
+  }
+
+  private signUrl(
+    method: SignedMethod,
+    key: string,
+    expiresInSeconds: number,
+    maxSize?: number,
+  ) {
+    this.resolvePath(key);
+
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      ...(maxSize !== undefined && { maxSize: String(maxSize) }),
+      signature: this.sign(method, key, expires, maxSize),
+    });
+
+    return `${this.publicBaseUrl}/storage/local?${params.toString()}`;
+  }
+
+  private sign(
+    method: SignedMethod,
+    key: string,
+    expires: number,
+    maxSize?: number,
+  ) {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${method}:${key}:${expires}:${maxSize ?? ''}`)
+      .digest('hex');
+  }
+
+  /**
+   * Ruta absoluta de una key, sin permitir salir de STORAGE_LOCAL_DIR
+   */
+  private resolvePath(key: string) {
+    const path = resolve(this.rootDir, key);
+    const relativePath = relative(this.rootDir, path);
+
+    if (!key || !relativePath || relativePath.startsWith('..')) {
+      throw new BadRequestException(`Key de almacenamiento inválida: ${key}`);
+    }
+
+    return join(this.rootDir, relativePath);
+  }
+}
@@ -0,0 +1,288 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import {
+  PutObjectOptions,
+  SignedUploadOptions,
+  StorageDriver,
+  StorageLocation,
+  StoredObjectInfo,
+} from './storage-driver.interface';
+
+/**
+ * Almacenamiento en S3 o en un servicio compatible (MinIO, R2...) indicado
+ * con AWS_S3_ENDPOINT. AWS_S3_FORCE_PATH_STYLE usa URLs endpoint/bucket/key
+ * en lugar de bucket.endpoint/key. Los objetos son privados: se descargan
+ * con URLs firmadas.
+ */
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly logger = new Logger(S3StorageDriver.name);
+  private readonly client: S3Client;
+  private readonly region: string;
+  private readonly endpoint?: URL;
+  private readonly forcePathStyle: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    this.region = this.configService.get<string>('AWS_REGION', 'us-east-1');
+
+    const endpoint = this.configService.get<string>('AWS_S3_ENDPOINT');
+    this.endpoint = endpoint ? new URL(endpoint) : undefined;
+    this.forcePathStyle =
+      this.configService.get<string>('AWS_S3_FORCE_PATH_STYLE', 'false') ===
+      'true';
+
+    this.client = new S3Client({
+      region: this.region,
+      endpoint: this.endpoint?.toString(),
+      forcePathStyle: this.forcePathStyle,
+      credentials: {
+        accessKeyId: this.configService.get<string>('AWS_ACCESS_KEY_ID')!,
+        secretAccessKey: this.configService.get<string>(
+          'AWS_SECRET_ACCESS_KEY',
+        )!,
+      },
+    });
+  }
+
+  private get bucket(): string {
+    const bucket = this.configService.get<string>('AWS_S3_BUCKET_NAME');
+
+    if (!bucket) {
+      throw new BadRequestException(
+        'AWS_S3_BUCKET_NAME no está configurado en .env',
+      );
+    }
+
+    return bucket;
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions = {}) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      }),
+    );
+
+    return this.toUrl(key);
+  }
+
+  async get(key: string) {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+
+      if (!response.Body) {
+        throw new BadRequestException('El archivo en S3 está vacío');
+      }
+
+      return await this.streamToBuffer(response.Body as Readable);
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+
+      return {
+        key,
+        size: response.ContentLength,
+        contentType: response.ContentType,
+        lastModified: response.LastModified,
+      };
+    } catch (error) {
+      if (['NotFound', 'NoSuchKey'].includes((error as Error).name)) {
+        return null;
+      }
+      throw this.translateError(error);
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      for (const object of response.Contents ?? []) {
+        objects.push({
+          key: object.Key!,
+          size: object.Size,
+          lastModified: object.LastModified,
+        });
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+
+  /**
+   * S3 no limita el tamaño en una URL firmada de PUT; se valida al
+   * confirmar la subida
+   */
+  getSignedUploadUrl(
+    key: string,
+    expiresInSeconds: number,
+    options: SignedUploadOptions = {},
+  ) {
+    return getSignedUrl(
+      this.client,
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ContentType: options.contentType,
+      }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+
+  toUrl(key: string) {
+    if (!this.endpoint) {
+      return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
+    }
+
+    const base = this.endpoint.origin;
+
+    return this.forcePathStyle
+      ? `${base}/${this.bucket}/${key}`
+      : `${this.endpoint.protocol}//${this.bucket}.${this.endpoint.host}/${key}`;
+  }
+
+  /**
+   * Soporta los formatos:
+   * - s3://bucket/path/to/file.pdf
+   * - https://bucket.s3.region.amazonaws.com/path/to/file.pdf
+   * - https://s3.region.amazonaws.com/bucket/path/to/file.pdf
+   * - {AWS_S3_ENDPOINT}/bucket/path/to/file.pdf (path-style, p. ej. MinIO)
+   * - https://bucket.{host de AWS_S3_ENDPOINT}/path/to/file.pdf
+   */
+  parseUrl(url: string): StorageLocation {
+    const location = this.parseLocation(url);
+
+    if (!location || !location.bucket || !location.key) {
+      throw new BadRequestException(
+        'Formato de URL de S3 inválido. Usa: s3://bucket/key o URLs HTTPS de S3',
+      );
+    }
+
+    if (location.bucket !== this.bucket) {
+      throw new BadRequestException(
+        `La URL pertenece al bucket ${location.bucket}, distinto del configurado`,
+      );
+    }
+
+    return location;
+  }
+
+  private parseLocation(url: string): StorageLocation | null {
+    if (url.startsWith('s3://')) {
+      const [bucket, ...keyParts] = url.slice('s3://'.length).split('/');
+      return { bucket, key: keyParts.join('/') };
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const path = decodeURIComponent(parsed.pathname.substring(1));
+    const pathStyle = () => {
+      const [bucket, ...keyParts] = path.split('/');
+      return { bucket, key: keyParts.join('/') };
+    };
+
+    if (this.endpoint) {
+      if (parsed.host === this.endpoint.host) {
+        return pathStyle();
+      }
+      if (parsed.host.endsWith(`.${this.endpoint.host}`)) {
+        return {
+          bucket: parsed.host.slice(0, -(this.endpoint.host.length + 1)),
+          key: path,
+        };
+      }
+    }
+
+    if (parsed.hostname.endsWith('.amazonaws.com')) {
+      // Virtual-hosted: bucket.s3.region.amazonaws.com / bucket.s3.amazonaws.com
+      if (parsed.hostname.includes('.s3.')) {
+        return { bucket: parsed.hostname.split('.s3.')[0], key: path };
+      }
+      // Path-style: s3.region.amazonaws.com/bucket/key
+      if (
+        parsed.hostname.startsWith('s3.') ||
+        parsed.hostname.startsWith('s3-')
+      ) {
+        return pathStyle();
+      }
+    }
+
+    return null;
+  }
+
+  private translateError(error: unknown) {
+    const name = (error as Error).name;
+
+    if (name === 'NoSuchKey' || name === 'NotFound') {
+      return new BadRequestException('El archivo no existe en S3');
+    }
+    if (name === 'NoSuchBucket') {
+      return new BadRequestException('El bucket no existe');
+    }
+
+    this.logger.error('Error de S3:', error);
+    return error;
+  }
+
+  private async streamToBuffer(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk as Uint8Array));
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,85 @@
+export const STORAGE_DRIVERS = ['s3', 'local'] as const;
+
+export type StorageDriverName = (typeof STORAGE_DRIVERS)[number];
+
+/**
+ * Ubicación de un archivo a partir de su URL. El bucket solo aplica a S3.
+ */
+export interface StorageLocation {
+  bucket?: string;
+  key: string;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size?: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface SignedUploadOptions {
+  contentType?: string;
+  // Tamaño máximo aceptado; no todos los backends pueden imponerlo
+  maxSize?: number;
+}
+
+/**
+ * Contrato común para los backends de almacenamiento (S3/MinIO, disco local).
+ * Las operaciones reciben la key del archivo dentro del almacenamiento
+ * configurado; parseUrl convierte las URLs guardadas en la base de datos.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /**
+   * Guarda un archivo privado y retorna su URL
+   */
+  put(key: string, body: Buffer, options?: PutObjectOptions): Promise<string>;
+
+  /**
+   * Descarga un archivo completo
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Información del archivo, o null si no existe
+   */
+  head(key: string): Promise<StoredObjectInfo | null>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Archivos cuya key empieza con el prefijo indicado
+   */
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+
+  /**
+   * URL temporal para descargar el archivo sin credenciales
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * URL temporal para subir el archivo con PUT sin pasar por la API
+   */
+  getSignedUploadUrl(
+    key: string,
+    expiresInSeconds: number,
+    options?: SignedUploadOptions,
+  ): Promise<string>;
+
+  /**
+   * URL con la que se guarda el archivo en la base de datos
+   */
+  toUrl(key: string): string;
+
+  /**
+   * Ubicación de un archivo a partir de su URL; lanza BadRequestException si
+   * la URL no pertenece a este almacenamiento
+   */
+  parseUrl(url: string): StorageLocation;
+}
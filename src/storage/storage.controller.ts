@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  PayloadTooLargeException,
+  Put,
+  Query,
+  Req,
+  StreamableFile,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { basename } from 'path';
+import { StorageService } from './storage.service';
+import { LocalStorageDriver } from './local-storage.driver';
+
+// Content-Types que el body parser de Nest consume antes de llegar al handler
+const PARSED_CONTENT_TYPES = [
+  'application/json',
+  'application/x-www-form-urlencoded',
+];
+
+@ApiTags('storage')
+@Controller('storage')
+export class StorageController {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly localDriver: LocalStorageDriver,
+  ) {}
+
+  @Get('local')
+  @ApiOperation({
+    summary: 'Descargar un archivo del almacenamiento local',
+    description:
+      'Sirve las URLs firmadas que genera el almacenamiento local (STORAGE_DRIVER=local). Solo responde mientras la firma sea válida y no haya expirado.',
+  })
+  @ApiQuery({ name: 'key', required: true })
+  @ApiQuery({
+    name: 'expires',
+    required: true,
+    description: 'Epoch en segundos',
+  })
+  @ApiQuery({ name: 'signature', required: true })
+  @ApiResponse({ status: 200, description: 'Contenido del archivo' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Almacenamiento local deshabilitado, firma inválida o URL expirada',
+  })
+  async downloadLocal(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+  ) {
+    this.assertLocalDriver();
+    this.localDriver.verifySignedUrl('GET', key, Number(expires), signature);
+
+    const buffer = await this.localDriver.get(key);
+
+    return new StreamableFile(buffer, {
+      type: this.localDriver.contentTypeOf(key),
+      disposition: `inline; filename="${encodeURIComponent(basename(key))}"`,
+    });
+  }
+
+  @Put('local')
+  @HttpCode(204)
+  @ApiOperation({
+    summary: 'Subir un archivo al almacenamiento local',
+    description:
+      'Recibe el cuerpo de una URL firmada de subida (PUT) generada por el almacenamiento local. El cuerpo es el contenido del archivo, sin multipart. No admite Content-Type application/json ni application/x-www-form-urlencoded, porque el servidor ya parsea esos cuerpos.',
+  })
+  @ApiQuery({ name: 'key', required: true })
+  @ApiQuery({
+    name: 'expires',
+    required: true,
+    description: 'Epoch en segundos',
+  })
+  @ApiQuery({ name: 'maxSize', required: false, description: 'Bytes' })
+  @ApiQuery({ name: 'signature', required: true })
+  @ApiResponse({ status: 204, description: 'Archivo guardado' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Almacenamiento local deshabilitado, firma inválida o URL expirada',
+  })
+  @ApiResponse({ status: 413, description: 'El archivo supera maxSize' })
+  @ApiResponse({
+    status: 415,
+    description: 'Content-Type JSON o de formulario',
+  })
+  async uploadLocal(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Query('maxSize') maxSize: string | undefined,
+    @Req() req: Request,
+  ) {
+    this.assertLocalDriver();
+
+    const limit = maxSize === undefined ? undefined : Number(maxSize);
+    this.localDriver.verifySignedUrl(
+      'PUT',
+      key,
+      Number(expires),
+      signature,
+      limit,
+    );
+
+    // El body parser ya leyó el stream: se guardaría un archivo vacío
+    if (req.is(PARSED_CONTENT_TYPES)) {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type ${req.headers['content-type']} no admitido; sube el archivo con su tipo o application/octet-stream`,
+      );
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (limit !== undefined && size > limit) {
+        throw new PayloadTooLargeException(
+          `El archivo supera el máximo de ${limit} bytes`,
+        );
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    await this.localDriver.put(key, Buffer.concat(chunks), {
+      contentType: req.headers['content-type'],
+    });
+  }
+
+  private assertLocalDriver() {
+    if (this.storageService.driverName !== 'local') {
+      throw new NotFoundException('El almacenamiento local no está habilitado');
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+import { StorageController } from './storage.controller';
+import { S3StorageDriver } from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+@Module({
+  controllers: [StorageController],
+  providers: [StorageService, S3StorageDriver, LocalStorageDriver],
+  exports: [StorageService],
+})
+export class StorageModule {}
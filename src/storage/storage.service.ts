@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PutObjectOptions,
+  SignedUploadOptions,
+  STORAGE_DRIVERS,
+  StorageDriver,
+  StorageDriverName,
+} from './storage-driver.interface';
+import { S3StorageDriver } from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+/**
+ * Punto de acceso al almacenamiento de archivos. El backend se elige con
+ * STORAGE_DRIVER (s3 | local); el resto de la aplicación trabaja con las
+ * URLs que guarda en la base de datos.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  readonly driver: StorageDriver;
+
+  constructor(
+    private readonly configService: ConfigService,
+    s3Driver: S3StorageDriver,
+    localDriver: LocalStorageDriver,
+  ) {
+    const name = this.configService.get<string>('STORAGE_DRIVER', 's3');
+
+    if (!this.isDriverName(name)) {
+      throw new Error(
+        `STORAGE_DRIVER inválido: ${name}. Valores permitidos: ${STORAGE_DRIVERS.join(', ')}`,
+      );
+    }
+
+    const drivers: Record<StorageDriverName, StorageDriver> = {
+      s3: s3Driver,
+      local: localDriver,
+    };
+    this.driver = drivers[name];
+
+    this.logger.log(`Almacenamiento de archivos: ${this.driver.name}`);
+  }
+
+  get driverName() {
+    return this.driver.name;
+  }
+
+  // ============================================
+  // OPERACIONES POR URL
+  // ============================================
+
+  /**
+   * Guarda un archivo y retorna la URL a persistir
+   */
+  upload(key: string, body: Buffer, options?: PutObjectOptions) {
+    return this.driver.put(key, body, options);
+  }
+
+  download(url: string) {
+    return this.driver.get(this.driver.parseUrl(url).key);
+  }
+
+  stat(url: string) {
+    return this.driver.head(this.driver.parseUrl(url).key);
+  }
+
+  remove(url: string) {
+    return this.driver.delete(this.driver.parseUrl(url).key);
+  }
+
+  getSignedUrl(url: string, expiresInSeconds: number) {
+    return this.driver.getSignedUrl(
+      this.driver.parseUrl(url).key,
+      expiresInSeconds,
+    );
+  }
+
+  /**
+   * URL firmada para subir directamente a la key indicada
+   */
+  getSignedUploadUrl(
+    key: string,
+    expiresInSeconds: number,
+    options?: SignedUploadOptions,
+  ) {
+    return this.driver.getSignedUploadUrl(key, expiresInSeconds, options);
+  }
+
+  toUrl(key: string) {
+    return this.driver.toUrl(key);
+  }
+
+  list(prefix: string) {
+    return this.driver.list(prefix);
+  }
+
+  parseUrl(url: string) {
+    return this.driver.parseUrl(url);
+  }
+
+  isValidUrl(url: string) {
+    try {
+      this.driver.parseUrl(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isDriverName(name: string): name is StorageDriverName {
+    return (STORAGE_DRIVERS as readonly string[]).includes(name);
+  }
+}